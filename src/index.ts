@@ -12,13 +12,25 @@ export type * from './runtime/types';
 export {
   // Auth
   useLtAuth,
+  useLtAbility,
   useLtAuthClient,
   ltAuthClient,
+  useLtIdleTimeout,
+  useLtEmailVerification,
+  useLtAdminUsers,
+  useLtPasskeys,
+  useLtTwoFactor,
+  useLtPasswordPolicy,
+  useLtPasswordReset,
+  useLtSessions,
+  useLtTenant,
   // System Setup
   useSystemSetup,
   // Upload
   useLtTusUpload,
   useLtFile,
+  // Connectivity
+  useLtConnectivity,
   // Share
   useLtShare,
   type UseLtShareReturn,
@@ -35,7 +47,17 @@ export {
 } from './runtime/composables';
 
 // Utilities
-export { ltArrayBufferToBase64Url, ltBase64UrlToUint8Array, ltSha256, tw } from './runtime/utils';
+export {
+  ltArrayBufferToBase64Url,
+  ltBase64UrlToUint8Array,
+  ltDecodeJwtClaims,
+  ltMatchesPathPattern,
+  ltQrCodeMatrix,
+  ltQrCodeSvg,
+  ltSafeRedirectPath,
+  ltSha256,
+  tw,
+} from './runtime/utils';
 
 // Library (Auth State utilities & Plugin Registry)
 export {
@@ -47,14 +69,35 @@ export {
   type LtAuthClient,
   // Auth State
   attemptLtJwtSwitch,
+  broadcastLtAuthSync,
   createLtAuthFetch,
   getLtApiBase,
   getLtAuthMode,
+  getLtCsrfToken,
   getLtJwtToken,
+  getLtTenantHeaders,
+  getLtTenantId,
   isLtAuthenticated,
   ltAuthFetch,
+  onLtAuthSync,
+  refreshLtCsrfToken,
+  refreshLtJwtToken,
+  registerLtTokenStorage,
   setLtAuthMode,
   setLtJwtToken,
+  setLtTenantId,
+  withLtCsrf,
+  // Abilities
+  clearLtAbilities,
+  registerLtAbilities,
+  // Step-Up Re-Authentication
+  registerLtReauthPrompt,
+  // Connectivity
+  checkLtConnectivity,
+  isLtNetworkError,
+  isLtOnline,
+  trackLtConnectivity,
+  whenLtOnline,
   // AI client helpers
   buildLtAiUrl,
   getLtAiBasePath,
@@ -5,7 +5,7 @@
  * for lenne.tech projects.
  */
 
-import { addComponent, addImports, addPlugin, addRouteMiddleware, createResolver, defineNuxtModule, tryResolveModule } from '@nuxt/kit';
+import { addComponent, addImports, addPlugin, addRouteMiddleware, addServerImports, createResolver, defineNuxtModule, tryResolveModule } from '@nuxt/kit';
 
 import type { LtExtensionsModuleOptions } from './runtime/types';
 
@@ -28,23 +28,68 @@ const defaultOptions: LtExtensionsModuleOptions = {
   auth: {
     basePath: '/iam',
     baseURL: '',
+    callbackPath: '/auth/callback',
     cookieNames: {
       state: DEFAULT_LT_AUTH_STATE_COOKIE,
       token: DEFAULT_LT_JWT_TOKEN_COOKIE,
     },
+    csrf: {
+      cookieName: 'csrf-token',
+      enabled: false,
+      endpoint: '',
+      errorCodes: ['EBADCSRFTOKEN', 'INVALID_CSRF_TOKEN'],
+      header: 'X-CSRF-Token',
+    },
+    emailVerification: {
+      redirectUnverified: false,
+      resendCooldownSeconds: 60,
+      verifyPath: '/auth/verify-email',
+    },
     enabled: true,
     enableAdmin: true,
+    enableEmailOtp: false,
+    enableMagicLink: false,
     enablePasskey: true,
     enableTwoFactor: true,
+    homePath: '/',
+    idle: {
+      enabled: false,
+      timeoutMinutes: 30,
+      warningSeconds: 60,
+    },
     interceptor: {
       enabled: true,
+      forbidden: {
+        action: 'hook',
+        enabled: false,
+        path: '/forbidden',
+      },
+      ignoreUrls: [],
       publicPaths: [],
     },
+    jwtRefresh: {
+      enabled: true,
+      leewaySeconds: 60,
+    },
     loginPath: '/auth/login',
+    resetPasswordPath: '/auth/reset-password',
+    socialProviders: [],
+    sync: {
+      enabled: true,
+      redirect: true,
+    },
     systemSetup: {
+      autoSignIn: true,
       enabled: false,
       setupPath: '/auth/setup',
+      tokenQueryParam: 'setupToken',
+    },
+    tenant: {
+      enabled: false,
+      header: 'X-Tenant-Id',
+      listPath: '/organization/list',
     },
+    tokenStorage: 'cookie',
     twoFactorRedirectPath: '/auth/2fa',
   },
   errorTranslation: {
@@ -77,7 +122,18 @@ export default defineNuxtModule<LtExtensionsModuleOptions>({
         ...defaultOptions.auth,
         ...options.auth,
         cookieNames: { ...defaultOptions.auth!.cookieNames, ...options.auth?.cookieNames },
+        csrf: { ...defaultOptions.auth!.csrf, ...options.auth?.csrf },
+        emailVerification: { ...defaultOptions.auth!.emailVerification, ...options.auth?.emailVerification },
+        idle: { ...defaultOptions.auth!.idle, ...options.auth?.idle },
+        interceptor: {
+          ...defaultOptions.auth!.interceptor,
+          ...options.auth?.interceptor,
+          forbidden: { ...defaultOptions.auth!.interceptor!.forbidden, ...options.auth?.interceptor?.forbidden },
+        },
+        jwtRefresh: { ...defaultOptions.auth!.jwtRefresh, ...options.auth?.jwtRefresh },
+        sync: { ...defaultOptions.auth!.sync, ...options.auth?.sync },
         systemSetup: { ...defaultOptions.auth!.systemSetup, ...options.auth?.systemSetup },
+        tenant: { ...defaultOptions.auth!.tenant, ...options.auth?.tenant },
       },
       errorTranslation: { ...defaultOptions.errorTranslation, ...options.errorTranslation },
       i18n: { ...defaultOptions.i18n, ...options.i18n },
@@ -151,23 +207,69 @@ export default defineNuxtModule<LtExtensionsModuleOptions>({
       auth: {
         basePath: resolvedOptions.auth?.basePath || '/iam',
         baseURL: resolvedOptions.auth?.baseURL || '',
+        callbackPath: resolvedOptions.auth?.callbackPath || '/auth/callback',
         cookieNames: {
           state: resolvedOptions.auth?.cookieNames?.state || DEFAULT_LT_AUTH_STATE_COOKIE,
           token: resolvedOptions.auth?.cookieNames?.token || DEFAULT_LT_JWT_TOKEN_COOKIE,
         },
+        csrf: {
+          cookieName: resolvedOptions.auth?.csrf?.cookieName || 'csrf-token',
+          enabled: resolvedOptions.auth?.csrf?.enabled ?? false,
+          endpoint: resolvedOptions.auth?.csrf?.endpoint || '',
+          errorCodes: resolvedOptions.auth?.csrf?.errorCodes?.length ? resolvedOptions.auth.csrf.errorCodes : ['EBADCSRFTOKEN', 'INVALID_CSRF_TOKEN'],
+          header: resolvedOptions.auth?.csrf?.header || 'X-CSRF-Token',
+        },
+        emailVerification: {
+          redirectUnverified: resolvedOptions.auth?.emailVerification?.redirectUnverified ?? false,
+          resendCooldownSeconds: resolvedOptions.auth?.emailVerification?.resendCooldownSeconds ?? 60,
+          verifyPath: resolvedOptions.auth?.emailVerification?.verifyPath || '/auth/verify-email',
+        },
         enabled: resolvedOptions.auth?.enabled ?? true,
         enableAdmin: resolvedOptions.auth?.enableAdmin ?? true,
+        enableEmailOtp: resolvedOptions.auth?.enableEmailOtp ?? false,
+        enableMagicLink: resolvedOptions.auth?.enableMagicLink ?? false,
         enablePasskey,
         enableTwoFactor: resolvedOptions.auth?.enableTwoFactor ?? true,
+        homePath: resolvedOptions.auth?.homePath || '/',
+        idle: {
+          enabled: resolvedOptions.auth?.idle?.enabled ?? false,
+          timeoutMinutes: resolvedOptions.auth?.idle?.timeoutMinutes ?? 30,
+          warningSeconds: resolvedOptions.auth?.idle?.warningSeconds ?? 60,
+        },
         interceptor: {
           enabled: resolvedOptions.auth?.interceptor?.enabled ?? true,
+          forbidden: {
+            action: resolvedOptions.auth?.interceptor?.forbidden?.action || 'hook',
+            enabled: resolvedOptions.auth?.interceptor?.forbidden?.enabled ?? false,
+            path: resolvedOptions.auth?.interceptor?.forbidden?.path || '/forbidden',
+          },
+          ignoreUrls: resolvedOptions.auth?.interceptor?.ignoreUrls || [],
           publicPaths: resolvedOptions.auth?.interceptor?.publicPaths || [],
         },
+        jwtRefresh: {
+          enabled: resolvedOptions.auth?.jwtRefresh?.enabled ?? true,
+          leewaySeconds: resolvedOptions.auth?.jwtRefresh?.leewaySeconds ?? 60,
+        },
         loginPath: resolvedOptions.auth?.loginPath || '/auth/login',
+        resetPasswordPath: resolvedOptions.auth?.resetPasswordPath || '/auth/reset-password',
+        socialProviders: resolvedOptions.auth?.socialProviders || [],
+        sync: {
+          enabled: resolvedOptions.auth?.sync?.enabled ?? true,
+          redirect: resolvedOptions.auth?.sync?.redirect ?? true,
+        },
         systemSetup: {
+          autoSignIn: resolvedOptions.auth?.systemSetup?.autoSignIn ?? true,
           enabled: resolvedOptions.auth?.systemSetup?.enabled ?? false,
           setupPath: resolvedOptions.auth?.systemSetup?.setupPath || '/auth/setup',
+          tokenQueryParam: resolvedOptions.auth?.systemSetup?.tokenQueryParam || 'setupToken',
+        },
+        tenant: {
+          cookieName: resolvedOptions.auth?.tenant?.cookieName || '',
+          enabled: resolvedOptions.auth?.tenant?.enabled ?? false,
+          header: resolvedOptions.auth?.tenant?.header || 'X-Tenant-Id',
+          listPath: resolvedOptions.auth?.tenant?.listPath || '/organization/list',
         },
+        tokenStorage: resolvedOptions.auth?.tokenStorage || 'cookie',
         twoFactorRedirectPath: resolvedOptions.auth?.twoFactorRedirectPath || '/auth/2fa',
       },
       errorTranslation: {
@@ -184,7 +286,18 @@ export default defineNuxtModule<LtExtensionsModuleOptions>({
     addImports([
       // Composables
       { name: 'useLtAuth', from: resolve('./runtime/composables/auth/use-lt-auth') },
+      { name: 'useLtAbility', from: resolve('./runtime/composables/auth/use-lt-ability') },
+      { name: 'useLtAdminUsers', from: resolve('./runtime/composables/auth/use-lt-admin-users') },
+      { name: 'useLtEmailVerification', from: resolve('./runtime/composables/auth/use-lt-email-verification') },
+      { name: 'useLtIdleTimeout', from: resolve('./runtime/composables/auth/use-lt-idle-timeout') },
+      { name: 'useLtPasswordPolicy', from: resolve('./runtime/composables/auth/use-lt-password-policy') },
+      { name: 'useLtPasswordReset', from: resolve('./runtime/composables/auth/use-lt-password-reset') },
+      { name: 'useLtPasskeys', from: resolve('./runtime/composables/auth/use-lt-passkeys') },
+      { name: 'useLtSessions', from: resolve('./runtime/composables/auth/use-lt-sessions') },
+      { name: 'useLtTenant', from: resolve('./runtime/composables/auth/use-lt-tenant') },
+      { name: 'useLtTwoFactor', from: resolve('./runtime/composables/auth/use-lt-two-factor') },
       { name: 'useLtAuthClient', from: resolve('./runtime/composables/use-lt-auth-client') },
+      { name: 'useLtConnectivity', from: resolve('./runtime/composables/use-lt-connectivity') },
       { name: 'ltAuthClient', from: resolve('./runtime/composables/use-lt-auth-client') },
       {
         name: 'useLtErrorTranslation',
@@ -198,12 +311,27 @@ export default defineNuxtModule<LtExtensionsModuleOptions>({
       { name: 'ltSha256', from: resolve('./runtime/utils/crypto') },
       { name: 'ltArrayBufferToBase64Url', from: resolve('./runtime/utils/crypto') },
       { name: 'ltBase64UrlToUint8Array', from: resolve('./runtime/utils/crypto') },
+      { name: 'ltDecodeJwtClaims', from: resolve('./runtime/utils/jwt') },
+      { name: 'ltMatchesPathPattern', from: resolve('./runtime/utils/path-pattern') },
+      { name: 'ltSafeRedirectPath', from: resolve('./runtime/utils/redirect') },
+      { name: 'ltQrCodeMatrix', from: resolve('./runtime/utils/qr') },
+      { name: 'ltQrCodeSvg', from: resolve('./runtime/utils/qr') },
       { name: 'tw', from: resolve('./runtime/utils/tw') },
+      // Lib - Abilities
+      { name: 'registerLtAbilities', from: resolve('./runtime/lib/ability') },
+      { name: 'clearLtAbilities', from: resolve('./runtime/lib/ability') },
+      // Lib - Step-Up Re-Authentication
+      { name: 'registerLtReauthPrompt', from: resolve('./runtime/lib/reauth') },
       // Lib - Auth Client & Plugin Registry
       { name: 'createLtAuthClient', from: resolve('./runtime/lib/auth-client') },
       { name: 'registerLtAuthPlugins', from: resolve('./runtime/lib/auth-client') },
       { name: 'getLtAuthPluginRegistry', from: resolve('./runtime/lib/auth-client') },
       { name: 'clearLtAuthPluginRegistry', from: resolve('./runtime/lib/auth-client') },
+      // Lib - Connectivity
+      { name: 'isLtOnline', from: resolve('./runtime/lib/connectivity') },
+      { name: 'isLtNetworkError', from: resolve('./runtime/lib/connectivity') },
+      { name: 'trackLtConnectivity', from: resolve('./runtime/lib/connectivity') },
+      { name: 'whenLtOnline', from: resolve('./runtime/lib/connectivity') },
       // Lib - Auth State
       { name: 'getLtAuthMode', from: resolve('./runtime/lib/auth-state') },
       { name: 'setLtAuthMode', from: resolve('./runtime/lib/auth-state') },
@@ -217,6 +345,23 @@ export default defineNuxtModule<LtExtensionsModuleOptions>({
       { name: 'isLtAuthenticated', from: resolve('./runtime/lib/auth-state') },
       { name: 'createLtAuthFetch', from: resolve('./runtime/lib/auth-state') },
       { name: 'ltAuthFetch', from: resolve('./runtime/lib/auth-state') },
+      { name: 'broadcastLtAuthSync', from: resolve('./runtime/lib/auth-state') },
+      { name: 'onLtAuthSync', from: resolve('./runtime/lib/auth-state') },
+      { name: 'refreshLtJwtToken', from: resolve('./runtime/lib/auth-state') },
+      { name: 'getLtTenantHeaders', from: resolve('./runtime/lib/auth-state') },
+      { name: 'getLtTenantId', from: resolve('./runtime/lib/auth-state') },
+      { name: 'setLtTenantId', from: resolve('./runtime/lib/auth-state') },
+      { name: 'registerLtTokenStorage', from: resolve('./runtime/lib/auth-state') },
+      { name: 'getLtCsrfToken', from: resolve('./runtime/lib/auth-state') },
+      { name: 'refreshLtCsrfToken', from: resolve('./runtime/lib/auth-state') },
+      { name: 'withLtCsrf', from: resolve('./runtime/lib/auth-state') },
+    ]);
+
+    // Server utils for project Nitro routes (server/api/**)
+    addServerImports([
+      { name: 'getLtSession', from: resolve('./runtime/server/utils/lt-auth') },
+      { name: 'requireLtUser', from: resolve('./runtime/server/utils/lt-auth') },
+      { name: 'requireLtRole', from: resolve('./runtime/server/utils/lt-auth') },
     ]);
 
     // AI composables + helpers (only when the AI module is enabled)
@@ -250,11 +395,57 @@ export default defineNuxtModule<LtExtensionsModuleOptions>({
     // so a misconfigured app reports it exactly once per process / page load.
     addPlugin(resolve('./runtime/plugins/lt-config-check'));
 
+    // Online / offline tracking (auth revalidation, setup check, TUS uploads and
+    // AI requests wait for the connection instead of failing for good)
+    addPlugin(resolve('./runtime/plugins/connectivity.client'));
+
     // Add auth interceptor plugin if enabled
     if (resolvedOptions.auth?.enabled && resolvedOptions.auth?.interceptor?.enabled) {
       addPlugin(resolve('./runtime/plugins/auth-interceptor.client'));
     }
 
+    // Add cross-tab auth sync plugin if enabled
+    if (resolvedOptions.auth?.enabled && resolvedOptions.auth?.sync?.enabled) {
+      addPlugin(resolve('./runtime/plugins/auth-sync.client'));
+    }
+
+    // Add silent JWT refresh plugin if enabled
+    if (resolvedOptions.auth?.enabled && resolvedOptions.auth?.jwtRefresh?.enabled) {
+      addPlugin(resolve('./runtime/plugins/jwt-refresh.client'));
+    }
+
+    // Add inactivity timeout plugin if enabled
+    if (resolvedOptions.auth?.enabled && resolvedOptions.auth?.idle?.enabled) {
+      addPlugin(resolve('./runtime/plugins/idle-timeout.client'));
+    }
+
+    // Add ability checks for templates (`v-lt-can`, `<LtCan>`)
+    if (resolvedOptions.auth?.enabled) {
+      addPlugin(resolve('./runtime/plugins/ability'));
+      addComponent({
+        name: 'LtCan',
+        filePath: resolve('./runtime/components/auth/LtCan.vue'),
+      });
+    }
+
+    // Add page-meta driven auth middleware (no-op for pages without `ltAuth` meta)
+    if (resolvedOptions.auth?.enabled) {
+      addRouteMiddleware({
+        name: 'lt-auth',
+        path: resolve('./runtime/middleware/auth'),
+        global: true,
+      });
+    }
+
+    // Add email verification middleware if enabled
+    if (resolvedOptions.auth?.enabled && resolvedOptions.auth?.emailVerification?.redirectUnverified) {
+      addRouteMiddleware({
+        name: 'lt-email-verification',
+        path: resolve('./runtime/middleware/email-verification'),
+        global: true,
+      });
+    }
+
     // Add system setup middleware if enabled
     if (resolvedOptions.auth?.systemSetup?.enabled) {
       addRouteMiddleware({
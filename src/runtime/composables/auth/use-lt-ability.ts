@@ -0,0 +1,53 @@
+/**
+ * Ability Composable
+ *
+ * Fine-grained permission checks ("can edit this document if owner or editor")
+ * on top of `hasRole` / `hasAnyRole`. Apps register their rules with
+ * `registerLtAbilities`; the rules are derived from the signed-in user and
+ * recomputed whenever the user or their roles change. Templates use the
+ * `v-lt-can` directive or the `<LtCan>` component.
+ *
+ * UI gate only — NOT an authorization boundary, like `isAdmin`: the user comes
+ * from the client-writable auth state, so the backend enforces the same rights.
+ */
+
+import type { UseLtAbilityReturn } from '../../types';
+
+import { computed } from '#imports';
+import { buildLtAbilityRules, ltCheckAbility } from '../../lib/ability';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Composable for ability checks of the current user
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const { can } = useLtAbility();
+ * const props = defineProps<{ document: Document }>();
+ * </script>
+ *
+ * <template>
+ *   <UButton v-if="can('update', 'Document', props.document)">Edit</UButton>
+ * </template>
+ * ```
+ */
+export function useLtAbility(): UseLtAbilityReturn {
+  const { hasAnyRole, hasRole, user } = useLtAuth();
+
+  const rules = computed(() => buildLtAbilityRules({ hasAnyRole, hasRole, user: user.value }));
+
+  function can(action: string, subject: string, object?: unknown): boolean {
+    return ltCheckAbility(rules.value, action, subject, object);
+  }
+
+  function cannot(action: string, subject: string, object?: unknown): boolean {
+    return !can(action, subject, object);
+  }
+
+  return {
+    can,
+    cannot,
+    rules,
+  };
+}
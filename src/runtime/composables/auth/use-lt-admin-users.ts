@@ -0,0 +1,118 @@
+/**
+ * Admin data layer for user management (headless): paginated/sorted/searchable
+ * listing, create, roles, bans, session revocation, removal and password reset.
+ * All endpoints are ADMIN-gated server-side (Better-Auth admin plugin).
+ *
+ * Requests go through the Better-Auth client (`authClient.admin`), so they use
+ * the same Cookie/JWT dual-mode fetch as every other auth call. Passwords are
+ * hashed with {@link ltSha256} before sending, like `signIn.email`.
+ *
+ * Pair with your own UI (e.g. a `UTable` bound to `listUsers`).
+ */
+
+import type { LtAdminBanOptions, LtAdminCreateUserInput, LtAdminUserList, LtAdminUserListQuery, LtUser, UseLtAdminUsersReturn } from '../../types';
+
+import { ltSha256 } from '../../utils/crypto';
+import { useLtAuthClient } from '../use-lt-auth-client';
+
+/**
+ * Unwrap a Better-Auth `{ data, error }` result. Throws an Error carrying the
+ * numeric `status` (same shape as the AI request errors) on failure.
+ */
+async function unwrap<T>(request: Promise<unknown>): Promise<T> {
+  const result = (await request) as { data?: T | null; error?: { message?: string; status?: number } | null } | null;
+  if (result?.error) {
+    const error = new Error(result.error.message || `HTTP ${result.error.status ?? 0}`) as Error & { status: number };
+    error.status = result.error.status ?? 0;
+    throw error;
+  }
+  return result?.data as T;
+}
+
+/**
+ * Roles of a user in both shapes (see {@link UseLtAdminUsersReturn.getUserRoles})
+ */
+function getUserRoles(user: LtUser): string[] {
+  const roles = Array.isArray(user.roles) ? user.roles.filter((role): role is string => typeof role === 'string') : [];
+  const single = typeof user.role === 'string' ? user.role.split(',') : [];
+  return [...new Set([...roles, ...single].map((role) => role.trim()).filter(Boolean))];
+}
+
+/**
+ * Composable for admin user management
+ *
+ * @example
+ * ```typescript
+ * const { banUser, getUserRoles, listUsers } = useLtAdminUsers();
+ *
+ * const page = await listUsers({ limit: 20, offset: 0, searchValue: 'doe', sortBy: 'createdAt', sortDirection: 'desc' });
+ * page.users.map((user) => getUserRoles(user)); // ['admin'] for role: 'admin' AND roles: ['admin']
+ * await banUser(page.users[0].id, { expiresIn: 7 * 24 * 3600, reason: 'Spam' });
+ * ```
+ */
+export function useLtAdminUsers(): UseLtAdminUsersReturn {
+  const authClient = useLtAuthClient();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function admin(): any {
+    if (!authClient.admin) {
+      throw new Error('[LtAdminUsers] The Better-Auth admin plugin is disabled (ltExtensions.auth.enableAdmin)');
+    }
+    return authClient.admin;
+  }
+
+  async function listUsers(query: LtAdminUserListQuery = {}): Promise<LtAdminUserList> {
+    // Drop empty values: an empty `searchValue` would filter for ''
+    const cleaned = Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined && value !== ''));
+    const data = await unwrap<LtAdminUserList | null>(admin().listUsers({ query: cleaned }));
+    return { limit: data?.limit, offset: data?.offset, total: data?.total ?? 0, users: data?.users ?? [] };
+  }
+
+  async function createUser(input: LtAdminCreateUserInput): Promise<LtUser> {
+    const password = await ltSha256(input.password);
+    const data = await unwrap<{ user: LtUser }>(admin().createUser({ ...input, password }));
+    return data.user;
+  }
+
+  async function setRole(userId: string, role: string | string[]): Promise<LtUser> {
+    const data = await unwrap<{ user: LtUser }>(admin().setRole({ role, userId }));
+    return data.user;
+  }
+
+  async function banUser(userId: string, options: LtAdminBanOptions = {}): Promise<LtUser> {
+    const data = await unwrap<{ user: LtUser }>(admin().banUser({ banExpiresIn: options.expiresIn, banReason: options.reason, userId }));
+    return data.user;
+  }
+
+  async function unbanUser(userId: string): Promise<LtUser> {
+    const data = await unwrap<{ user: LtUser }>(admin().unbanUser({ userId }));
+    return data.user;
+  }
+
+  async function revokeUserSessions(userId: string): Promise<boolean> {
+    const data = await unwrap<{ success?: boolean }>(admin().revokeUserSessions({ userId }));
+    return data?.success !== false;
+  }
+
+  async function removeUser(userId: string): Promise<boolean> {
+    const data = await unwrap<{ success?: boolean }>(admin().removeUser({ userId }));
+    return data?.success !== false;
+  }
+
+  async function setUserPassword(userId: string, newPassword: string): Promise<boolean> {
+    const data = await unwrap<{ status?: boolean }>(admin().setUserPassword({ newPassword: await ltSha256(newPassword), userId }));
+    return data?.status !== false;
+  }
+
+  return {
+    banUser,
+    createUser,
+    getUserRoles,
+    listUsers,
+    removeUser,
+    revokeUserSessions,
+    setRole,
+    setUserPassword,
+    unbanUser,
+  };
+}
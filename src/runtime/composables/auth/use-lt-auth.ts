@@ -10,11 +10,47 @@
  * - If cookies fail (401) -> switch to JWT mode
  */
 
-import type { LtAuthMode, LtAuthState, LtPasskeyAuthResult, LtPasskeyRegisterResult, LtUser, UseLtAuthReturn } from '../../types';
-
-import { useNuxtApp, useCookie, useState, useRequestHeaders, ref, computed, watch } from '#imports';
-import { ltArrayBufferToBase64Url, ltBase64UrlToUint8Array } from '../../utils/crypto';
-import { clearLtAuthCookies, getLtApiBase, getLtAuthCookieNames, resolveLtAuthState } from '../../lib/auth-state';
+import type {
+  LtAuthChangeReason,
+  LtAuthMode,
+  LtAuthState,
+  LtAuthSyncEventType,
+  LtEmailOtpType,
+  LtJwtClaims,
+  LtLinkedAccount,
+  LtPasskeyAuthResult,
+  LtPasskeyRegisterResult,
+  LtReauthCredentials,
+  LtReauthMethod,
+  LtRequireRecentAuthOptions,
+  LtSignInCallbackResult,
+  LtSocialSignInOptions,
+  LtUser,
+  UseLtAuthReturn,
+} from '../../types';
+
+import { useCookie, useState, useRequestHeaders, useRuntimeConfig, ref, computed, watch } from '#imports';
+import { ltArrayBufferToBase64Url, ltBase64UrlToUint8Array, ltSha256 } from '../../utils/crypto';
+import { ltDecodeJwtClaims } from '../../utils/jwt';
+import { ltSafeRedirectPath } from '../../utils/redirect';
+import {
+  broadcastLtAuthSync,
+  clearLtAuthCookies,
+  createLtJwtTokenRef,
+  getLtApiBase,
+  getLtAuthCookieNames,
+  getLtJwtToken,
+  getLtTenantHeaders,
+  getLtTokenStorageName,
+  refreshLtJwtToken,
+  resolveLtAuthState,
+  scheduleLtJwtRefresh,
+  withLtCsrf,
+} from '../../lib/auth-state';
+import { callLtAuthChangeHook, callLtAuthHook } from '../../lib/auth-hooks';
+import { isLtNetworkError, isLtOnline, trackLtConnectivity, whenLtOnline } from '../../lib/connectivity';
+import { getLtReauthPrompt } from '../../lib/reauth';
+import { useLtTranslation } from '../../lib/translation';
 import { useLtAuthClient } from '../use-lt-auth-client';
 
 /**
@@ -26,25 +62,21 @@ import { useLtAuthClient } from '../use-lt-auth-client';
 type LtUserOptionalKeys<T> = { [K in keyof T]-?: object extends Pick<T, K> ? K : never }[keyof T];
 
 /**
- * Helper function for i18n with German fallback
- *
- * Two-stage fallback strategy:
- * 1. Without i18n installed -> German (for single-language DE projects)
- * 2. With i18n, no translation -> English (international fallback)
+ * Classify a `setUser` write for the other tabs (see `broadcastLtAuthSync`).
+ * Returns `null` when nothing observable changed, so the re-validation on every
+ * app init does not ping every open tab.
  */
-function useTranslation() {
-  const nuxtApp = useNuxtApp();
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const i18n = (nuxtApp as any).$i18n;
-
-  return (key: string, germanFallback: string): string => {
-    // No i18n installed -> German (for single-language DE projects)
-    if (!i18n?.t) {
-      return germanFallback;
-    }
-    // i18n installed -> use i18n (fallback to EN is configured in i18n)
-    return i18n.t(key);
-  };
+function getAuthSyncType(previous: LtAuthState | null, next: LtAuthState): LtAuthSyncEventType | null {
+  if (!next.user) {
+    return previous?.user ? 'logout' : null;
+  }
+  if (!previous?.user || previous.user.id !== next.user.id) {
+    return 'login';
+  }
+  if (JSON.stringify(previous.user) !== JSON.stringify(next.user)) {
+    return 'user-update';
+  }
+  return previous.authMode !== next.authMode ? 'auth-mode-switch' : null;
 }
 
 /**
@@ -68,7 +100,7 @@ function useTranslation() {
  */
 export function useLtAuth(): UseLtAuthReturn {
   const authClient = useLtAuthClient();
-  const t = useTranslation();
+  const t = useLtTranslation();
 
   // Resolve cookie names once per composable invocation (configurable per project)
   const { state: stateCookieName, token: tokenCookieName } = getLtAuthCookieNames();
@@ -103,11 +135,19 @@ export function useLtAuth(): UseLtAuthReturn {
   // manufactures the stale twin which then shadows the real session.
   const ssrCookieHeader = import.meta.server ? useRequestHeaders(['cookie']).cookie || '' : '';
 
-  // JWT token storage (used when cookies are not available)
-  const jwtToken = useCookie<string | null>(tokenCookieName, {
-    maxAge: 60 * 60 * 24 * 7, // 7 days
-    sameSite: 'lax',
-  });
+  // JWT token storage (used when cookies are not available). Non-cookie
+  // storages (`auth.tokenStorage`) are invisible to `useCookie` and SSR.
+  const jwtToken =
+    getLtTokenStorageName() === 'cookie'
+      ? useCookie<string | null>(tokenCookieName, {
+          maxAge: 60 * 60 * 24 * 7, // 7 days
+          sameSite: 'lax',
+        })
+      : createLtJwtTokenRef();
+
+  // Decoded (not verified) claims of the stored JWT — drives the silent refresh schedule
+  const tokenClaims = computed<LtJwtClaims | null>(() => ltDecodeJwtClaims(jwtToken.value));
+  const tokenExpiresAt = computed<Date | null>(() => (typeof tokenClaims.value?.exp === 'number' ? new Date(tokenClaims.value.exp * 1000) : null));
 
   // Loading state
   const isLoading = ref<boolean>(false);
@@ -160,6 +200,14 @@ export function useLtAuth(): UseLtAuthReturn {
 
   const isAdmin = computed<boolean>(() => hasRole('admin'));
   const is2FAEnabled = computed<boolean>(() => user.value?.twoFactorEnabled ?? false);
+  // Admin impersonation (see impersonate / stopImpersonating). The cookie only
+  // marks it; the admin's cached user and JWT stay in this tab's memory.
+  const impersonationAdmin = useState<{ token: null | string; user: LtUser } | null>('lt-auth-impersonation-admin', () => null);
+  const isImpersonating = computed<boolean>(() => !!resolvedAuthState.value?.impersonation);
+  const impersonatedBy = computed<LtUser | null>(() => {
+    const adminId = resolvedAuthState.value?.impersonation?.adminId;
+    return adminId && impersonationAdmin.value?.user.id === adminId ? impersonationAdmin.value.user : null;
+  });
 
   // SSR-safe shared features state (useState is isolated per request on server, shared on client)
   const features = useState<Record<string, boolean | number | string[]>>('lt-auth-features', () => ({}));
@@ -169,8 +217,21 @@ export function useLtAuth(): UseLtAuthReturn {
    * Set user data after successful login/signup
    * Also manually writes to browser cookie for SSR compatibility
    */
-  function setUser(userData: LtUser | null, mode: LtAuthMode = 'cookie'): void {
-    const newState = { user: userData, authMode: mode };
+  function setUser(userData: LtUser | null, mode: LtAuthMode = 'cookie', reason: LtAuthChangeReason = 'manual'): void {
+    const previousState = import.meta.client ? (resolveLtAuthState(document.cookie, stateCookieName) ?? authState.value ?? null) : null;
+    // An impersonation survives re-validations of the impersonated user (also
+    // during SSR) — any other user (login, the restored admin, logout) ends it
+    const currentState = previousState ?? resolvedAuthState.value;
+    const impersonation = userData?.id && currentState?.user?.id === userData.id ? currentState.impersonation : undefined;
+    writeAuthState({ user: userData, authMode: mode, ...(impersonation ? { impersonation } : {}) }, previousState, reason);
+  }
+
+  /**
+   * Write the auth state (reactive ref + browser cookie), notify the other tabs
+   * and call the matching `lt:auth:*` hook
+   */
+  function writeAuthState(newState: LtAuthState, previousState: LtAuthState | null, reason: LtAuthChangeReason = 'manual'): void {
+    const userData = newState.user;
 
     // Cookie-backed state write rules:
     //  - On the CLIENT: always update (login/logout/2FA happen here).
@@ -183,6 +244,9 @@ export function useLtAuth(): UseLtAuthReturn {
     if (import.meta.client || userData) {
       authState.value = newState;
     }
+    if (!newState.impersonation) {
+      impersonationAdmin.value = null;
+    }
 
     // Manual browser cookie write for immediate same-tick consistency (client only).
     if (import.meta.client) {
@@ -202,6 +266,13 @@ export function useLtAuth(): UseLtAuthReturn {
         );
       }
       document.cookie = `${stateCookieName}=${encoded}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
+
+      // Tell the other open tabs (after the write, so they read the new cookie)
+      const syncType = getAuthSyncType(previousState, newState);
+      if (syncType) {
+        broadcastLtAuthSync(syncType);
+        callLtAuthChangeHook(syncType, previousState, newState, reason);
+      }
     }
   }
 
@@ -215,27 +286,43 @@ export function useLtAuth(): UseLtAuthReturn {
    * reading the ref immediately see the logged-out state, while the
    * underlying cookies are removed entirely.
    */
-  function clearUser(): void {
+  function clearUser(reason: LtAuthChangeReason = 'manual'): void {
     // CLIENT-only: mutating the `useCookie` refs (authState / jwtToken) on the
     // server would emit a `{ user: null }` Set-Cookie that actively manufactures
     // the stale "logged out" twin — the SSR-write class of bug. Logout is a
     // client action; SSR auth state is derived from the request Cookie header.
     if (import.meta.client) {
+      const previousUser = resolveLtAuthState(document.cookie, stateCookieName)?.user || authState.value?.user || null;
       authState.value = { user: null, authMode: 'cookie' as const };
       jwtToken.value = null;
+      impersonationAdmin.value = null;
 
       // Hard-delete the cookies in the browser (no payload, max-age=0).
       // Centralised in `clearLtAuthCookies` so the helper-based call sites
       // (e.g. session-expired interceptors) and the composable agree on the
       // exact attributes the browser needs to actually evict the cookies.
       clearLtAuthCookies();
+
+      // Sign the other open tabs out too instead of waiting for their next 401
+      if (previousUser) {
+        broadcastLtAuthSync('logout');
+        callLtAuthHook('lt:auth:logout', { reason, user: previousUser });
+      }
     }
   }
 
+  /**
+   * Store a JWT and (re-)arm its silent refresh (see `scheduleLtJwtRefresh`)
+   */
+  function storeJwtToken(token: string): void {
+    jwtToken.value = token;
+    scheduleLtJwtRefresh(token);
+  }
+
   /**
    * Switch to JWT mode and fetch a token
    */
-  async function switchToJwtMode(): Promise<boolean> {
+  async function switchToJwtMode(reason: LtAuthChangeReason = 'manual'): Promise<boolean> {
     try {
       const apiBase = getLtApiBase();
       const response = await fetch(`${apiBase}/token`, {
@@ -246,10 +333,16 @@ export function useLtAuth(): UseLtAuthReturn {
       if (response.ok) {
         const data = await response.json();
         if (data.token) {
-          jwtToken.value = data.token;
+          storeJwtToken(data.token);
+          const previousMode = authState.value?.authMode;
           if (authState.value) {
             authState.value = { ...authState.value, authMode: 'jwt' };
           }
+          // Pass the new state: the `useCookie` write above lands asynchronously
+          broadcastLtAuthSync('auth-mode-switch', authState.value);
+          if (previousMode && previousMode !== 'jwt') {
+            callLtAuthHook('lt:auth:mode-switched', { from: previousMode, reason, to: 'jwt' });
+          }
           return true;
         }
       }
@@ -261,10 +354,17 @@ export function useLtAuth(): UseLtAuthReturn {
 
   /**
    * Refresh JWT token before it expires
+   *
+   * Shares the request with the silent refresh scheduler and any other
+   * concurrent caller (see `refreshLtJwtToken`).
    */
   async function refreshJwtToken(): Promise<boolean> {
     if (!isJwtMode.value || !jwtToken.value) return false;
-    return switchToJwtMode();
+    const refreshed = await refreshLtJwtToken();
+    if (refreshed) {
+      jwtToken.value = getLtJwtToken();
+    }
+    return refreshed;
   }
 
   /**
@@ -287,6 +387,8 @@ export function useLtAuth(): UseLtAuthReturn {
    *
    * In JWT mode, cookies are only sent for Passkey/2FA operations
    * that require the session cookie for challenge handling.
+   *
+   * With `auth.csrf.enabled`, mutating requests carry the CSRF token.
    */
   async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
     const headers = new Headers(options.headers);
@@ -296,20 +398,32 @@ export function useLtAuth(): UseLtAuthReturn {
       headers.set('Authorization', `Bearer ${jwtToken.value}`);
     }
 
+    // Scope the request to the active tenant; a header set by the caller wins
+    for (const [name, value] of Object.entries(getLtTenantHeaders())) {
+      if (!headers.has(name)) {
+        headers.set(name, value);
+      }
+    }
+
     // Determine credentials mode:
     // - Cookie mode: always include credentials
-    // - JWT mode: only include for paths that require cookies (passkey, 2FA)
-    const needsCookies = !isJwtMode.value || urlRequiresCookies(url);
+    // - JWT mode: only include for paths that require cookies (passkey, 2FA),
+    //   or while no token is stored (e.g. `memory` token storage after a reload)
+    const needsCookies = !isJwtMode.value || !jwtToken.value || urlRequiresCookies(url);
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-      credentials: needsCookies ? 'include' : 'omit',
-    });
+    const response = await trackLtConnectivity(
+      withLtCsrf(options.method, headers, () =>
+        fetch(url, {
+          ...options,
+          headers,
+          credentials: needsCookies ? 'include' : 'omit',
+        }),
+      ),
+    );
 
-    // If we get 401 in cookie mode, try switching to JWT
-    if (response.status === 401 && !isJwtMode.value && isAuthenticated.value) {
-      const switched = await switchToJwtMode();
+    // If we get 401 in cookie mode (or without a stored JWT), try switching to JWT
+    if (response.status === 401 && (!isJwtMode.value || !jwtToken.value) && isAuthenticated.value) {
+      const switched = await switchToJwtMode('unauthorized');
 
       if (switched) {
         // Retry the request with JWT
@@ -366,8 +480,7 @@ export function useLtAuth(): UseLtAuthReturn {
    * never masked by a stale cached value. Reads the duplicate-tolerant
    * `resolvedAuthState` (consistent with `user`/`isAdmin`), never a raw cookie twin.
    */
-  function mergeSessionUser(sessionUser: LtUser): LtUser {
-    const cached = resolvedAuthState.value?.user;
+  function mergeSessionUser(sessionUser: LtUser, cached: LtUser | null | undefined = resolvedAuthState.value?.user): LtUser {
     if (!cached?.id || !sessionUser?.id || cached.id !== sessionUser.id) {
       return sessionUser;
     }
@@ -392,8 +505,15 @@ export function useLtAuth(): UseLtAuthReturn {
    * cannot fail-close it. Intentional and self-healing (the next authenticated
    * request 401s a dead session), but it is exactly why `isAdmin` must remain a UI
    * gate: authorization is the backend's job, not this cache's.
+   *
+   * While offline (see `useLtConnectivity`) the cached user is kept as is and the
+   * backend is not asked; the `connectivity` plugin revalidates once the
+   * connection returns. Connectivity loss never signs the user out.
    */
   async function validateSession(): Promise<boolean> {
+    if (!isLtOnline()) {
+      return !!authState.value?.user;
+    }
     try {
       // Try to get session from Better Auth
       const session = authClient.useSession();
@@ -417,9 +537,9 @@ export function useLtAuth(): UseLtAuthReturn {
       // If session has user data, update our state. Merge onto the cached user
       // so a re-validation never drops nest-server-only fields (see mergeSessionUser).
       if (session.value.data?.user) {
-        setUser(mergeSessionUser(session.value.data.user as LtUser), 'cookie');
+        setUser(mergeSessionUser(session.value.data.user as LtUser), 'cookie', 'session');
         // Pre-fetch JWT for fallback
-        switchToJwtMode().catch(() => {});
+        switchToJwtMode('session').catch(() => {});
         return true;
       }
 
@@ -428,7 +548,7 @@ export function useLtAuth(): UseLtAuthReturn {
       // The auth-state cookie is set by our application after successful login/2FA
       if (authState.value?.user) {
         // Pre-fetch JWT for fallback
-        switchToJwtMode().catch(() => {});
+        switchToJwtMode('session').catch(() => {});
         return true;
       }
 
@@ -444,21 +564,93 @@ export function useLtAuth(): UseLtAuthReturn {
    * Returns feature flags like signUpChecks, emailVerification, passkey, etc.
    * Results are cached globally and shared across all useLtAuth() instances.
    * Automatically called once on first useLtAuth() usage (client-side only).
+   * While offline, the request is deferred until the connection returns.
    */
   async function fetchFeatures(): Promise<Record<string, boolean | number | string[]>> {
+    if (!isLtOnline()) {
+      whenLtOnline(fetchFeatures);
+      return features.value;
+    }
     try {
       const apiBase = getLtApiBase();
-      const result = await $fetch<Record<string, boolean | number | string[]>>(`${apiBase}/features`);
+      const result = await trackLtConnectivity($fetch<Record<string, boolean | number | string[]>>(`${apiBase}/features`));
       if (result) {
         features.value = result;
         featuresFetched.value = true;
       }
       return features.value;
-    } catch {
+    } catch (error) {
+      if (isLtNetworkError(error)) {
+        whenLtOnline(fetchFeatures);
+      }
       return features.value;
     }
   }
 
+  /**
+   * Store the session of a sign-in response (`signIn.email`, `signUp.email`,
+   * 2FA verification, passwordless sign-ins): the user, plus the token in JWT
+   * mode. Returns the stored user (`null` when the response carries none).
+   */
+  function applyAuthResult(result: unknown, reason: LtAuthChangeReason = 'sign-in'): LtUser | null {
+    // Extract token from response (JWT mode: cookies: false)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const resultAny = result as any;
+    const token = resultAny?.token || resultAny?.data?.token;
+    const userData = resultAny?.user || resultAny?.data?.user;
+
+    if (token) {
+      // JWT mode: Token is in the response
+      storeJwtToken(token);
+      if (userData) {
+        setUser(userData as LtUser, 'jwt', reason);
+      }
+    } else if (userData) {
+      // Cookie mode: No token in response, use cookies
+      setUser(userData as LtUser, 'cookie', reason);
+      // Try to get JWT token for fallback
+      switchToJwtMode(reason).catch(() => {});
+    }
+    return (userData as LtUser | undefined) ?? null;
+  }
+
+  /**
+   * Better-Auth client namespace of an optional plugin; throws a hint when it is disabled
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function requirePlugin(value: any, option: string): any {
+    if (!value) {
+      throw new Error(`[LtAuth] The Better-Auth plugin is disabled (ltExtensions.auth.${option})`);
+    }
+    return value;
+  }
+
+  /**
+   * Configured OAuth providers (`ltExtensions.auth.socialProviders`)
+   */
+  const socialProviders: string[] = useRuntimeConfig().public?.ltExtensions?.auth?.socialProviders || [];
+
+  /**
+   * Absolute URL of the sign-in callback page, carrying the post-login target
+   */
+  function buildCallbackUrl(redirect?: string): string {
+    const callbackPath: string = useRuntimeConfig().public?.ltExtensions?.auth?.callbackPath || '/auth/callback';
+    const target = ltSafeRedirectPath(redirect, '');
+    const path = target ? `${callbackPath}?redirect=${encodeURIComponent(target)}` : callbackPath;
+    return import.meta.client ? `${window.location.origin}${path}` : path;
+  }
+
+  /**
+   * Unwrap a Better-Auth `{ data, error }` result; throws the backend message on failure
+   */
+  async function unwrapResult<T>(request: Promise<unknown>): Promise<T> {
+    const result = (await request) as { data?: T | null; error?: { message?: string; status?: number } | null } | null;
+    if (result?.error) {
+      throw new Error(result.error.message || `HTTP ${result.error.status ?? 0}`);
+    }
+    return result?.data as T;
+  }
+
   /**
    * Sign in with email and password
    */
@@ -469,33 +661,157 @@ export function useLtAuth(): UseLtAuthReturn {
       isLoading.value = true;
       try {
         const result = await authClient.signIn.email(params, options);
-
-        // Extract token from response (JWT mode: cookies: false)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const resultAny = result as any;
-        const token = resultAny?.token || resultAny?.data?.token;
-        const userData = resultAny?.user || resultAny?.data?.user;
-
-        if (token) {
-          // JWT mode: Token is in the response
-          jwtToken.value = token;
-          if (userData) {
-            setUser(userData as LtUser, 'jwt');
-          }
-        } else if (userData) {
-          // Cookie mode: No token in response, use cookies
-          setUser(userData as LtUser, 'cookie');
-          // Try to get JWT token for fallback
-          switchToJwtMode().catch(() => {});
-        }
-
+        applyAuthResult(result);
+        return result;
+      } finally {
+        isLoading.value = false;
+      }
+    },
+    /**
+     * Redirect to an OAuth provider; the provider returns to `auth.callbackPath`,
+     * where {@link handleSignInCallback} completes the sign-in
+     */
+    social: async (provider: string, options: LtSocialSignInOptions = {}) => {
+      if (socialProviders.length && !socialProviders.includes(provider)) {
+        throw new Error(`[LtAuth] Social provider "${provider}" is not configured (ltExtensions.auth.socialProviders)`);
+      }
+      isLoading.value = true;
+      try {
+        const callbackURL = buildCallbackUrl(options.redirect);
+        // Better-Auth appends `?error=<code>` to the error callback
+        const result = await authClient.signIn.social({ callbackURL, errorCallbackURL: callbackURL, provider, scopes: options.scopes });
+        // ID-token sign-ins answer with the session instead of a redirect
+        applyAuthResult(result);
         return result;
       } finally {
         isLoading.value = false;
       }
     },
+    /**
+     * Sign in with a one-time code sent by {@link sendEmailOtp}
+     */
+    emailOtp: async (params: { email: string; otp: string }) => {
+      isLoading.value = true;
+      try {
+        const result = await requirePlugin(authClient.signIn.emailOtp, 'enableEmailOtp')(params);
+        applyAuthResult(result);
+        return result;
+      } finally {
+        isLoading.value = false;
+      }
+    },
+    /**
+     * Email a sign-in link; it opens `auth.callbackPath`, where
+     * {@link handleSignInCallback} completes the sign-in
+     */
+    magicLink: async (params: { email: string; name?: string; redirect?: string }) => {
+      isLoading.value = true;
+      try {
+        const callbackURL = buildCallbackUrl(params.redirect);
+        return await requirePlugin(
+          authClient.signIn.magicLink,
+          'enableMagicLink',
+        )({
+          callbackURL,
+          email: params.email,
+          errorCallbackURL: callbackURL,
+          name: params.name,
+          newUserCallbackURL: callbackURL,
+        });
+      } finally {
+        isLoading.value = false;
+      }
+    },
   };
 
+  /**
+   * Send a one-time code by email (email OTP plugin)
+   */
+  async function sendEmailOtp(email: string, type: LtEmailOtpType = 'sign-in'): Promise<boolean> {
+    await unwrapResult(requirePlugin(authClient.emailOtp, 'enableEmailOtp').sendVerificationOtp({ email, type }));
+    return true;
+  }
+
+  /**
+   * Verify the email address with a one-time code; signs in when the backend
+   * answers with a session (`autoSignInAfterVerification`)
+   */
+  async function verifyEmailOtp(params: { email: string; otp: string }): Promise<boolean> {
+    const result = await requirePlugin(authClient.emailOtp, 'enableEmailOtp').verifyEmail(params);
+    if (result?.error) {
+      return false;
+    }
+    const verifiedUser = applyAuthResult(result);
+    const cachedUser = resolvedAuthState.value?.user;
+    if (!verifiedUser && cachedUser?.email === params.email && cachedUser.emailVerified !== true) {
+      setUser({ ...cachedUser, emailVerified: true }, resolvedAuthState.value?.authMode);
+    }
+    return true;
+  }
+
+  /**
+   * Complete a redirect-based sign-in on the callback page: read the session the
+   * backend set as cookie, store the user and switch to JWT mode where possible
+   */
+  async function handleSignInCallback(query?: Record<string, unknown>): Promise<LtSignInCallbackResult> {
+    const params = query ?? Object.fromEntries(new URLSearchParams(import.meta.client ? window.location.search : ''));
+    const redirect = ltSafeRedirectPath(params.redirect, useRuntimeConfig().public?.ltExtensions?.auth?.homePath || '/');
+    if (typeof params.error === 'string' && params.error) {
+      return { error: params.error, redirect, success: false, user: null };
+    }
+
+    try {
+      // Magic link pointing at this page directly: verify the token first
+      if (typeof params.token === 'string' && params.token) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const verified = (await requirePlugin(authClient.magicLink, 'enableMagicLink').verify({ query: { token: params.token } })) as any;
+        if (verified?.error) {
+          return { error: verified.error.code || verified.error.message || 'INVALID_TOKEN', redirect, success: false, user: null };
+        }
+        const verifiedUser = applyAuthResult(verified);
+        if (verifiedUser) {
+          return { error: null, redirect, success: true, user: verifiedUser };
+        }
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const session = (await authClient.getSession()) as any;
+      const sessionUser = session?.data?.user as LtUser | undefined;
+      if (!sessionUser) {
+        return { error: session?.error?.message || 'session_not_found', redirect, success: false, user: null };
+      }
+      const merged = mergeSessionUser(sessionUser);
+      setUser(merged, 'cookie', 'sign-in');
+      await switchToJwtMode('sign-in');
+      return { error: null, redirect, success: true, user: merged };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'session_not_found', redirect, success: false, user: null };
+    }
+  }
+
+  /**
+   * Link an OAuth account to the signed-in user (redirects to the provider)
+   */
+  async function linkSocial(provider: string, options: { callbackURL?: string; scopes?: string[] } = {}): Promise<void> {
+    const callbackURL = options.callbackURL || (import.meta.client ? window.location.href : '/');
+    await unwrapResult(authClient.linkSocial({ callbackURL, provider, scopes: options.scopes }));
+  }
+
+  /**
+   * Accounts (credential + OAuth) linked to the signed-in user
+   */
+  async function listAccounts(): Promise<LtLinkedAccount[]> {
+    return (await unwrapResult<LtLinkedAccount[] | null>(authClient.listAccounts())) ?? [];
+  }
+
+  /**
+   * Remove a linked account; the backend refuses to unlink the last one
+   */
+  async function unlinkAccount(providerId: string, accountId?: string): Promise<boolean> {
+    const data = await unwrapResult<{ status?: boolean } | null>(authClient.unlinkAccount({ accountId, providerId }));
+    return data?.status !== false;
+  }
+
   /**
    * Sign up with email and password
    */
@@ -506,25 +822,7 @@ export function useLtAuth(): UseLtAuthReturn {
       isLoading.value = true;
       try {
         const result = await authClient.signUp.email(params, options);
-
-        // Extract token from response (JWT mode: cookies: false)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const resultAny = result as any;
-        const token = resultAny?.token || resultAny?.data?.token;
-        const userData = resultAny?.user || resultAny?.data?.user;
-
-        if (token) {
-          // JWT mode: Token is in the response
-          jwtToken.value = token;
-          if (userData) {
-            setUser(userData as LtUser, 'jwt');
-          }
-        } else if (userData) {
-          // Cookie mode: No token in response, use cookies
-          setUser(userData as LtUser, 'cookie');
-          switchToJwtMode().catch(() => {});
-        }
-
+        applyAuthResult(result, 'sign-up');
         return result;
       } finally {
         isLoading.value = false;
@@ -533,15 +831,35 @@ export function useLtAuth(): UseLtAuthReturn {
   };
 
   /**
-   * Sign out
+   * Two-factor actions; completing the sign-in challenge stores the session
+   * like `signIn.email`. Every action throws a hint while `enableTwoFactor` is off.
+   */
+  const twoFactor = {
+    ...authClient.twoFactor,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    verifyBackupCode: async (params: { code: string; disableSession?: boolean; trustDevice?: boolean }, options?: any) => {
+      const result = await requirePlugin(authClient.twoFactor, 'enableTwoFactor').verifyBackupCode(params, options);
+      applyAuthResult(result);
+      return result;
+    },
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    verifyTotp: async (params: { code: string; trustDevice?: boolean }, options?: any) => {
+      const result = await requirePlugin(authClient.twoFactor, 'enableTwoFactor').verifyTotp(params, options);
+      applyAuthResult(result);
+      return result;
+    },
+  };
+
+  /**
+   * Sign out; `reason` is passed on to `lt:auth:logout` (e.g. 'idle' from the inactivity timeout)
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const signOut = async (options?: any) => {
+  const signOut = async (options?: any, reason: LtAuthChangeReason = 'sign-out') => {
     isLoading.value = true;
     try {
       const result = await authClient.signOut(options);
       // Clear user data on logout
-      clearUser();
+      clearUser(reason);
       return result;
     } finally {
       isLoading.value = false;
@@ -549,19 +867,114 @@ export function useLtAuth(): UseLtAuthReturn {
   };
 
   /**
-   * Authenticate with a passkey (WebAuthn)
+   * Act as another user (Better-Auth admin plugin, `POST /admin/impersonate-user`)
    *
-   * This function handles the complete WebAuthn authentication flow:
-   * 1. Fetches authentication options from the server
-   * 2. Prompts the user to select a passkey via the browser's WebAuthn API
-   * 3. Sends the signed credential to the server for verification
-   * 4. Stores user data on successful authentication
+   * The server swaps the session cookie for one of `userId` and keeps the admin
+   * session aside. `lt-auth-state` only marks the impersonation (admin id and
+   * mode); the admin's cached user — and in JWT mode their token — stays in
+   * memory so {@link stopImpersonating} can restore it. Nested impersonation is
+   * not supported.
    *
-   * @returns Result with success status, user data, or error message
+   * @returns `true` when the app now acts as `userId`
    */
-  async function authenticateWithPasskey(): Promise<LtPasskeyAuthResult> {
+  async function impersonate(userId: string): Promise<boolean> {
+    const adminUser = user.value;
+    if (!adminUser || isImpersonating.value) {
+      return false;
+    }
+
     isLoading.value = true;
+    try {
+      const adminAuthMode = authMode.value;
+      const adminToken = adminAuthMode === 'jwt' ? jwtToken.value : null;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = (await (authClient.admin as any)?.impersonateUser?.({ userId })) as any;
+      const data = result?.data ?? result;
+      if (!data?.user || result?.error) {
+        return false;
+      }
+
+      // The admin's JWT must never authorize a request of the impersonated user
+      jwtToken.value = null;
+      scheduleLtJwtRefresh(null);
+
+      writeAuthState({ authMode: 'cookie', impersonation: { adminAuthMode, adminId: adminUser.id }, user: data.user as LtUser }, resolvedAuthState.value, 'impersonation');
+      impersonationAdmin.value = { token: adminToken, user: adminUser };
+
+      // Fetch the JWT of the new session; without usable cookies (JWT mode) fall
+      // back to the session token from the response, like the passkey login
+      if (!(await switchToJwtMode('impersonation')) && data.session?.token) {
+        storeJwtToken(data.session.token);
+        writeAuthState({ ...resolvedAuthState.value!, authMode: 'jwt' }, resolvedAuthState.value, 'impersonation');
+      }
+      return true;
+    } catch {
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
 
+  /**
+   * End an impersonation and restore the admin's own session and cached user
+   *
+   * Cookie mode: the server swaps the admin session back in
+   * (`POST /admin/stop-impersonating`). JWT mode: the admin's token kept in
+   * memory is restored. If neither works (e.g. the impersonation session
+   * expired, or a reload dropped the token), the user is cleared and has to
+   * sign in again.
+   *
+   * @returns `true` when the admin session is active again
+   */
+  async function stopImpersonating(): Promise<boolean> {
+    if (!resolvedAuthState.value?.impersonation) {
+      return false;
+    }
+    const admin = impersonationAdmin.value;
+
+    isLoading.value = true;
+    try {
+      let restoredUser: LtUser | null = null;
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const result = (await (authClient.admin as any)?.stopImpersonating?.()) as any;
+        const data = result?.data ?? result;
+        restoredUser = !result?.error && data?.user ? (data.user as LtUser) : null;
+      } catch {
+        // Handled below: the stored admin token may still work
+      }
+
+      jwtToken.value = null;
+      scheduleLtJwtRefresh(null);
+
+      if (restoredUser) {
+        // Re-derive authorization keys from the server's view of the admin
+        writeAuthState({ authMode: 'cookie', user: mergeSessionUser(restoredUser, admin?.user ?? null) }, resolvedAuthState.value, 'impersonation');
+        switchToJwtMode('impersonation').catch(() => {});
+        return true;
+      }
+
+      if (admin?.token) {
+        storeJwtToken(admin.token);
+        writeAuthState({ authMode: 'jwt', user: admin.user }, resolvedAuthState.value, 'impersonation');
+        return true;
+      }
+
+      clearUser('impersonation');
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Run the WebAuthn ceremony and verify the signed credential with the server,
+   * without storing anything — the callers decide what to apply
+   *
+   * @returns The response body of `verify-authentication`, or an error message
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function verifyPasskey(): Promise<{ body: any } | { error: string }> {
     try {
       const apiBase = getLtApiBase();
 
@@ -571,10 +984,7 @@ export function useLtAuth(): UseLtAuthReturn {
       });
 
       if (!optionsResponse.ok) {
-        return {
-          success: false,
-          error: t('lt.auth.passkeyError', 'Konnte Passkey-Optionen nicht laden'),
-        };
+        return { error: t('lt.auth.passkeyError', 'Konnte Passkey-Optionen nicht laden') };
       }
 
       const options = await optionsResponse.json();
@@ -594,7 +1004,7 @@ export function useLtAuth(): UseLtAuthReturn {
       })) as PublicKeyCredential | null;
 
       if (!credential) {
-        return { success: false, error: t('lt.auth.noPasskeySelected', 'Kein Passkey ausgewählt') };
+        return { error: t('lt.auth.noPasskeySelected', 'Kein Passkey ausgewählt') };
       }
 
       // Step 4: Convert credential response to base64url format
@@ -621,23 +1031,47 @@ export function useLtAuth(): UseLtAuthReturn {
         body: JSON.stringify({ challengeId: options.challengeId, response: credentialBody }),
       });
 
-      const result = await authResponse.json();
+      const body = await authResponse.json();
+      return authResponse.ok ? { body } : { error: body.message || t('lt.auth.passkeyFailed', 'Passkey-Anmeldung fehlgeschlagen') };
+    } catch (err: unknown) {
+      // Handle WebAuthn-specific errors
+      if (err instanceof Error && err.name === 'NotAllowedError') {
+        return { error: t('lt.auth.passkeyAborted', 'Passkey-Authentifizierung wurde abgebrochen') };
+      }
+      return { error: err instanceof Error ? err.message : t('lt.auth.passkeyFailed', 'Passkey-Anmeldung fehlgeschlagen') };
+    }
+  }
 
-      if (!authResponse.ok) {
-        return {
-          success: false,
-          error: result.message || t('lt.auth.passkeyFailed', 'Passkey-Anmeldung fehlgeschlagen'),
-        };
+  /**
+   * Authenticate with a passkey (WebAuthn)
+   *
+   * This function handles the complete WebAuthn authentication flow:
+   * 1. Fetches authentication options from the server
+   * 2. Prompts the user to select a passkey via the browser's WebAuthn API
+   * 3. Sends the signed credential to the server for verification
+   * 4. Stores user data on successful authentication
+   *
+   * @returns Result with success status, user data, or error message
+   */
+  async function authenticateWithPasskey(): Promise<LtPasskeyAuthResult> {
+    isLoading.value = true;
+
+    try {
+      const apiBase = getLtApiBase();
+      const verified = await verifyPasskey();
+      if ('error' in verified) {
+        return { success: false, error: verified.error };
       }
+      const result = verified.body;
 
       // Store user data after successful passkey login
       if (result.user) {
-        setUser(result.user as LtUser, 'cookie');
-        switchToJwtMode().catch(() => {});
+        setUser(result.user as LtUser, 'cookie', 'sign-in');
+        switchToJwtMode('sign-in').catch(() => {});
       } else if (result.session?.token) {
         // Passkey auth returned session without user data.
         // Store the session token and fetch user via get-session.
-        jwtToken.value = result.session.token;
+        storeJwtToken(result.session.token);
         if (authState.value) {
           authState.value = { ...authState.value, authMode: 'jwt' };
         }
@@ -652,8 +1086,8 @@ export function useLtAuth(): UseLtAuthReturn {
               // never drops nest-server-only fields either (see mergeSessionUser).
               const mergedUser = mergeSessionUser(sessionData.user as LtUser);
               result.user = mergedUser;
-              setUser(mergedUser, 'cookie');
-              switchToJwtMode().catch(() => {});
+              setUser(mergedUser, 'cookie', 'sign-in');
+              switchToJwtMode('sign-in').catch(() => {});
             }
           }
         } catch {
@@ -663,13 +1097,6 @@ export function useLtAuth(): UseLtAuthReturn {
 
       return { success: true, user: result.user as LtUser, session: result.session };
     } catch (err: unknown) {
-      // Handle WebAuthn-specific errors
-      if (err instanceof Error && err.name === 'NotAllowedError') {
-        return {
-          success: false,
-          error: t('lt.auth.passkeyAborted', 'Passkey-Authentifizierung wurde abgebrochen'),
-        };
-      }
       return {
         success: false,
         error: err instanceof Error ? err.message : t('lt.auth.passkeyFailed', 'Passkey-Anmeldung fehlgeschlagen'),
@@ -817,6 +1244,147 @@ export function useLtAuth(): UseLtAuthReturn {
     }
   }
 
+  /**
+   * Last (re-)authentication confirmed in this tab (ms), see {@link requireRecentAuth}
+   */
+  const reauthenticatedAt = useState<null | number>('lt-auth-reauthenticated-at', () => null);
+
+  /**
+   * Creation time of the current session (ms) — a sign-in always creates a new
+   * one. `null` when get-session fails or sends no date.
+   */
+  async function getSessionCreatedAt(): Promise<null | number> {
+    try {
+      const response = await fetchWithAuth(`${getLtApiBase()}/get-session`, { method: 'GET' });
+      const data = response.ok ? await response.json().catch(() => null) : null;
+      const createdAt = data?.session?.createdAt ? new Date(data.session.createdAt).getTime() : NaN;
+      return Number.isFinite(createdAt) ? createdAt : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Confirm the identity of `current` with the entered credentials
+   *
+   * @returns 'ok', 'two-factor' (password accepted, TOTP still required) or the translated error
+   */
+  async function verifyReauth(credentials: LtReauthCredentials, current: LtUser): Promise<string> {
+    const failed = t('lt.auth.reauthFailed', 'Bestätigung fehlgeschlagen');
+    const wrongUser = t('lt.auth.reauthWrongUser', 'Bitte mit dem angemeldeten Konto bestätigen');
+
+    if (credentials.method === 'passkey') {
+      // Compare the account before anything is stored: a passkey of another
+      // account must neither replace the session nor be announced as a sign-in.
+      // A response without user cannot be compared and is not accepted.
+      const verified = await verifyPasskey();
+      if ('error' in verified) {
+        return verified.error;
+      }
+      if (!verified.body?.user?.id) {
+        return failed;
+      }
+      if (verified.body.user.id !== current.id) {
+        return wrongUser;
+      }
+      applyAuthResult({ user: verified.body.user });
+      return 'ok';
+    }
+
+    if (credentials.method === 'totp') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = (await twoFactor.verifyTotp({ code: credentials.code })) as any;
+      return result?.error ? result.error.message || failed : 'ok';
+    }
+
+    // Not through the auth client: its 2FA plugin would navigate to the 2FA page.
+    // Credentials are always included, so the 2FA cookie of a second step is kept.
+    const headers = new Headers({ 'Content-Type': 'application/json', ...getLtTenantHeaders() });
+    const requestBody = JSON.stringify({ email: current.email, password: await ltSha256(credentials.password) });
+    const response = await trackLtConnectivity(
+      withLtCsrf('POST', headers, () =>
+        fetch(`${getLtApiBase()}/sign-in/email`, {
+          body: requestBody,
+          credentials: 'include',
+          headers,
+          ltSkipAuthInterceptor: true,
+          method: 'POST',
+        }),
+      ),
+    );
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      return body?.message || failed;
+    }
+    if (body?.twoFactorRedirect) {
+      return 'two-factor';
+    }
+    if (body?.user?.id && body.user.id !== current.id) {
+      return wrongUser;
+    }
+    applyAuthResult(body);
+    return 'ok';
+  }
+
+  /**
+   * Require an authentication within the last `maxAgeSeconds` before a
+   * sensitive action; asks the registered prompt when it is older
+   */
+  async function requireRecentAuth(maxAgeSeconds: number = 300, options: LtRequireRecentAuthOptions = {}): Promise<boolean> {
+    const current = user.value;
+    if (!current || import.meta.server) {
+      return false;
+    }
+
+    const isRecent = (time: null | number) => time !== null && Date.now() - time <= maxAgeSeconds * 1000;
+    if (isRecent(reauthenticatedAt.value) || isRecent(await getSessionCreatedAt())) {
+      return true;
+    }
+
+    const prompt = getLtReauthPrompt();
+    if (!prompt) {
+      console.warn('[LtAuth] requireRecentAuth() needs a prompt — register one with registerLtReauthPrompt()');
+      return false;
+    }
+
+    const authConfig = useRuntimeConfig().public?.ltExtensions?.auth;
+    let methods: LtReauthMethod[] = ['password'];
+    if (authConfig?.enablePasskey && typeof window !== 'undefined' && 'PublicKeyCredential' in window) {
+      methods.push('passkey');
+    }
+    if (authConfig?.enableTwoFactor !== false && current.twoFactorEnabled) {
+      methods.push('totp');
+    }
+
+    let error: null | string = null;
+    let attempts = options.maxAttempts ?? 3;
+    while (attempts > 0) {
+      const credentials = await prompt({ error, methods, reason: options.reason, user: current });
+      if (!credentials || !methods.includes(credentials.method)) {
+        return false;
+      }
+      let result: string;
+      try {
+        result = await verifyReauth(credentials, current);
+      } catch (err) {
+        result = err instanceof Error ? err.message : t('lt.auth.reauthFailed', 'Bestätigung fehlgeschlagen');
+      }
+      if (result === 'ok') {
+        reauthenticatedAt.value = Date.now();
+        return true;
+      }
+      if (result === 'two-factor') {
+        // Password accepted; the new session waits for the TOTP code
+        methods = ['totp'];
+        error = null;
+        continue;
+      }
+      error = result;
+      attempts--;
+    }
+    return false;
+  }
+
   // Auto-fetch features once on first client-side useLtAuth() call
   if (import.meta.client && !featuresFetched.value) {
     featuresFetched.value = true; // Set immediately to prevent duplicate fetches
@@ -834,8 +1402,10 @@ export function useLtAuth(): UseLtAuthReturn {
     // User properties
     hasAnyRole,
     hasRole,
+    impersonatedBy,
     is2FAEnabled,
     isAdmin,
+    isImpersonating,
 
     // Feature detection
     features: computed(() => features.value),
@@ -845,21 +1415,33 @@ export function useLtAuth(): UseLtAuthReturn {
     authenticateWithPasskey,
     changePassword: authClient.changePassword,
     clearUser,
+    handleSignInCallback,
+    impersonate,
+    linkSocial,
+    listAccounts,
     registerPasskey,
+    requireRecentAuth,
+    sendEmailOtp,
     setUser,
     signIn,
     signOut,
     signUp,
+    socialProviders,
+    stopImpersonating,
+    unlinkAccount,
     validateSession,
+    verifyEmailOtp,
 
     // JWT management
     fetchWithAuth,
     jwtToken,
     refreshJwtToken,
     switchToJwtMode,
+    tokenClaims,
+    tokenExpiresAt,
 
     // Better Auth client passthrough
     passkey: authClient.passkey,
-    twoFactor: authClient.twoFactor,
+    twoFactor,
   };
 }
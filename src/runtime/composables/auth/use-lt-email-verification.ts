@@ -0,0 +1,244 @@
+/**
+ * Email verification flow: handle the link callback, resend the verification
+ * email with a cooldown, and re-check the session until `emailVerified` flips.
+ *
+ * The resend cooldown honours the server: a `429` with `Retry-After` /
+ * `X-Retry-After` (Better-Auth rate limiter) replaces the configured
+ * `auth.emailVerification.resendCooldownSeconds`. The cooldown end is shared
+ * across components (useState) so a second "resend" button cannot bypass it.
+ *
+ * Requests go through `useLtAuth().fetchWithAuth` (Cookie/JWT dual-mode).
+ * Messages use the `lt.auth.*` translations.
+ */
+
+import type { LtUser, UseLtEmailVerificationReturn } from '../../types';
+
+import { computed, getCurrentScope, onScopeDispose, readonly, ref, useRuntimeConfig, useState } from '#imports';
+import { getLtApiBase } from '../../lib/auth-state';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Seconds from a `Retry-After` / `X-Retry-After` header (delta seconds or HTTP date)
+ */
+function parseRetryAfter(response: Response): null | number {
+  const value = response.headers?.get('Retry-After') ?? response.headers?.get('X-Retry-After');
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Composable for the email verification flow
+ *
+ * @example
+ * ```typescript
+ * // "Please verify" page (auth.emailVerification.verifyPath)
+ * const { canResend, cooldownSeconds, handleCallback, isVerified, resend, startPolling } = useLtEmailVerification();
+ *
+ * onMounted(async () => {
+ *   await handleCallback(); // ?token=… from the email link
+ *   startPolling(); // verified in another tab / on the phone
+ * });
+ * watch(isVerified, (verified) => verified && navigateTo(ltSafeRedirectPath(route.query.redirect, '/')));
+ * ```
+ */
+export function useLtEmailVerification(): UseLtEmailVerificationReturn {
+  const { authMode, fetchWithAuth, setUser, user } = useLtAuth();
+  const t = useLtTranslation();
+  const config = useRuntimeConfig().public?.ltExtensions?.auth?.emailVerification;
+  const verifyPath: string = config?.verifyPath || '/auth/verify-email';
+  const resendCooldownSeconds: number = config?.resendCooldownSeconds ?? 60;
+
+  const resendUntil = useState<number>('lt-email-verification-resend-until', () => 0);
+  const now = ref(Date.now());
+  const loading = ref(false);
+  const error = ref<null | string>(null);
+  const isPolling = ref(false);
+
+  let cooldownTimer: null | ReturnType<typeof setInterval> = null;
+  let pollTimer: null | ReturnType<typeof setInterval> = null;
+
+  const isVerified = computed(() => user.value?.emailVerified === true);
+  const email = computed(() => user.value?.email ?? null);
+  const cooldownSeconds = computed(() => Math.max(0, Math.ceil((resendUntil.value - now.value) / 1000)));
+  const canResend = computed(() => cooldownSeconds.value === 0 && !loading.value);
+
+  function stopCooldownTimer(): void {
+    if (cooldownTimer) {
+      clearInterval(cooldownTimer);
+      cooldownTimer = null;
+    }
+  }
+
+  /**
+   * Tick `now` once per second while a cooldown runs
+   */
+  function startCooldownTimer(): void {
+    now.value = Date.now();
+    if (!import.meta.client || cooldownTimer || cooldownSeconds.value === 0) {
+      return;
+    }
+    cooldownTimer = setInterval(() => {
+      now.value = Date.now();
+      if (cooldownSeconds.value === 0) {
+        stopCooldownTimer();
+      }
+    }, 1000);
+  }
+
+  function setVerified(verified: boolean): void {
+    if (user.value && user.value.emailVerified !== verified) {
+      setUser({ ...(user.value as LtUser), emailVerified: verified }, authMode.value);
+    }
+  }
+
+  async function verifyToken(token: string): Promise<boolean> {
+    loading.value = true;
+    error.value = null;
+    const invalidMessage = t('lt.auth.emailVerificationInvalid', 'Der Bestätigungslink ist ungültig oder abgelaufen');
+    try {
+      const response = await fetchWithAuth(`${getLtApiBase()}/verify-email?token=${encodeURIComponent(token)}`, { method: 'GET' });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        error.value = body?.message || invalidMessage;
+        return false;
+      }
+      setVerified(true);
+      return true;
+    } catch {
+      error.value = invalidMessage;
+      return false;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function handleCallback(query?: Record<string, unknown>): Promise<boolean | null> {
+    const params = query ?? Object.fromEntries(new URLSearchParams(import.meta.client ? window.location.search : ''));
+    // Better-Auth redirects to the callback URL with `?error=` when the link is invalid or expired
+    if (typeof params.error === 'string' && params.error) {
+      error.value = t('lt.auth.emailVerificationInvalid', 'Der Bestätigungslink ist ungültig oder abgelaufen');
+      return false;
+    }
+    if (typeof params.token === 'string' && params.token) {
+      return verifyToken(params.token);
+    }
+    // Verified server-side before redirecting here: pick up the new status
+    return params.verified !== undefined ? checkStatus() : null;
+  }
+
+  async function resend(address?: string): Promise<boolean> {
+    const target = address || email.value;
+    if (!target || !canResend.value) {
+      return false;
+    }
+    loading.value = true;
+    error.value = null;
+    const fallbackMessage = t('lt.auth.emailVerificationResendFailed', 'Bestätigungs-E-Mail konnte nicht gesendet werden');
+    try {
+      const callbackURL = import.meta.client ? `${window.location.origin}${verifyPath}` : verifyPath;
+      const response = await fetchWithAuth(`${getLtApiBase()}/send-verification-email`, {
+        body: JSON.stringify({ callbackURL, email: target }),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST',
+      });
+      const retryAfter = parseRetryAfter(response);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        if (response.status === 429) {
+          resendUntil.value = Date.now() + (retryAfter ?? resendCooldownSeconds) * 1000;
+          startCooldownTimer();
+          error.value = t('lt.auth.emailVerificationTooManyRequests', 'Zu viele Anfragen, bitte warte einen Moment');
+        } else {
+          error.value = body?.message || fallbackMessage;
+        }
+        return false;
+      }
+      resendUntil.value = Date.now() + Math.max(retryAfter ?? 0, resendCooldownSeconds) * 1000;
+      startCooldownTimer();
+      return true;
+    } catch {
+      error.value = fallbackMessage;
+      return false;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function checkStatus(): Promise<boolean> {
+    try {
+      const response = await fetchWithAuth(`${getLtApiBase()}/get-session`, { method: 'GET' });
+      const body = response.ok ? await response.json().catch(() => null) : null;
+      const sessionUser = body?.user as LtUser | undefined;
+      if (typeof sessionUser?.emailVerified === 'boolean') {
+        setVerified(sessionUser.emailVerified);
+      }
+    } catch {
+      // Keep the cached status; the next poll retries
+    }
+    if (isVerified.value) {
+      stopPolling();
+    }
+    return isVerified.value;
+  }
+
+  function onVisibilityChange(): void {
+    if (document.visibilityState === 'visible') {
+      checkStatus();
+    }
+  }
+
+  function startPolling(intervalSeconds = 5): void {
+    if (!import.meta.client || isPolling.value || isVerified.value) {
+      return;
+    }
+    isPolling.value = true;
+    pollTimer = setInterval(checkStatus, intervalSeconds * 1000);
+    // Coming back from the mail app is the most likely moment of change
+    document.addEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  function stopPolling(): void {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+    if (isPolling.value && import.meta.client) {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    }
+    isPolling.value = false;
+  }
+
+  // A cooldown started by another component keeps counting down here
+  startCooldownTimer();
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      stopCooldownTimer();
+      stopPolling();
+    });
+  }
+
+  return {
+    canResend,
+    checkStatus,
+    cooldownSeconds,
+    email,
+    error: readonly(error),
+    handleCallback,
+    isPolling: readonly(isPolling),
+    isVerified,
+    loading: readonly(loading),
+    resend,
+    startPolling,
+    stopPolling,
+    verifyToken,
+  };
+}
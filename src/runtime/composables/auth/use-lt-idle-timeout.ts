@@ -0,0 +1,208 @@
+/**
+ * Idle Timeout Composable
+ *
+ * Signs the user out after `ltExtensions.auth.idle.timeoutMinutes` without
+ * interaction and redirects to `loginPath?reason=idle`. Activity is shared
+ * across tabs through localStorage, so working in one tab keeps all of them
+ * signed in. The last `warningSeconds` are exposed as `isWarning` /
+ * `remainingSeconds` for a countdown dialog — during that phase only an explicit
+ * `extend()` restarts the timer, passive mouse movement does not.
+ *
+ * Tracking starts with the first call on the client (the `idle-timeout` plugin
+ * makes that call after mount when the option is enabled); all calls share the
+ * same state via useState.
+ */
+
+import type { UseLtIdleTimeoutReturn } from '../../types';
+
+import { computed, useRuntimeConfig, useState } from '#imports';
+import { getLtAuthCookieNames } from '../../lib/auth-state';
+import { ltSafeRedirectPath } from '../../utils/redirect';
+import { useLtAuth } from './use-lt-auth';
+
+/** DOM events counted as user activity */
+const ACTIVITY_EVENTS = ['keydown', 'mousedown', 'mousemove', 'scroll', 'touchstart', 'wheel'] as const;
+
+/** Passive activity is recorded at most once per interval (mousemove fires constantly) */
+const ACTIVITY_THROTTLE_MS = 1000;
+
+/** Removes the activity listeners and the timer (set while tracking runs) */
+let stopTracking: (() => void) | null = null;
+
+/**
+ * Composable for the inactivity sign-out and its countdown warning
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const { extend, isWarning, remainingSeconds } = useLtIdleTimeout();
+ * </script>
+ *
+ * <template>
+ *   <UModal :open="isWarning">
+ *     <template #body>Signing out in {{ remainingSeconds }} s</template>
+ *     <template #footer><UButton @click="extend()">Stay signed in</UButton></template>
+ *   </UModal>
+ * </template>
+ * ```
+ */
+export function useLtIdleTimeout(): UseLtIdleTimeoutReturn {
+  const authConfig = useRuntimeConfig().public?.ltExtensions?.auth;
+  const idleConfig = authConfig?.idle;
+  const loginPath = authConfig?.loginPath || '/auth/login';
+  const timeoutMs = (idleConfig?.timeoutMinutes ?? 30) * 60_000;
+  const warningSeconds = idleConfig?.warningSeconds ?? 60;
+  // Scoped by the state cookie name, like the cross-tab sync channel
+  const storageKey = `${getLtAuthCookieNames().state}:idle`;
+
+  const { clearUser, isAuthenticated, signOut, validateSession } = useLtAuth();
+
+  const lastActivity = useState<number>('lt-idle-last-activity', () => Date.now());
+  const now = useState<number>('lt-idle-now', () => Date.now());
+  const isExpiring = useState<boolean>('lt-idle-expiring', () => false);
+
+  const isEnabled = computed(() => idleConfig?.enabled === true);
+  const remainingSeconds = computed(() => Math.max(0, Math.ceil((lastActivity.value + timeoutMs - now.value) / 1000)));
+  const isWarning = computed(() => isEnabled.value && isAuthenticated.value && remainingSeconds.value > 0 && remainingSeconds.value <= warningSeconds);
+
+  /**
+   * Restart the timer here and in the other tabs
+   */
+  function recordActivity(at: number = Date.now()): void {
+    lastActivity.value = at;
+    now.value = at;
+    try {
+      localStorage.setItem(storageKey, String(at));
+    } catch {
+      // Storage unavailable (privacy mode) — the timer still works per tab
+    }
+  }
+
+  /**
+   * Record user activity (throttled)
+   */
+  function touch(): void {
+    if (!import.meta.client || isWarning.value || isExpiring.value) {
+      return;
+    }
+    const at = Date.now();
+    if (at - lastActivity.value >= ACTIVITY_THROTTLE_MS) {
+      recordActivity(at);
+    }
+  }
+
+  /**
+   * Sign out and redirect to the login page with `reason=idle`
+   *
+   * Uses window.location (like the auth interceptor) so the in-memory state of
+   * the abandoned session is dropped along with the page.
+   */
+  async function expire(): Promise<void> {
+    if (!import.meta.client || isExpiring.value) {
+      return;
+    }
+    isExpiring.value = true;
+
+    try {
+      await signOut(undefined, 'idle');
+    } catch {
+      // Backend unreachable — drop the local session anyway
+      clearUser('idle');
+    }
+
+    const currentPath = ltSafeRedirectPath(`${window.location.pathname}${window.location.search}${window.location.hash}`, '');
+    const query = new URLSearchParams({ reason: 'idle' });
+    if (currentPath && currentPath !== loginPath) {
+      query.set('redirect', currentPath);
+    }
+    window.location.href = `${loginPath}?${query.toString()}`;
+  }
+
+  /**
+   * Keep the session: revalidate it and restart the timer in all tabs
+   *
+   * @returns `true` if the session is still valid; otherwise the user is signed out
+   */
+  async function extend(): Promise<boolean> {
+    if (!import.meta.client) {
+      return false;
+    }
+    if (await validateSession()) {
+      recordActivity();
+      return true;
+    }
+    await expire();
+    return false;
+  }
+
+  if (import.meta.client && isEnabled.value && !stopTracking) {
+    // Continue the shared clock of the other tabs (or of the previous page load)
+    try {
+      const stored = Number(localStorage.getItem(storageKey));
+      if (isAuthenticated.value && stored > 0) {
+        lastActivity.value = stored;
+      }
+    } catch {
+      // Storage unavailable — start a fresh timer
+    }
+
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, touch, { passive: true });
+    }
+
+    const onStorage = (event: StorageEvent): void => {
+      const at = event.key === storageKey ? Number(event.newValue) : 0;
+      if (at > lastActivity.value) {
+        lastActivity.value = at;
+        now.value = Date.now();
+      }
+    };
+    window.addEventListener('storage', onStorage);
+
+    let wasAuthenticated = isAuthenticated.value;
+    const timer = setInterval(() => {
+      now.value = Date.now();
+      if (!isAuthenticated.value) {
+        wasAuthenticated = false;
+        return;
+      }
+      if (!wasAuthenticated) {
+        // Fresh login: the clock starts now, not at the last activity of the previous session
+        wasAuthenticated = true;
+        recordActivity();
+        return;
+      }
+      if (remainingSeconds.value === 0) {
+        expire();
+      }
+    }, 1000);
+
+    stopTracking = () => {
+      clearInterval(timer);
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, touch);
+      }
+      window.removeEventListener('storage', onStorage);
+    };
+  }
+
+  return {
+    expire,
+    extend,
+    isEnabled,
+    isWarning,
+    remainingSeconds,
+    touch,
+  };
+}
+
+/**
+ * Stop tracking and remove the activity listeners.
+ *
+ * INTERNAL — test-only, like `resetLtAuthSyncState`. Production code must
+ * never call this.
+ */
+export function resetLtIdleTimeoutState(): void {
+  stopTracking?.();
+  stopTracking = null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Passkey management for the current user: list, add, rename and delete
+ * passkeys, plus WebAuthn feature detection.
+ *
+ * Requests go through `useLtAuth().fetchWithAuth` (Cookie/JWT dual-mode; passkey
+ * paths keep their session cookie in JWT mode). Messages use the `lt.auth.*`
+ * translations.
+ */
+
+import type { LtPasskey, LtPasskeyRegisterResult, UseLtPasskeysReturn } from '../../types';
+
+import { computed, readonly, ref } from '#imports';
+import { getLtApiBase } from '../../lib/auth-state';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Labels of well-known authenticators by AAGUID (subset of the community
+ * passkey-authenticator-aaguids list). Unknown models fall back to synced /
+ * device-bound.
+ */
+const LT_PASSKEY_AAGUID_LABELS: Record<string, string> = {
+  '08987058-cadc-4b81-b6e1-30de50dcbe96': 'Windows Hello',
+  '0ea242b4-43c4-4a1b-8b17-dd6d0b6baec6': 'Keeper',
+  '531126d6-e717-415c-9320-3d9aa6981239': 'Dashlane',
+  '53414d53-554e-4700-0000-000000000000': 'Samsung Pass',
+  '6028b017-b1d4-4c02-b4b3-afcdafc96bb2': 'Windows Hello',
+  '9ddd1817-af5a-4672-a2b9-3e3dd95000a9': 'Windows Hello',
+  'adce0002-35bc-c60a-648b-0b25f1f05503': 'Chrome on Mac',
+  'b84e4048-15dc-4dd0-8640-f4f60813c8af': 'NordPass',
+  'bada5566-a7aa-401f-bd96-45619a55120d': '1Password',
+  'cb69481e-8ff7-4039-93ec-0a2729a154a8': 'YubiKey 5 Series',
+  'd548826e-79b4-db40-a3d8-11116f7e8349': 'Bitwarden',
+  'dd4ec289-e01d-41c9-bb89-70fa845d4bf2': 'iCloud Keychain (Managed)',
+  'ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4': 'Google Password Manager',
+  'ee882879-721c-4913-9775-3dfcce97072a': 'YubiKey 5 Series',
+  'fbfc3007-154e-4ecc-8c0b-6e020557d7bd': 'iCloud Keychain',
+};
+
+/**
+ * Composable for managing the current user's passkeys
+ *
+ * @example
+ * ```typescript
+ * const { add, getDeviceLabel, isSupported, load, passkeys, remove, rename } = useLtPasskeys();
+ *
+ * await load();
+ * passkeys.value.map((passkey) => `${passkey.name ?? ''} (${getDeviceLabel(passkey)})`);
+ * await rename(passkeys.value[0].id, 'MacBook');
+ * ```
+ */
+export function useLtPasskeys(): UseLtPasskeysReturn {
+  const { fetchWithAuth, registerPasskey } = useLtAuth();
+  const t = useLtTranslation();
+
+  const passkeys = ref<LtPasskey[]>([]);
+  const loading = ref(false);
+  const error = ref<null | string>(null);
+  const isPlatformAuthenticatorAvailable = ref(false);
+
+  const isSupported = computed(() => import.meta.client && typeof window.PublicKeyCredential === 'function');
+
+  if (isSupported.value) {
+    window.PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable?.()
+      .then((available) => {
+        isPlatformAuthenticatorAvailable.value = available;
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * Run a passkey request; sets `error` to the backend message or `fallbackMessage`
+   */
+  async function request<T>(path: string, init: RequestInit, fallbackMessage: string): Promise<T | null> {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await fetchWithAuth(`${getLtApiBase()}${path}`, init);
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        error.value = body?.message || fallbackMessage;
+        return null;
+      }
+      return body as T;
+    } catch {
+      error.value = fallbackMessage;
+      return null;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  function post(body: Record<string, unknown>): RequestInit {
+    return { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' }, method: 'POST' };
+  }
+
+  async function load(): Promise<void> {
+    const result = await request<LtPasskey[]>('/passkey/list-user-passkeys', { method: 'GET' }, t('lt.auth.passkeyListFailed', 'Passkeys konnten nicht geladen werden'));
+    if (result) {
+      passkeys.value = result;
+    }
+  }
+
+  async function rename(id: string, name: string): Promise<boolean> {
+    const result = await request<{ passkey?: LtPasskey }>('/passkey/update-passkey', post({ id, name }), t('lt.auth.passkeyRenameFailed', 'Passkey konnte nicht umbenannt werden'));
+    if (!result) {
+      return false;
+    }
+    passkeys.value = passkeys.value.map((passkey) => (passkey.id === id ? { ...passkey, ...result.passkey, name } : passkey));
+    return true;
+  }
+
+  async function remove(id: string): Promise<boolean> {
+    const result = await request<unknown>('/passkey/delete-passkey', post({ id }), t('lt.auth.passkeyDeleteFailed', 'Passkey konnte nicht gelöscht werden'));
+    if (result === null) {
+      return false;
+    }
+    passkeys.value = passkeys.value.filter((passkey) => passkey.id !== id);
+    return true;
+  }
+
+  async function add(name?: string): Promise<LtPasskeyRegisterResult> {
+    const result = await registerPasskey(name);
+    if (result.success) {
+      await load();
+    } else {
+      error.value = result.error ?? null;
+    }
+    return result;
+  }
+
+  function getDeviceLabel(passkey: LtPasskey): string {
+    const known = passkey.aaguid ? LT_PASSKEY_AAGUID_LABELS[passkey.aaguid.toLowerCase()] : undefined;
+    if (known) {
+      return known;
+    }
+    return passkey.backedUp || passkey.deviceType === 'multiDevice'
+      ? t('lt.auth.passkeySynced', 'Synchronisierter Passkey')
+      : t('lt.auth.passkeyDeviceBound', 'Gerätegebundener Passkey');
+  }
+
+  return {
+    add,
+    error: readonly(error),
+    getDeviceLabel,
+    isPlatformAuthenticatorAvailable: readonly(isPlatformAuthenticatorAvailable),
+    isSupported,
+    load,
+    loading: readonly(loading),
+    passkeys: readonly(passkeys),
+    remove,
+    rename,
+  };
+}
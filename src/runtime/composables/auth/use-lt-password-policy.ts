@@ -0,0 +1,202 @@
+/**
+ * Password policy driven by the backend `/features`: minimum length, required
+ * character classes and a breached-password check against a built-in list.
+ *
+ * Feature keys (all optional):
+ * - `passwordMinLength` (number, default: 8)
+ * - `passwordRequireDigit` / `passwordRequireLowercase` / `passwordRequireUppercase`
+ *   / `passwordRequireSpecialChar` (boolean, default: false)
+ * - `passwordCheckBreached` (boolean, default: false)
+ *
+ * Runs on the PLAIN password, i.e. before it is hashed with {@link ltSha256} —
+ * the backend only ever sees the hash and cannot check these rules itself.
+ * Feedback uses the `lt.auth.*` translations.
+ */
+
+import type { LtPasswordCheck, LtPasswordPolicy, LtPasswordRuleId, LtPasswordStrength, UseLtPasswordPolicyReturn } from '../../types';
+
+import { computed } from '#imports';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Most common passwords of public breach corpora (lowercase). Also matched
+ * with trailing digits / symbols stripped ("Password123!" → "password").
+ */
+const LT_BREACHED_PASSWORDS = new Set([
+  '000000',
+  '1111',
+  '111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123qwe',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1qaz2wsx',
+  '555555',
+  '654321',
+  '666666',
+  '696969',
+  '7777777',
+  '987654321',
+  'aa12345678',
+  'abc123',
+  'admin',
+  'andrea',
+  'ashley',
+  'asdf',
+  'asdfgh',
+  'asdfghjkl',
+  'bailey',
+  'baseball',
+  'charlie',
+  'dragon',
+  'football',
+  'freedom',
+  'hallo',
+  'hello',
+  'hunter',
+  'iloveyou',
+  'letmein',
+  'login',
+  'master',
+  'michael',
+  'monkey',
+  'mustang',
+  'passw0rd',
+  'password',
+  'passwort',
+  'princess',
+  'qazwsx',
+  'qwerty',
+  'qwertyuiop',
+  'qwertz',
+  'schalke',
+  'shadow',
+  'starwars',
+  'sunshine',
+  'superman',
+  'trustno1',
+  'welcome',
+  'whatever',
+  'zaq1zaq1',
+]);
+
+const LT_PASSWORD_RULE_TESTS: Record<Exclude<LtPasswordRuleId, 'breached' | 'minLength'>, RegExp> = {
+  digit: /\d/,
+  lowercase: /\p{Ll}/u,
+  specialChar: /[^\p{L}\d]/u,
+  uppercase: /\p{Lu}/u,
+};
+
+function isBreached(password: string): boolean {
+  const lower = password.toLowerCase();
+  const stripped = lower.replace(/[^a-z]+$/, '');
+  return LT_BREACHED_PASSWORDS.has(lower) || (stripped.length > 0 && LT_BREACHED_PASSWORDS.has(stripped));
+}
+
+/**
+ * 0–4: length and character variety; breached passwords score 0
+ */
+function scorePassword(password: string, minLength: number, breached: boolean): number {
+  if (!password || breached) {
+    return 0;
+  }
+  const classes = Object.values(LT_PASSWORD_RULE_TESTS).filter((test) => test.test(password)).length;
+  const steps = [password.length >= minLength, password.length >= Math.max(12, minLength + 4), classes >= 3, password.length >= 16 || (classes === 4 && password.length >= 12)];
+  return steps.filter(Boolean).length;
+}
+
+/**
+ * Composable for password rules and strength feedback
+ *
+ * @example
+ * ```typescript
+ * const { evaluate, validate } = useLtPasswordPolicy();
+ *
+ * const check = computed(() => evaluate(password.value));
+ * // check.value → { valid, score, strength: 'good', strengthLabel: 'Gut', messages: [...], rules: [...] }
+ *
+ * // Nuxt UI form validation
+ * const errors = validate(state.password) === true ? [] : [{ name: 'password', message: validate(state.password) }];
+ * ```
+ */
+export function useLtPasswordPolicy(): UseLtPasswordPolicyReturn {
+  const { features } = useLtAuth();
+  const t = useLtTranslation();
+
+  const policy = computed<LtPasswordPolicy>(() => {
+    const flags = features.value;
+    const minLength = Number(flags.passwordMinLength);
+    return {
+      checkBreached: flags.passwordCheckBreached === true,
+      minLength: Number.isFinite(minLength) && minLength > 0 ? minLength : 8,
+      requireDigit: flags.passwordRequireDigit === true,
+      requireLowercase: flags.passwordRequireLowercase === true,
+      requireSpecialChar: flags.passwordRequireSpecialChar === true,
+      requireUppercase: flags.passwordRequireUppercase === true,
+    };
+  });
+
+  const strengthLabels: Record<LtPasswordStrength, () => string> = {
+    fair: () => t('lt.auth.passwordStrengthFair', 'Mittel'),
+    good: () => t('lt.auth.passwordStrengthGood', 'Gut'),
+    strong: () => t('lt.auth.passwordStrengthStrong', 'Stark'),
+    weak: () => t('lt.auth.passwordStrengthWeak', 'Schwach'),
+  };
+
+  function evaluate(password: string): LtPasswordCheck {
+    const { checkBreached, minLength, requireDigit, requireLowercase, requireSpecialChar, requireUppercase } = policy.value;
+    const breached = checkBreached && isBreached(password);
+
+    const rules: LtPasswordCheck['rules'] = [
+      { id: 'minLength', message: t('lt.auth.passwordMinLength', 'Mindestens {min} Zeichen', { min: minLength }), passed: password.length >= minLength },
+    ];
+    if (requireLowercase) {
+      rules.push({ id: 'lowercase', message: t('lt.auth.passwordLowercase', 'Mindestens ein Kleinbuchstabe'), passed: LT_PASSWORD_RULE_TESTS.lowercase.test(password) });
+    }
+    if (requireUppercase) {
+      rules.push({ id: 'uppercase', message: t('lt.auth.passwordUppercase', 'Mindestens ein Großbuchstabe'), passed: LT_PASSWORD_RULE_TESTS.uppercase.test(password) });
+    }
+    if (requireDigit) {
+      rules.push({ id: 'digit', message: t('lt.auth.passwordDigit', 'Mindestens eine Ziffer'), passed: LT_PASSWORD_RULE_TESTS.digit.test(password) });
+    }
+    if (requireSpecialChar) {
+      rules.push({ id: 'specialChar', message: t('lt.auth.passwordSpecialChar', 'Mindestens ein Sonderzeichen'), passed: LT_PASSWORD_RULE_TESTS.specialChar.test(password) });
+    }
+    if (checkBreached) {
+      rules.push({ id: 'breached', message: t('lt.auth.passwordBreached', 'Dieses Passwort ist zu bekannt'), passed: !breached });
+    }
+
+    const score = scorePassword(password, minLength, breached);
+    const strength: LtPasswordStrength = score >= 4 ? 'strong' : score === 3 ? 'good' : score === 2 ? 'fair' : 'weak';
+
+    return {
+      messages: rules.filter((rule) => !rule.passed).map((rule) => rule.message),
+      rules,
+      score,
+      strength,
+      strengthLabel: strengthLabels[strength](),
+      valid: rules.every((rule) => rule.passed),
+    };
+  }
+
+  function validate(password: string): string | true {
+    return evaluate(password).messages[0] ?? true;
+  }
+
+  return {
+    evaluate,
+    policy,
+    validate,
+  };
+}
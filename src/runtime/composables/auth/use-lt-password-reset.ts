@@ -0,0 +1,133 @@
+/**
+ * Password reset flow with explicit steps:
+ * `requestReset` (email) → 'sent' → the email link opens `auth.resetPasswordPath`
+ * → `handleCallback` ('reset') → `resetPassword` → 'done', optionally signed in.
+ *
+ * The new password is checked against {@link useLtPasswordPolicy} first and
+ * only then hashed with `ltSha256` by the auth client. Messages use the
+ * `lt.auth.*` translations.
+ */
+
+import type { LtPasswordResetOptions, LtPasswordResetStep, UseLtPasswordResetReturn } from '../../types';
+
+import { readonly, ref, useRuntimeConfig } from '#imports';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuthClient } from '../use-lt-auth-client';
+import { useLtAuth } from './use-lt-auth';
+import { useLtPasswordPolicy } from './use-lt-password-policy';
+
+/**
+ * Composable for the password reset flow
+ *
+ * @example
+ * ```typescript
+ * // "Forgot password" page
+ * const { requestReset, step } = useLtPasswordReset();
+ * await requestReset(email); // step: 'sent'
+ *
+ * // auth.resetPasswordPath page
+ * const { check, handleCallback, resetPassword, step } = useLtPasswordReset();
+ * onMounted(() => handleCallback(route.query)); // step: 'reset' (or `error` for an invalid link)
+ * const feedback = computed(() => check(password.value)); // strength + failed rules
+ * await resetPassword(password.value, { email }); // step: 'done', signed in
+ * ```
+ */
+export function useLtPasswordReset(): UseLtPasswordResetReturn {
+  const authClient = useLtAuthClient();
+  const { signIn } = useLtAuth();
+  const { evaluate } = useLtPasswordPolicy();
+  const t = useLtTranslation();
+  const resetPasswordPath: string = useRuntimeConfig().public?.ltExtensions?.auth?.resetPasswordPath || '/auth/reset-password';
+
+  const step = ref<LtPasswordResetStep>('request');
+  const loading = ref(false);
+  const error = ref<null | string>(null);
+  let token: null | string = null;
+
+  function invalidLinkMessage(): string {
+    return t('lt.auth.passwordResetInvalidToken', 'Der Link zum Zurücksetzen ist ungültig oder abgelaufen');
+  }
+
+  function handleCallback(query?: Record<string, unknown>): boolean {
+    const params = query ?? Object.fromEntries(new URLSearchParams(import.meta.client ? window.location.search : ''));
+    // Better-Auth redirects to the reset page with `?error=INVALID_TOKEN` for unusable links
+    if (typeof params.token !== 'string' || !params.token || params.error) {
+      error.value = invalidLinkMessage();
+      return false;
+    }
+    token = params.token;
+    error.value = null;
+    step.value = 'reset';
+    return true;
+  }
+
+  async function requestReset(email: string): Promise<boolean> {
+    loading.value = true;
+    error.value = null;
+    const fallbackMessage = t('lt.auth.passwordResetRequestFailed', 'E-Mail zum Zurücksetzen konnte nicht gesendet werden');
+    try {
+      const redirectTo = import.meta.client ? `${window.location.origin}${resetPasswordPath}` : resetPasswordPath;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = (await authClient.requestPasswordReset({ email, redirectTo })) as any;
+      if (result?.error) {
+        error.value = result.error.message || fallbackMessage;
+        return false;
+      }
+      // Same answer for unknown addresses (no account enumeration)
+      step.value = 'sent';
+      return true;
+    } catch {
+      error.value = fallbackMessage;
+      return false;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function resetPassword(newPassword: string, options: LtPasswordResetOptions = {}): Promise<boolean> {
+    if (!token) {
+      error.value = invalidLinkMessage();
+      return false;
+    }
+    const feedback = evaluate(newPassword);
+    if (!feedback.valid) {
+      error.value = feedback.messages[0] ?? null;
+      return false;
+    }
+
+    loading.value = true;
+    error.value = null;
+    const fallbackMessage = t('lt.auth.passwordResetFailed', 'Passwort konnte nicht zurückgesetzt werden');
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = (await authClient.resetPassword({ newPassword, token })) as any;
+      if (result?.error) {
+        error.value = result.error.code === 'INVALID_TOKEN' ? invalidLinkMessage() : result.error.message || fallbackMessage;
+        return false;
+      }
+      token = null;
+      step.value = 'done';
+    } catch {
+      error.value = fallbackMessage;
+      return false;
+    } finally {
+      loading.value = false;
+    }
+
+    if (options.email) {
+      // The reset itself succeeded; a failed sign-in only means the user signs in manually
+      await signIn.email({ email: options.email, password: newPassword }).catch(() => {});
+    }
+    return true;
+  }
+
+  return {
+    check: evaluate,
+    error: readonly(error),
+    handleCallback,
+    loading: readonly(loading),
+    requestReset,
+    resetPassword,
+    step: readonly(step),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Active sessions of the current user ("where am I signed in?"): list them
+ * with device / browser / OS labels and sign out other devices remotely.
+ *
+ * Requests go through `useLtAuth().fetchWithAuth` (Cookie/JWT dual-mode) to the
+ * Better-Auth session endpoints. Messages use the `lt.auth.*` translations.
+ */
+
+import type { LtActiveSession, LtSession, LtSessionData, LtSessionDevice, UseLtSessionsReturn } from '../../types';
+
+import { computed, readonly, ref } from '#imports';
+import { getLtApiBase } from '../../lib/auth-state';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Browsers by user agent token; the order matters (Edge and Opera also send
+ * `Chrome/`, Chrome also sends `Safari/`)
+ */
+const LT_SESSION_BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+/**
+ * Operating systems by user agent token; iOS before macOS (iPads may send
+ * `Mac OS X` too), Android before Linux
+ */
+const LT_SESSION_OS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Browser, OS and device kind of a user agent (best effort, no client hints)
+ */
+function parseUserAgent(userAgent: null | string | undefined): Pick<LtActiveSession, 'browser' | 'device' | 'os'> {
+  if (!userAgent) {
+    return { browser: null, device: 'unknown', os: null };
+  }
+  const browser = LT_SESSION_BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+  const os = LT_SESSION_OS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+  let device: LtSessionDevice = 'unknown';
+  if (/iPad|Tablet|Android(?!.*Mobile)/.test(userAgent)) {
+    device = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    device = 'mobile';
+  } else if (os) {
+    device = 'desktop';
+  }
+  return { browser, device, os };
+}
+
+function toTime(value: Date | string | undefined): number {
+  return value ? new Date(value).getTime() || 0 : 0;
+}
+
+/**
+ * Composable for listing and revoking the current user's sessions
+ *
+ * @example
+ * ```typescript
+ * const { getDeviceLabel, load, revoke, revokeOthers, sessions } = useLtSessions();
+ *
+ * await load();
+ * sessions.value.map((session) => `${getDeviceLabel(session)}${session.isCurrent ? ' (this device)' : ''}`);
+ * await revoke(sessions.value[1].id);
+ * await revokeOthers(); // "sign out everywhere else"
+ * ```
+ */
+export function useLtSessions(): UseLtSessionsReturn {
+  const { clearUser, fetchWithAuth } = useLtAuth();
+  const t = useLtTranslation();
+
+  const sessions = ref<LtActiveSession[]>([]);
+  const loading = ref(false);
+  const error = ref<null | string>(null);
+
+  const currentSession = computed(() => sessions.value.find((session) => session.isCurrent) ?? null);
+
+  /**
+   * Run a session request; sets `error` to the backend message or `fallbackMessage`
+   */
+  async function request<T>(path: string, init: RequestInit, fallbackMessage: string): Promise<T | null> {
+    loading.value = true;
+    error.value = null;
+    try {
+      const response = await fetchWithAuth(`${getLtApiBase()}${path}`, init);
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        error.value = body?.message || fallbackMessage;
+        return null;
+      }
+      return (body ?? {}) as T;
+    } catch {
+      error.value = fallbackMessage;
+      return null;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  function post(body: Record<string, unknown>): RequestInit {
+    return { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' }, method: 'POST' };
+  }
+
+  async function load(): Promise<void> {
+    const fallbackMessage = t('lt.auth.sessionListFailed', 'Sitzungen konnten nicht geladen werden');
+    const [list, current] = await Promise.all([
+      request<LtSession[]>('/list-sessions', { method: 'GET' }, fallbackMessage),
+      // Only used to flag this browser's session; a failure leaves every session unflagged
+      fetchWithAuth(`${getLtApiBase()}/get-session`, { method: 'GET' })
+        .then(async (response) => (response.ok ? ((await response.json().catch(() => null)) as LtSessionData | null) : null))
+        .catch(() => null),
+    ]);
+    if (!list) {
+      return;
+    }
+    const currentId = current?.session?.id;
+    sessions.value = (Array.isArray(list) ? list : [])
+      .map((session) => ({ ...session, ...parseUserAgent(session.userAgent), isCurrent: !!currentId && session.id === currentId }))
+      .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || toTime(b.updatedAt ?? b.createdAt) - toTime(a.updatedAt ?? a.createdAt));
+  }
+
+  async function revoke(id: string): Promise<boolean> {
+    const fallbackMessage = t('lt.auth.sessionRevokeFailed', 'Sitzung konnte nicht beendet werden');
+    const session = sessions.value.find((entry) => entry.id === id);
+    // Better-Auth revokes by token; the id alone is not enough
+    if (!session?.token) {
+      error.value = fallbackMessage;
+      return false;
+    }
+    const result = await request<unknown>('/revoke-session', post({ token: session.token }), fallbackMessage);
+    if (result === null) {
+      return false;
+    }
+    sessions.value = sessions.value.filter((entry) => entry.id !== id);
+    if (session.isCurrent) {
+      clearUser('sign-out');
+    }
+    return true;
+  }
+
+  async function revokeOthers(): Promise<boolean> {
+    const result = await request<unknown>('/revoke-other-sessions', post({}), t('lt.auth.sessionRevokeFailed', 'Sitzung konnte nicht beendet werden'));
+    if (result === null) {
+      return false;
+    }
+    sessions.value = sessions.value.filter((session) => session.isCurrent);
+    return true;
+  }
+
+  async function revokeAll(): Promise<boolean> {
+    const result = await request<unknown>('/revoke-sessions', post({}), t('lt.auth.sessionRevokeFailed', 'Sitzung konnte nicht beendet werden'));
+    if (result === null) {
+      return false;
+    }
+    sessions.value = [];
+    clearUser('sign-out');
+    return true;
+  }
+
+  function getDeviceLabel(session: LtActiveSession): string {
+    if (session.browser && session.os) {
+      return t('lt.auth.sessionDeviceLabel', '{browser} auf {os}', { browser: session.browser, os: session.os });
+    }
+    return session.browser || session.os || t('lt.auth.sessionUnknownDevice', 'Unbekanntes Gerät');
+  }
+
+  return {
+    currentSession,
+    error: readonly(error),
+    getDeviceLabel,
+    load,
+    loading: readonly(loading),
+    revoke,
+    revokeAll,
+    revokeOthers,
+    sessions: readonly(sessions),
+  };
+}
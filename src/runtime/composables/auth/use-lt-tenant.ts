@@ -0,0 +1,96 @@
+/**
+ * Multi-tenancy: the current user's organizations and the active one.
+ *
+ * The active tenant id lives in a cookie (`auth.tenant.cookieName`), so it
+ * survives reloads and is available during SSR. While `auth.tenant.enabled` is
+ * set, `ltAuthFetch` — and with it the Better-Auth client and every
+ * `ltAiRequest` — sends it in the `auth.tenant.header` (default `X-Tenant-Id`).
+ * Messages use the `lt.auth.*` translations.
+ */
+
+import type { LtTenant, UseLtTenantReturn } from '../../types';
+
+import { computed, readonly, ref, useCookie, useRuntimeConfig } from '#imports';
+import { getLtApiBase, getLtTenantConfig, setLtTenantId } from '../../lib/auth-state';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Composable for listing and switching the active tenant
+ *
+ * @example
+ * ```typescript
+ * const { activeTenant, load, organizations, switchTenant } = useLtTenant();
+ *
+ * await load(); // activates the first organization when none is active
+ * if (switchTenant(organizations.value[1].id)) {
+ *   await refreshNuxtData(); // reload data of the previous tenant
+ * }
+ * ```
+ */
+export function useLtTenant(): UseLtTenantReturn {
+  const { fetchWithAuth } = useLtAuth();
+  const t = useLtTranslation();
+  const { cookieName, enabled } = getLtTenantConfig();
+  const listPath: string = useRuntimeConfig().public?.ltExtensions?.auth?.tenant?.listPath || '/organization/list';
+
+  const tenantCookie = useCookie<null | string>(cookieName);
+  const organizations = ref<LtTenant[]>([]);
+  const loading = ref(false);
+  const error = ref<null | string>(null);
+
+  const activeTenantId = computed(() => tenantCookie.value || null);
+  const activeTenant = computed(() => organizations.value.find((organization) => organization.id === activeTenantId.value) ?? null);
+  const isEnabled = computed(() => enabled);
+
+  async function load(): Promise<void> {
+    loading.value = true;
+    error.value = null;
+    const fallbackMessage = t('lt.auth.tenantListFailed', 'Organisationen konnten nicht geladen werden');
+    try {
+      const response = await fetchWithAuth(`${getLtApiBase()}${listPath}`, { method: 'GET' });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        error.value = body?.message || fallbackMessage;
+        return;
+      }
+      organizations.value = Array.isArray(body) ? body : [];
+    } catch {
+      error.value = fallbackMessage;
+      return;
+    } finally {
+      loading.value = false;
+    }
+
+    // A stale tenant (membership removed, other user) would scope every request wrongly
+    if (!activeTenant.value) {
+      setLtTenantId(organizations.value[0]?.id ?? null);
+    }
+  }
+
+  function switchTenant(tenantId: string): boolean {
+    if (organizations.value.length && !organizations.value.some((organization) => organization.id === tenantId)) {
+      error.value = t('lt.auth.tenantUnknown', 'Sie sind kein Mitglied dieser Organisation');
+      return false;
+    }
+    error.value = null;
+    setLtTenantId(tenantId);
+    return true;
+  }
+
+  function clear(): void {
+    setLtTenantId(null);
+  }
+
+  return {
+    activeTenant,
+    activeTenantId,
+    clear,
+    error: readonly(error),
+    isEnabled,
+    load,
+    loading: readonly(loading),
+    organizations: readonly(organizations),
+    switchTenant,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Two-factor authentication (TOTP) with explicit setup steps:
+ * `start` (password) → scan the QR code → `verifySetup` (first code) → show the
+ * backup codes once → `confirmBackupCodes`.
+ *
+ * The otpauth URI is rendered as SVG locally ({@link ltQrCodeSvg}): the TOTP
+ * secret never leaves the browser for a QR service. `verify` completes a sign-in
+ * that returned `twoFactorRedirect` (TOTP or backup code, optionally trusting the
+ * device). The cached user's `twoFactorEnabled` (`is2FAEnabled`) follows every
+ * enable / disable. Passwords are hashed by the auth client.
+ */
+
+import type { LtTwoFactorStep, LtTwoFactorVerifyOptions, LtUser, UseLtTwoFactorReturn } from '../../types';
+
+import { computed, readonly, ref } from '#imports';
+import { useLtTranslation } from '../../lib/translation';
+import { ltQrCodeSvg } from '../../utils/qr';
+import { useLtAuth } from './use-lt-auth';
+
+/**
+ * Composable for 2FA setup, sign-in verification and backup codes
+ *
+ * @example
+ * ```typescript
+ * const { backupCodes, confirmBackupCodes, qrCodeSvg, secret, start, step, verifySetup } = useLtTwoFactor();
+ *
+ * await start(password); // step: 'scan' → <div v-html="qrCodeSvg" />, secret for manual entry
+ * await verifySetup('123456'); // step: 'backup-codes' → show backupCodes
+ * confirmBackupCodes(); // step: 'done'
+ *
+ * // Sign-in challenge page (twoFactorRedirectPath)
+ * const { verify } = useLtTwoFactor();
+ * if (await verify(code, { trustDevice: true })) await navigateTo('/app');
+ * ```
+ */
+export function useLtTwoFactor(): UseLtTwoFactorReturn {
+  const { authMode, is2FAEnabled, setUser, twoFactor, user } = useLtAuth();
+  const t = useLtTranslation();
+
+  const step = ref<LtTwoFactorStep>('idle');
+  const totpUri = ref<null | string>(null);
+  const backupCodes = ref<string[]>([]);
+  const loading = ref(false);
+  const error = ref<null | string>(null);
+
+  const qrCodeSvg = computed(() => {
+    if (!totpUri.value) {
+      return null;
+    }
+    try {
+      return ltQrCodeSvg(totpUri.value);
+    } catch {
+      // Longer than a QR code holds (long issuer / account name): `secret` still allows manual entry
+      return null;
+    }
+  });
+  const secret = computed(() => {
+    if (!totpUri.value) {
+      return null;
+    }
+    try {
+      return new URL(totpUri.value).searchParams.get('secret');
+    } catch {
+      return null;
+    }
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const client = twoFactor as any;
+
+  /**
+   * Run a 2FA request; sets `error` to the backend message or `fallbackMessage`
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async function request<T = any>(action: () => Promise<unknown>, fallbackMessage: string): Promise<T | null> {
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = (await action()) as { data?: T | null; error?: { message?: string } | null } | null;
+      if (result?.error) {
+        error.value = result.error.message || fallbackMessage;
+        return null;
+      }
+      return (result?.data ?? {}) as T;
+    } catch {
+      error.value = fallbackMessage;
+      return null;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  /**
+   * Reflect the 2FA state on the cached user
+   */
+  function setEnabled(enabled: boolean): void {
+    if (user.value && user.value.twoFactorEnabled !== enabled) {
+      setUser({ ...(user.value as LtUser), twoFactorEnabled: enabled }, authMode.value);
+    }
+  }
+
+  async function start(password: string): Promise<boolean> {
+    const data = await request<{ backupCodes?: string[]; totpURI?: string }>(
+      () => client.enable({ password }),
+      t('lt.auth.twoFactorEnableFailed', 'Zwei-Faktor-Authentifizierung konnte nicht aktiviert werden'),
+    );
+    if (!data?.totpURI) {
+      return false;
+    }
+    totpUri.value = data.totpURI;
+    backupCodes.value = data.backupCodes ?? [];
+    step.value = 'scan';
+    if (!qrCodeSvg.value) {
+      error.value = t('lt.auth.twoFactorQrCodeFailed', 'QR-Code konnte nicht erstellt werden – bitte den Schlüssel manuell eingeben');
+    }
+    return true;
+  }
+
+  async function verifySetup(code: string): Promise<boolean> {
+    const data = await request(() => client.verifyTotp({ code: code.trim() }), t('lt.auth.twoFactorInvalidCode', 'Ungültiger Code'));
+    if (!data) {
+      return false;
+    }
+    setEnabled(true);
+    totpUri.value = null;
+    step.value = 'backup-codes';
+    return true;
+  }
+
+  async function verify(code: string, options: LtTwoFactorVerifyOptions = {}): Promise<boolean> {
+    const params = { code: code.trim(), trustDevice: options.trustDevice ?? false };
+    const data = await request(() => (options.backupCode ? client.verifyBackupCode(params) : client.verifyTotp(params)), t('lt.auth.twoFactorInvalidCode', 'Ungültiger Code'));
+    return data !== null;
+  }
+
+  async function regenerateBackupCodes(password: string): Promise<boolean> {
+    const data = await request<{ backupCodes?: string[] }>(
+      () => client.generateBackupCodes({ password }),
+      t('lt.auth.twoFactorBackupCodesFailed', 'Backup-Codes konnten nicht erstellt werden'),
+    );
+    if (!data?.backupCodes) {
+      return false;
+    }
+    backupCodes.value = data.backupCodes;
+    step.value = 'backup-codes';
+    return true;
+  }
+
+  async function disable(password: string): Promise<boolean> {
+    const data = await request(() => client.disable({ password }), t('lt.auth.twoFactorDisableFailed', 'Zwei-Faktor-Authentifizierung konnte nicht deaktiviert werden'));
+    if (!data) {
+      return false;
+    }
+    setEnabled(false);
+    reset();
+    return true;
+  }
+
+  function confirmBackupCodes(): void {
+    backupCodes.value = [];
+    step.value = 'done';
+  }
+
+  function reset(): void {
+    backupCodes.value = [];
+    error.value = null;
+    step.value = 'idle';
+    totpUri.value = null;
+  }
+
+  return {
+    backupCodes: readonly(backupCodes),
+    confirmBackupCodes,
+    disable,
+    error: readonly(error),
+    isEnabled: is2FAEnabled,
+    loading: readonly(loading),
+    qrCodeSvg,
+    regenerateBackupCodes,
+    reset,
+    secret,
+    start,
+    step: readonly(step),
+    totpUri: readonly(totpUri),
+    verify,
+    verifySetup,
+  };
+}
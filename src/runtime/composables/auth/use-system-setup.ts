@@ -2,26 +2,38 @@
  * System Setup Composable
  *
  * Checks whether the system needs initial setup (first admin user creation)
- * and provides a method to perform that setup.
+ * and runs the setup wizard: the 'account' step of the first admin followed by
+ * the typed steps the backend sends with its status (organization name, SMTP
+ * settings, locale, …). A one-time setup token from the setup link keeps
+ * strangers from claiming a fresh instance.
+ * After the setup the new admin is signed in via `useLtAuth().signIn.email`.
  *
- * Uses useState for SSR-compatible state management.
+ * Uses useState for SSR-compatible state management; the wizard values
+ * (including the password) are dropped after a successful setup.
  *
  * URL handling is delegated to {@link buildLtApiUrl} (SSR / proxy / direct).
  */
 
-import type { ComputedRef } from 'vue';
+import type { LtSystemSetupData, LtSystemSetupInitOptions, LtSystemSetupInitParams, LtSystemSetupStatus, LtSystemSetupStep, UseSystemSetupReturn } from '../../types';
 
-import { computed, useState } from '#imports';
+import { computed, readonly, ref, useRuntimeConfig, useState } from '#imports';
 import { ltSha256 } from '../../utils/crypto';
-import { buildLtApiUrl } from '../../lib/auth-state';
-
-export interface UseSystemSetupReturn {
-  /** Whether the system needs initial setup (null = not checked yet) */
-  needsSetup: ComputedRef<boolean | null>;
-  /** Check setup status from the backend */
-  checkSetupStatus: () => Promise<boolean>;
-  /** Initialize the system with the first admin user */
-  initSetup: (params: { email: string; password: string; name: string }) => Promise<void>;
+import { buildLtApiUrl, getLtTenantHeaders } from '../../lib/auth-state';
+import { isLtNetworkError, isLtOnline, trackLtConnectivity, whenLtOnline } from '../../lib/connectivity';
+import { useLtTranslation } from '../../lib/translation';
+import { useLtAuth } from './use-lt-auth';
+
+export type { UseSystemSetupReturn } from '../../types';
+
+/** Id of the built-in step for the first admin account */
+const ACCOUNT_STEP_ID = 'account';
+
+/**
+ * Message of a failed `$fetch` (the backend's `message`, if any)
+ */
+function fetchErrorMessage(error: unknown): null | string {
+  const message = (error as { data?: { message?: unknown } })?.data?.message;
+  return typeof message === 'string' && message ? message : null;
 }
 
 /**
@@ -29,29 +41,107 @@ export interface UseSystemSetupReturn {
  *
  * @example
  * ```typescript
+ * // Single form
  * const { needsSetup, checkSetupStatus, initSetup } = useSystemSetup();
  *
  * await checkSetupStatus();
  * if (needsSetup.value) {
  *   await initSetup({ email: 'admin@example.com', password: 'secret', name: 'Admin' });
  * }
+ *
+ * // Wizard: render `currentStep.fields`, bound to `data[currentStep.id][field.name]`
+ * const { back, currentStep, data, error, isLastStep, next } = useSystemSetup();
+ * async function onNext() {
+ *   const finishing = isLastStep.value; // the last step submits the setup
+ *   if ((await next()) && finishing) await navigateTo('/');
+ * }
  * ```
  */
 export function useSystemSetup(): UseSystemSetupReturn {
+  const config = useRuntimeConfig().public?.ltExtensions?.auth?.systemSetup;
+  const autoSignIn: boolean = config?.autoSignIn ?? true;
+  const { signIn, user } = useLtAuth();
+  const t = useLtTranslation();
+
   const needsSetupState = useState<boolean | null>('lt-needs-setup', () => null);
+  const statusState = useState<Omit<LtSystemSetupStatus, 'needsSetup'>>('lt-system-setup-status', () => ({}));
+  const tokenState = useState<null | string>('lt-system-setup-token', () => null);
+  const stepIndexState = useState<number>('lt-system-setup-step', () => 0);
+  const data = useState<LtSystemSetupData>('lt-system-setup-data', () => ({}));
+  const loading = ref(false);
+  const error = ref<null | string>(null);
 
   const needsSetup = computed(() => needsSetupState.value);
+  const token = computed(() => tokenState.value);
+  const tokenRequired = computed(() => statusState.value.tokenRequired === true);
+
+  const steps = computed<LtSystemSetupStep[]>(() => {
+    const backendSteps = statusState.value.steps ?? [];
+    if (backendSteps.some((step) => step.id === ACCOUNT_STEP_ID)) {
+      return backendSteps;
+    }
+    const accountStep: LtSystemSetupStep = {
+      fields: [
+        { label: t('lt.auth.setupName', 'Name'), name: 'name', required: true, type: 'text' },
+        { label: t('lt.auth.setupEmail', 'E-Mail'), name: 'email', required: true, type: 'email' },
+        { label: t('lt.auth.setupPassword', 'Passwort'), name: 'password', required: true, type: 'password' },
+      ],
+      id: ACCOUNT_STEP_ID,
+      title: t('lt.auth.setupAccountTitle', 'Administrator-Konto'),
+    };
+    return [accountStep, ...backendSteps];
+  });
+
+  const stepIndex = computed(() => Math.min(stepIndexState.value, steps.value.length - 1));
+  const currentStep = computed(() => steps.value[stepIndex.value]!);
+  const isFirstStep = computed(() => stepIndex.value === 0);
+  const isLastStep = computed(() => stepIndex.value === steps.value.length - 1);
+
+  /**
+   * Add the values (with field defaults) of steps not seen yet
+   */
+  function ensureStepData(): void {
+    const missing = steps.value.filter((step) => !data.value[step.id]);
+    if (!missing.length) {
+      return;
+    }
+    const next = { ...data.value };
+    for (const step of missing) {
+      next[step.id] = Object.fromEntries(step.fields.filter((field) => field.default !== undefined).map((field) => [field.name, field.default]));
+    }
+    data.value = next;
+  }
+
+  ensureStepData();
+
+  function setToken(value: null | string): void {
+    tokenState.value = value || null;
+  }
 
   /**
    * Check if the system needs initial setup
+   *
+   * While offline the status stays unknown (`null`, no redirect) and is checked
+   * again once the connection returns.
    */
   async function checkSetupStatus(): Promise<boolean> {
+    if (!isLtOnline()) {
+      whenLtOnline(checkSetupStatus);
+      return false;
+    }
     try {
       const url = buildLtApiUrl('/system-setup/status');
-      const data = await $fetch<{ needsSetup: boolean }>(url);
-      needsSetupState.value = data.needsSetup;
-      return data.needsSetup;
-    } catch {
+      const status = await trackLtConnectivity($fetch<LtSystemSetupStatus>(url, { headers: getLtTenantHeaders() }));
+      statusState.value = { steps: status.steps, tokenRequired: status.tokenRequired };
+      ensureStepData();
+      needsSetupState.value = status.needsSetup;
+      return status.needsSetup;
+    } catch (error) {
+      // No answer at all says nothing about the backend
+      if (isLtNetworkError(error)) {
+        whenLtOnline(checkSetupStatus);
+        return false;
+      }
       // Error or 404 means the endpoint doesn't exist (backward compatibility)
       needsSetupState.value = false;
       return false;
@@ -60,26 +150,136 @@ export function useSystemSetup(): UseSystemSetupReturn {
 
   /**
    * Initialize the system with the first admin user
+   *
+   * Throws when the backend refuses the setup. Resolves whether the new admin
+   * is signed in — a failed sign-in only means the admin signs in manually.
    */
-  async function initSetup(params: { email: string; password: string; name: string }): Promise<void> {
+  async function initSetup(params: LtSystemSetupInitParams, options: LtSystemSetupInitOptions = {}): Promise<boolean> {
     const url = buildLtApiUrl('/system-setup/init');
     const hashedPassword = await ltSha256(params.password);
+    const setupToken = params.token === undefined ? tokenState.value : params.token;
 
     await $fetch(url, {
+      headers: getLtTenantHeaders(),
       method: 'POST',
       body: {
         email: params.email,
         password: hashedPassword,
         name: params.name,
+        ...(params.data && Object.keys(params.data).length ? { data: params.data } : {}),
+        ...(setupToken ? { token: setupToken } : {}),
       },
     });
 
     needsSetupState.value = false;
+    tokenState.value = null;
+
+    if (!(options.signIn ?? autoSignIn)) {
+      return false;
+    }
+    await signIn.email({ email: params.email, password: params.password }).catch(() => {});
+    return !!user.value;
+  }
+
+  /**
+   * Check the required fields of a step and, for steps with `validate`, let
+   * the backend check the values (e.g. send a test mail)
+   */
+  async function validateStep(stepId: string = currentStep.value.id): Promise<boolean> {
+    const step = steps.value.find((entry) => entry.id === stepId);
+    if (!step) {
+      return false;
+    }
+    const values = data.value[step.id] ?? {};
+    error.value = null;
+
+    const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+    if (step.fields.some((field) => field.required && isEmpty(values[field.name]))) {
+      error.value = t('lt.auth.setupFieldRequired', 'Bitte alle Pflichtfelder ausfüllen');
+      return false;
+    }
+    if (!step.validate) {
+      return true;
+    }
+
+    loading.value = true;
+    try {
+      await $fetch(buildLtApiUrl('/system-setup/validate'), {
+        body: { data: values, step: step.id, ...(tokenState.value ? { token: tokenState.value } : {}) },
+        headers: getLtTenantHeaders(),
+        method: 'POST',
+      });
+      return true;
+    } catch (err) {
+      error.value = fetchErrorMessage(err) || t('lt.auth.setupStepFailed', 'Die Angaben konnten nicht geprüft werden');
+      return false;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  /**
+   * Run the setup with the wizard values
+   */
+  async function submit(options?: LtSystemSetupInitOptions): Promise<boolean> {
+    error.value = null;
+    if (tokenRequired.value && !tokenState.value) {
+      error.value = t('lt.auth.setupTokenRequired', 'Für die Einrichtung ist ein Einrichtungs-Token nötig');
+      return false;
+    }
+    const { [ACCOUNT_STEP_ID]: account = {}, ...stepData } = data.value;
+
+    loading.value = true;
+    try {
+      await initSetup({ data: stepData, email: String(account.email ?? ''), name: String(account.name ?? ''), password: String(account.password ?? '') }, options);
+    } catch (err) {
+      error.value = fetchErrorMessage(err) || t('lt.auth.setupFailed', 'Die Einrichtung ist fehlgeschlagen');
+      return false;
+    } finally {
+      loading.value = false;
+    }
+
+    // Forget the values (and with them the password)
+    data.value = {};
+    stepIndexState.value = 0;
+    ensureStepData();
+    return true;
+  }
+
+  async function next(options?: LtSystemSetupInitOptions): Promise<boolean> {
+    if (!(await validateStep())) {
+      return false;
+    }
+    if (isLastStep.value) {
+      return submit(options);
+    }
+    stepIndexState.value = stepIndex.value + 1;
+    return true;
+  }
+
+  function back(): void {
+    error.value = null;
+    stepIndexState.value = Math.max(0, stepIndex.value - 1);
   }
 
   return {
-    needsSetup,
+    back,
     checkSetupStatus,
+    currentStep,
+    data,
+    error: readonly(error),
     initSetup,
+    isFirstStep,
+    isLastStep,
+    loading: readonly(loading),
+    needsSetup,
+    next,
+    setToken,
+    stepIndex,
+    steps,
+    submit,
+    token,
+    tokenRequired,
+    validateStep,
   };
 }
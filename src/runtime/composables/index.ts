@@ -5,7 +5,17 @@
 // from lib/index.ts to avoid duplicate imports. Use those directly.
 
 // Auth Composables
+export { useLtAbility } from './auth/use-lt-ability';
+export { useLtAdminUsers } from './auth/use-lt-admin-users';
 export { useLtAuth } from './auth/use-lt-auth';
+export { useLtEmailVerification } from './auth/use-lt-email-verification';
+export { useLtIdleTimeout } from './auth/use-lt-idle-timeout';
+export { useLtPasskeys } from './auth/use-lt-passkeys';
+export { useLtPasswordPolicy } from './auth/use-lt-password-policy';
+export { useLtPasswordReset } from './auth/use-lt-password-reset';
+export { useLtSessions } from './auth/use-lt-sessions';
+export { useLtTenant } from './auth/use-lt-tenant';
+export { useLtTwoFactor } from './auth/use-lt-two-factor';
 export { useSystemSetup } from './auth/use-system-setup';
 export { useLtAuthClient, ltAuthClient } from './use-lt-auth-client';
 
@@ -14,6 +24,7 @@ export { useLtTusUpload } from './use-lt-tus-upload';
 export { useLtFile } from './use-lt-file';
 
 // Utility Composables
+export { useLtConnectivity } from './use-lt-connectivity';
 export { useLtShare, type UseLtShareReturn } from './use-lt-share';
 
 // Error Translation Composables
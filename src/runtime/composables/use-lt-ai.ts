@@ -10,6 +10,7 @@ import { readonly, ref } from '#imports';
 import type { LtAiPromptRunInput, LtAiResponse, LtAiStreamHandlers, UseLtAiReturn } from '../types/ai';
 import { buildLtAiUrl, ltAiRequest, ltAiResponseError, parseLtAiSseStream } from '../lib/ai';
 import { ltAuthFetch } from '../lib/auth-state';
+import { trackLtConnectivity } from '../lib/connectivity';
 
 export function useLtAi(): UseLtAiReturn {
   const loading = ref(false);
@@ -43,12 +44,14 @@ export function useLtAi(): UseLtAiReturn {
     error.value = null;
     let final: LtAiResponse | undefined;
     try {
-      const response = await ltAuthFetch(buildLtAiUrl('/stream'), {
-        body: JSON.stringify(input),
-        headers: { Accept: 'text/event-stream', 'Content-Type': 'application/json' },
-        method: 'POST',
-        signal: options?.signal,
-      });
+      const response = await trackLtConnectivity(
+        ltAuthFetch(buildLtAiUrl('/stream'), {
+          body: JSON.stringify(input),
+          headers: { Accept: 'text/event-stream', 'Content-Type': 'application/json' },
+          method: 'POST',
+          signal: options?.signal,
+        }),
+      );
       if (!response.ok) {
         throw await ltAiResponseError(response);
       }
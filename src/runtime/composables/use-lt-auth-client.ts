@@ -75,6 +75,8 @@ export function useLtAuthClient(): LtAuthClient {
       enableAdmin: config.enableAdmin,
       enableTwoFactor: config.enableTwoFactor,
       enablePasskey: config.enablePasskey,
+      enableMagicLink: config.enableMagicLink,
+      enableEmailOtp: config.enableEmailOtp,
     });
   } catch {
     // Fallback: create with defaults if RuntimeConfig not available
@@ -0,0 +1,43 @@
+/**
+ * Connectivity Composable
+ *
+ * Reactive online state of the app: `navigator.onLine` combined with requests
+ * that failed at the network level (captive portal, API down, VPN drop). While
+ * offline, auth revalidation and the system setup check are deferred instead of
+ * signing the user out; once the API answers again, the deferred work runs and
+ * the `lt:connectivity:restored` hook is called.
+ *
+ * All calls share the same state (see `lib/connectivity`); the `connectivity`
+ * plugin keeps it in sync with the browser's online / offline events.
+ */
+
+import type { UseLtConnectivityReturn } from '../types';
+
+import { checkLtConnectivity, ltIsOnline, ltOfflineSince, whenLtOnline } from '../lib/connectivity';
+
+/**
+ * Composable for the online state
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const { isOnline, whenOnline } = useLtConnectivity();
+ *
+ * function save() {
+ *   whenOnline(() => saveDraft()); // runs now, or once the connection is back
+ * }
+ * </script>
+ *
+ * <template>
+ *   <UAlert v-if="!isOnline" title="You are offline — changes are saved once the connection is back" />
+ * </template>
+ * ```
+ */
+export function useLtConnectivity(): UseLtConnectivityReturn {
+  return {
+    check: checkLtConnectivity,
+    isOnline: ltIsOnline,
+    offlineSince: ltOfflineSince,
+    whenOnline: whenLtOnline,
+  };
+}
@@ -13,7 +13,7 @@
 import type { LtErrorTranslationResponse, LtParsedError, UseLtErrorTranslationReturn } from '../types/error';
 
 import { computed, ref, useState, useNuxtApp, useRuntimeConfig } from '#imports';
-import { buildLtApiUrl } from '../lib/auth-state';
+import { buildLtApiUrl, getLtTenantHeaders } from '../lib/auth-state';
 
 // Regex to parse #CODE: Message format
 const ERROR_CODE_REGEX = /^#([A-Z_]+_\d+):\s*(.+)$/;
@@ -114,7 +114,7 @@ export function useLtErrorTranslation(): UseLtErrorTranslationReturn {
 
     try {
       const url = buildErrorUrl(targetLocale);
-      const response = await $fetch<LtErrorTranslationResponse>(url);
+      const response = await $fetch<LtErrorTranslationResponse>(url, { headers: getLtTenantHeaders() });
 
       if (response?.errors) {
         translations.value = {
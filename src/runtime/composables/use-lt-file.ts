@@ -10,6 +10,7 @@
 import type { LtFileInfo, UseLtFileReturn } from '../types';
 
 import { useRuntimeConfig } from '#imports';
+import { getLtTenantHeaders } from '../lib/auth-state';
 
 /**
  * File utilities composable
@@ -65,6 +66,7 @@ export function useLtFile(): UseLtFileReturn {
       const apiBase = getFileApiBase();
       const response = await $fetch<LtFileInfo>(`${apiBase}/info/${id}`, {
         credentials: 'include',
+        headers: getLtTenantHeaders(),
         method: 'GET',
       });
       return response;
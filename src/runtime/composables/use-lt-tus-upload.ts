@@ -9,6 +9,8 @@
 
 import { computed, ref, useRuntimeConfig } from '#imports';
 import type { LtUploadItem, LtUploadOptions, LtUploadProgress, UseLtTusUploadReturn } from '../types';
+import { getLtCsrfConfig, getLtCsrfToken, getLtTenantHeaders, isLtCsrfError, isLtMutatingMethod, refreshLtCsrfToken } from '../lib/auth-state';
+import { isLtOnline, reportLtRequestResult, whenLtOnline } from '../lib/connectivity';
 
 // Type for tus.Upload - import type only to avoid ESM issues
 type TusUpload = import('tus-js-client').Upload;
@@ -146,11 +148,37 @@ export function useLtTusUpload(defaultOptions: LtUploadOptions = {}): UseLtTusUp
         ...options.metadata,
         ...item.metadata,
       },
-      onBeforeRequest: (req) => {
+      onBeforeRequest: async (req) => {
         const xhr = req.getUnderlyingObject() as XMLHttpRequest;
         xhr.withCredentials = true;
+
+        // Active tenant (see getLtTenantHeaders) and CSRF token for POST / PATCH /
+        // DELETE — a header of `options.headers` wins for both
+        for (const [name, value] of Object.entries(getLtTenantHeaders())) {
+          if (!req.getHeader(name)) {
+            req.setHeader(name, value);
+          }
+        }
+        const { header } = getLtCsrfConfig();
+        if (isLtMutatingMethod(req.getMethod()) && !req.getHeader(header)) {
+          const csrfToken = await getLtCsrfToken();
+          if (csrfToken) {
+            req.setHeader(header, csrfToken);
+          }
+        }
       },
       onError: (error) => {
+        reportLtRequestResult(error);
+        // Offline: keep the upload and resume it once the connection is back
+        if (!isLtOnline()) {
+          updateItem(item.id, { status: 'paused' });
+          whenLtOnline(() => {
+            if (uploadItems.value.get(item.id)?.status === 'paused') {
+              startUpload(item.id);
+            }
+          });
+          return;
+        }
         updateItem(item.id, {
           error: error.message,
           status: 'error',
@@ -171,7 +199,13 @@ export function useLtTusUpload(defaultOptions: LtUploadOptions = {}): UseLtTusUp
       },
 
       onShouldRetry: (err) => {
-        const status = (err as { originalResponse?: { getStatus?: () => number } }).originalResponse?.getStatus?.();
+        const response = (err as { originalResponse?: { getBody?: () => string; getStatus?: () => number } }).originalResponse;
+        const status = response?.getStatus?.();
+        // Stale CSRF token: retry with a fresh one (the next request waits for it)
+        if (status && isLtCsrfError(status, response?.getBody?.())) {
+          refreshLtCsrfToken().catch(() => {});
+          return true;
+        }
         // Don't retry on 4xx errors (except 429 Too Many Requests)
         if (status && status >= 400 && status < 500 && status !== 429) {
           return false;
@@ -0,0 +1,97 @@
+/**
+ * `v-lt-can` directive: shows an element only when the user may do an action
+ *
+ * ```vue
+ * <UButton v-lt-can="['update', 'Document', document]">Edit</UButton>
+ * <UButton v-lt-can.disable="['delete', 'Document', document]">Delete</UButton>
+ * ```
+ *
+ * Without permission the element is hidden (`display: none`, like `v-show`),
+ * or disabled with the `.disable` modifier. The check re-runs when the user,
+ * their roles or the bound object change. UI gate only (see `useLtAbility`).
+ */
+
+import type { Directive, DirectiveBinding, ShallowRef, VNode } from 'vue';
+import type { LtCanBindingValue, UseLtAbilityReturn } from '../types';
+
+import { shallowRef, watchEffect } from '#imports';
+
+interface LtCanElementState {
+  binding: ShallowRef<DirectiveBinding<LtCanBindingValue>>;
+  /** Inline `display` before the directive hid the element */
+  display: string;
+  /** `disabled` set by the template itself (e.g. `:disabled="saving"`), kept by `.disable` */
+  ownDisabled: boolean;
+  stop: () => void;
+}
+
+/**
+ * Whether the template disables the element: its `disabled` prop, or the
+ * attribute the element was mounted with
+ */
+function isDisabledByTemplate(el: HTMLElement, vnode: VNode): boolean {
+  const props = vnode.props as null | Record<string, unknown>;
+  if (props && 'disabled' in props) {
+    return props.disabled !== false && props.disabled !== null && props.disabled !== undefined;
+  }
+  return el.hasAttribute('disabled');
+}
+
+/**
+ * Create the `v-lt-can` directive
+ *
+ * @param getAbility - Resolves the ability of the current app (called on first use)
+ */
+export function createLtCanDirective(getAbility: () => UseLtAbilityReturn): Directive<HTMLElement, LtCanBindingValue> {
+  const states = new WeakMap<HTMLElement, LtCanElementState>();
+
+  function isAllowed(binding: DirectiveBinding<LtCanBindingValue>): boolean {
+    const [action, subject, object] = binding.value ?? [];
+    return !!action && !!subject && getAbility().can(action, subject, object);
+  }
+
+  function apply(el: HTMLElement, binding: DirectiveBinding<LtCanBindingValue>, state: LtCanElementState): void {
+    const allowed = isAllowed(binding);
+    if (binding.modifiers.disable) {
+      // Never lift a `disabled` of the template, only the one added here
+      el.toggleAttribute('disabled', !allowed || state.ownDisabled);
+      if (allowed) {
+        el.removeAttribute('aria-disabled');
+      } else {
+        el.setAttribute('aria-disabled', 'true');
+      }
+      return;
+    }
+    el.style.display = allowed ? state.display : 'none';
+  }
+
+  return {
+    beforeMount(el, binding, vnode) {
+      const state: LtCanElementState = {
+        binding: shallowRef(binding),
+        display: el.style.display === 'none' ? '' : el.style.display,
+        ownDisabled: isDisabledByTemplate(el, vnode),
+        stop: () => {},
+      };
+      state.stop = watchEffect(() => apply(el, state.binding.value, state));
+      states.set(el, state);
+    },
+    beforeUnmount(el) {
+      states.get(el)?.stop();
+      states.delete(el);
+    },
+    getSSRProps(binding) {
+      if (isAllowed(binding)) {
+        return {};
+      }
+      return binding.modifiers.disable ? { 'aria-disabled': 'true', disabled: true } : { style: { display: 'none' } };
+    },
+    updated(el, binding, vnode) {
+      const state = states.get(el);
+      if (state) {
+        state.ownDisabled = isDisabledByTemplate(el, vnode);
+        state.binding.value = binding;
+      }
+    },
+  };
+}
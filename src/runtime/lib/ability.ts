@@ -0,0 +1,137 @@
+/**
+ * Ability registry and rule evaluation behind `useLtAbility`, `v-lt-can` and `<LtCan>`.
+ *
+ * Apps describe what a user may do as `can` / `cannot` rules (action, subject
+ * type, optional condition on the object), derived from the `LtUser`. Like
+ * `isAdmin`, the result is a UI gate only — the backend enforces the rights.
+ */
+
+import type { LtAbilityBuilder, LtAbilityCondition, LtAbilityContext, LtAbilityDefinition, LtAbilityRule } from '../types';
+
+import { shallowRef } from '#imports';
+
+/** Action matching every action */
+export const LT_ABILITY_ANY_ACTION = 'manage';
+
+/** Subject matching every subject */
+export const LT_ABILITY_ANY_SUBJECT = 'all';
+
+/** A registered definition and the key it replaces on re-registration */
+interface AbilityEntry {
+  definition: LtAbilityDefinition;
+  key?: string;
+}
+
+/** Definitions registered via {@link registerLtAbilities}; replaced on change so dependent rules recompute. */
+const abilityDefinitions = shallowRef<AbilityEntry[]>([]);
+
+/**
+ * Register an ability definition. Definitions add up (e.g. one per feature
+ * module); each runs again whenever the user or their roles change.
+ *
+ * Registering the same definition, or another one under the same `key`,
+ * replaces the previous entry in place. The registry lives as long as the
+ * module, so on the server — where plugins run for every request — pass a
+ * `key` to keep a per-request registration from piling up.
+ *
+ * @param definition - Adds the `can` / `cannot` rules for a user
+ * @param key - Identifies the definition across registrations (e.g. the feature name)
+ * @returns A function removing the definition again
+ *
+ * @example
+ * ```typescript
+ * // plugins/abilities.ts
+ * export default defineNuxtPlugin(() => {
+ *   registerLtAbilities(({ can }, { hasRole, user }) => {
+ *     can('read', 'Document');
+ *     if (user) can('update', 'Document', (doc: Document) => doc.ownerId === user.id);
+ *     if (hasRole('admin')) can('manage', 'all');
+ *   }, 'documents');
+ * });
+ * ```
+ */
+export function registerLtAbilities(definition: LtAbilityDefinition, key?: string): () => void {
+  const entry: AbilityEntry = { definition, key };
+  const entries = abilityDefinitions.value;
+  const index = entries.findIndex((existing) => existing.definition === definition || (key !== undefined && existing.key === key));
+  abilityDefinitions.value = index === -1 ? [...entries, entry] : entries.map((existing, position) => (position === index ? entry : existing));
+  return () => {
+    abilityDefinitions.value = abilityDefinitions.value.filter((existing) => existing !== entry);
+  };
+}
+
+/**
+ * Remove every ability definition.
+ * Useful for testing or resetting state.
+ */
+export function clearLtAbilities(): void {
+  abilityDefinitions.value = [];
+}
+
+/**
+ * Rules of all registered definitions for `context`, in definition order.
+ *
+ * Reactive: read inside a `computed`, it recomputes when definitions are
+ * registered or removed. A throwing definition is logged and contributes no
+ * rules (nothing is allowed by accident).
+ */
+export function buildLtAbilityRules(context: LtAbilityContext): LtAbilityRule[] {
+  const rules: LtAbilityRule[] = [];
+
+  function add(inverted: boolean, action: string | string[], subject: string | string[], condition?: LtAbilityCondition): void {
+    for (const ruleAction of Array.isArray(action) ? action : [action]) {
+      for (const ruleSubject of Array.isArray(subject) ? subject : [subject]) {
+        rules.push({ action: ruleAction, condition, inverted, subject: ruleSubject });
+      }
+    }
+  }
+
+  const builder: LtAbilityBuilder = {
+    can: (action, subject, condition) => add(false, action, subject, condition),
+    cannot: (action, subject, condition) => add(true, action, subject, condition),
+  };
+
+  for (const { definition } of abilityDefinitions.value) {
+    const start = rules.length;
+    try {
+      definition(builder, context);
+    } catch (error) {
+      console.error('[LtAbility] Ability definition failed:', error);
+      rules.splice(start);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Decide `action` on `subject` (optionally for `object`) against `rules`
+ *
+ * The last matching rule wins, nothing matching means forbidden. Without
+ * `object`, a conditional `can` counts ("may update some documents") while a
+ * conditional `cannot` does not forbid the whole subject. A throwing condition
+ * fails closed.
+ */
+export function ltCheckAbility(rules: readonly LtAbilityRule[], action: string, subject: string, object?: unknown): boolean {
+  for (let index = rules.length - 1; index >= 0; index--) {
+    const rule = rules[index]!;
+    if (rule.action !== action && rule.action !== LT_ABILITY_ANY_ACTION) continue;
+    if (rule.subject !== subject && rule.subject !== LT_ABILITY_ANY_SUBJECT) continue;
+
+    if (rule.condition) {
+      if (object === undefined) {
+        if (rule.inverted) continue;
+        return true;
+      }
+      let matches: boolean;
+      try {
+        matches = rule.condition(object);
+      } catch {
+        // Fail closed: a condition that cannot be evaluated never grants, always forbids
+        matches = rule.inverted;
+      }
+      if (!matches) continue;
+    }
+    return !rule.inverted;
+  }
+  return false;
+}
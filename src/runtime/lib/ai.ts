@@ -11,6 +11,7 @@ import { useRuntimeConfig } from '#imports';
 
 import type { LtAiStreamEvent } from '../types/ai';
 import { buildLtApiUrl, ltAuthFetch } from './auth-state';
+import { trackLtConnectivity } from './connectivity';
 
 /** Hard cap on an SSE line buffer (1 MiB). Bails out on a malformed stream that never emits `\n`. */
 const LT_AI_SSE_LINE_LIMIT = 1024 * 1024;
@@ -73,7 +74,7 @@ export async function ltAiRequest<T>(method: string, path: string, body?: unknow
   } else {
     init.headers = { Accept: 'application/json' };
   }
-  const response = await ltAuthFetch(buildLtAiUrl(path), init);
+  const response = await trackLtConnectivity(ltAuthFetch(buildLtAiUrl(path), init));
   if (!response.ok) {
     throw await ltAiResponseError(response);
   }
@@ -9,7 +9,7 @@
  */
 
 import { passkeyClient } from '@better-auth/passkey/client';
-import { adminClient, twoFactorClient } from 'better-auth/client/plugins';
+import { adminClient, emailOTPClient, magicLinkClient, twoFactorClient } from 'better-auth/client/plugins';
 import { createAuthClient } from 'better-auth/vue';
 
 import { navigateTo } from '#imports';
@@ -17,6 +17,7 @@ import type { LtAuthClientConfig } from '../types';
 
 import { ltSha256 } from '../utils/crypto';
 import { createLtAuthFetch, isLocalDevApiProxy } from './auth-state';
+import { trackLtConnectivity } from './connectivity';
 
 // =============================================================================
 // Plugin Registry & Singleton Management
@@ -180,6 +181,8 @@ export function createLtAuthClient(config: LtAuthClientConfig = {}) {
     enableAdmin = true,
     enableTwoFactor = true,
     enablePasskey = true,
+    enableMagicLink = false,
+    enableEmailOtp = false,
     plugins: externalPlugins = [],
   } = config;
 
@@ -205,6 +208,18 @@ export function createLtAuthClient(config: LtAuthClientConfig = {}) {
     plugins.push(passkeyClient());
   }
 
+  // Skip built-in passwordless plugins a project already registers itself
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const isRegistered = (id: string) => [...externalPlugins, ..._ltAuthPluginRegistry].some((plugin: any) => plugin?.id === id);
+
+  if (enableMagicLink && !isRegistered('magic-link')) {
+    plugins.push(magicLinkClient());
+  }
+
+  if (enableEmailOtp && !isRegistered('email-otp')) {
+    plugins.push(emailOTPClient());
+  }
+
   // Add external plugins from config parameter
   plugins.push(...externalPlugins);
 
@@ -215,12 +230,13 @@ export function createLtAuthClient(config: LtAuthClientConfig = {}) {
   const authFetch = createLtAuthFetch(basePath.replace('/api', ''));
 
   // Create base client with configuration
-  // Uses authFetch for automatic Cookie/JWT dual-mode authentication
+  // Uses authFetch for automatic Cookie/JWT dual-mode authentication; failed
+  // requests feed the shared connectivity state (see lib/connectivity)
   const baseClient = createAuthClient({
     basePath,
     baseURL,
     fetchOptions: {
-      customFetchImpl: authFetch,
+      customFetchImpl: (input, init) => trackLtConnectivity(authFetch(input, init)),
     },
     plugins,
   });
@@ -240,6 +256,14 @@ export function createLtAuthClient(config: LtAuthClientConfig = {}) {
     $fetch: baseClient.$fetch,
     $store: baseClient.$store,
     requestPasswordReset: baseClient.requestPasswordReset,
+    getSession: baseClient.getSession,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    emailOtp: (baseClient as any).emailOtp,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    magicLink: (baseClient as any).magicLink,
+    linkSocial: baseClient.linkSocial,
+    listAccounts: baseClient.listAccounts,
+    unlinkAccount: baseClient.unlinkAccount,
 
     /**
      * Change password for an authenticated user (both passwords are hashed)
@@ -276,6 +300,23 @@ export function createLtAuthClient(config: LtAuthClientConfig = {}) {
        */
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       passkey: (baseClient.signIn as any).passkey,
+      /**
+       * Sign in with an OAuth provider (pass through to base client)
+       * @see https://www.better-auth.com/docs/concepts/oauth
+       */
+      social: baseClient.signIn.social,
+      /**
+       * Sign in with an email OTP (pass through to base client - provided by emailOTPClient plugin)
+       * @see https://www.better-auth.com/docs/plugins/email-otp
+       */
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      emailOtp: (baseClient.signIn as any).emailOtp,
+      /**
+       * Send a magic link (pass through to base client - provided by magicLinkClient plugin)
+       * @see https://www.better-auth.com/docs/plugins/magic-link
+       */
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      magicLink: (baseClient.signIn as any).magicLink,
     },
 
     // Explicitly pass through signOut (not captured by spread operator)
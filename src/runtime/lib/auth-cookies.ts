@@ -0,0 +1,145 @@
+/**
+ * Auth cookie names and the auth-state cookie parser
+ *
+ * Free of Vue / Nuxt-app imports on purpose: the client (`auth-state.ts`) and
+ * the Nitro server utils (`server/utils/lt-auth.ts`) share this module, and
+ * the server bundle cannot resolve `useCookie`, `ref`, `useNuxtApp` & co.
+ * Everything here takes the (public) runtime config as an argument instead of
+ * reading it.
+ */
+
+import type { LtAuthState } from '../types';
+
+// =============================================================================
+// Cookie Name Resolution
+// =============================================================================
+
+/** Default name of the auth-state cookie. Used when the module config has not been resolved yet. */
+export const LT_AUTH_STATE_COOKIE_DEFAULT = 'lt-auth-state';
+/** Default name of the JWT-token cookie. Used when the module config has not been resolved yet. */
+export const LT_JWT_TOKEN_COOKIE_DEFAULT = 'lt-jwt-token';
+/** Default name of the active-tenant cookie (see {@link getLtTenantConfig}). */
+export const LT_TENANT_COOKIE_DEFAULT = 'lt-tenant-id';
+/** Default request header carrying the active tenant id. */
+export const LT_TENANT_HEADER_DEFAULT = 'X-Tenant-Id';
+/** Default name of the CSRF cookie (see {@link getLtCsrfConfig}). */
+export const LT_CSRF_COOKIE_DEFAULT = 'csrf-token';
+/** Default request header carrying the CSRF token. */
+export const LT_CSRF_HEADER_DEFAULT = 'X-CSRF-Token';
+
+/**
+ * Sanitise a raw prefix into a valid cookie-name token. Only RFC 6265
+ * token characters survive (`[A-Za-z0-9._-]`); surrounding whitespace and any
+ * illegal character (space, `;`, `=`, …) are stripped so a typo can never
+ * produce a malformed `Set-Cookie` name. Returns `''` for non-strings / empties.
+ */
+function sanitizeCookiePrefix(raw: unknown): string {
+  if (typeof raw !== 'string') {
+    return '';
+  }
+  return raw.trim().replace(/[^A-Za-z0-9._-]/g, '');
+}
+
+/**
+ * Resolve the cookie prefix that drives the auth cookie names.
+ *
+ * A single, dedicated, OPT-IN knob with a safe default:
+ *   - **`cookiePrefix`** (`NUXT_PUBLIC_COOKIE_PREFIX` →
+ *     `runtimeConfig.public.cookiePrefix`) → `<prefix>-auth-state` /
+ *     `<prefix>-jwt-token`. Lets a project run with its own cookie namespace —
+ *     e.g. several lenne.tech apps on a shared host during development, where
+ *     cookies collide by host (not port) and would otherwise read each other's
+ *     `lt-auth-state` (a "ghost" user from the other project).
+ *   - otherwise `''` → the default `lt-auth-state` / `lt-jwt-token`.
+ *
+ * `storagePrefix` deliberately does NOT influence the cookie name. It is a
+ * localStorage-namespacing convention; coupling it to cookies would silently
+ * rename auth cookies on a mere upgrade (logging every user out, bouncing valid
+ * sessions in custom middleware that reads `lt-auth-state` directly) and force
+ * frontend/backend to be deployed in lockstep. Cookie naming is therefore
+ * controlled ONLY by this explicit, opt-in knob → fully backward compatible.
+ *
+ * IMPORTANT: when you set `cookiePrefix`, mirror it on the backend
+ * (`COOKIE_PREFIX` env — see nest-server `resolveBetterAuthCookiePrefix`) so
+ * both sides always agree on the cookie name.
+ */
+export function resolveLtCookiePrefix(pub: null | Record<string, any> | undefined): string {
+  return sanitizeCookiePrefix(pub?.cookiePrefix);
+}
+
+/**
+ * Resolve the configured auth cookie names from the public runtime config.
+ *
+ * **Per-project isolation (collision avoidance).** Cookies are scoped by
+ * host+path, NOT by port. Two lenne.tech apps sharing a host during development
+ * (e.g. both on `localhost`) would otherwise read each other's `lt-auth-state`
+ * cookie — surfacing a "ghost" user from the other project. The cookie name is
+ * therefore derived from a per-project prefix (see {@link resolveLtCookiePrefix}).
+ *
+ * Resolution order:
+ *   1. an explicitly configured `cookieNames.state/token` (exact name) always wins;
+ *   2. otherwise `<prefix>-auth-state` / `<prefix>-jwt-token` where `prefix`
+ *      comes from {@link resolveLtCookiePrefix} (the opt-in `cookiePrefix`);
+ *   3. otherwise fall back to the legacy `lt-auth-state` / `lt-jwt-token`
+ *      (backward compatible — no behaviour change for apps without a prefix).
+ */
+export function resolveLtAuthCookieNames(pub: null | Record<string, any> | undefined): { state: string; token: string } {
+  const configured = pub?.ltExtensions?.auth?.cookieNames;
+  const prefix = resolveLtCookiePrefix(pub);
+
+  // An explicit config value (anything other than the module default) wins;
+  // otherwise derive from the resolved prefix; otherwise keep the legacy name.
+  const state = configured?.state && configured.state !== LT_AUTH_STATE_COOKIE_DEFAULT ? configured.state : prefix ? `${prefix}-auth-state` : LT_AUTH_STATE_COOKIE_DEFAULT;
+  const token = configured?.token && configured.token !== LT_JWT_TOKEN_COOKIE_DEFAULT ? configured.token : prefix ? `${prefix}-jwt-token` : LT_JWT_TOKEN_COOKIE_DEFAULT;
+  return { state, token };
+}
+
+// =============================================================================
+// Auth State Cookie
+// =============================================================================
+
+/**
+ * Resolve the authoritative auth state from a raw `Cookie` header /
+ * `document.cookie` string, tolerating **multiple** auth-state cookies with the
+ * same name.
+ *
+ * A deployed setup can end up with TWO auth-state cookies in parallel — a
+ * host-only one (written by `useCookie` / `setUser`) and a domain-scoped one
+ * (e.g. set by a backend SAML callback with `Domain=<appHost>` so it is
+ * readable across `app` and `api.app`). They can disagree: one carries the
+ * signed-in user, the other a stale `{ user: null }` left behind by a partial
+ * clear. A naive single-value read (`useCookie`, or `document.cookie.find`)
+ * may pick the stale twin and wrongly report the user as logged out — which
+ * makes SSR auth guards bounce a perfectly valid session to the login page.
+ *
+ * This scans ALL matching entries and prefers the one that actually carries a
+ * `user`; only when none do does it return the (user-less) fallback state.
+ *
+ * SECURITY NOTE: preferring the user-bearing twin is intentional and required —
+ * preferring the `{ user: null }` twin is exactly what caused the random logout.
+ * `lt-auth-state` is a NON-authoritative client convenience cache for the app
+ * shell, NOT the session identifier (that is the httpOnly session cookie, e.g.
+ * `iam.session_token`). A forged/injected user-bearing cookie therefore yields
+ * at most UI spoofing ("looks logged in") — every real API/server call still
+ * authenticates against the httpOnly session and 401s. This trust boundary is
+ * unchanged by the duplicate-tolerant read; it only decides which twin wins.
+ */
+export function parseLtAuthStateCookie(cookieString: string, stateCookieName: string): LtAuthState | null {
+  const prefix = `${stateCookieName}=`;
+  let fallback: LtAuthState | null = null;
+  for (const entry of (cookieString || '').split('; ')) {
+    if (!entry.startsWith(prefix)) continue;
+    try {
+      const state = JSON.parse(decodeURIComponent(entry.slice(prefix.length))) as LtAuthState;
+      if (state?.user) {
+        return state;
+      }
+      if (state) {
+        fallback = state;
+      }
+    } catch {
+      // Skip malformed cookie entries
+    }
+  }
+  return fallback;
+}
@@ -0,0 +1,58 @@
+/**
+ * Auth lifecycle hooks on the Nuxt app (`lt:auth:*`, see {@link LtAuthHooks}).
+ *
+ * Called by `useLtAuth()` (login, logout, user updates, mode switches), the
+ * auth interceptor (session expired, forbidden) and the auth sync plugin (changes made
+ * in another tab, reason 'sync'). The connectivity layer calls
+ * `lt:connectivity:restored` through the same helper.
+ */
+
+import { useNuxtApp } from '#imports';
+import type { LtAuthChangeReason, LtAuthHooks, LtAuthState, LtAuthSyncEventType, LtConnectivityHooks } from '../types';
+
+type LtHooks = LtAuthHooks & LtConnectivityHooks;
+
+/**
+ * Call an `lt:auth:*` (or `lt:connectivity:*`) hook without waiting for its handlers.
+ *
+ * A failing handler is logged, never thrown into the auth flow. Outside a
+ * Nuxt context (tests, early boot) the call is skipped.
+ */
+export function callLtAuthHook<T extends keyof LtHooks>(name: T, payload: Parameters<LtHooks[T]>[0]): void {
+  let callHook: ((name: string, ...args: unknown[]) => unknown) | undefined;
+  try {
+    const nuxtApp = useNuxtApp() as unknown as { callHook?: (name: string, ...args: unknown[]) => unknown };
+    callHook = nuxtApp.callHook?.bind(nuxtApp);
+  } catch {
+    return;
+  }
+  Promise.resolve(callHook?.(name, payload)).catch((error: unknown) => {
+    console.error(`[LtAuth] ${name} hook failed:`, error);
+  });
+}
+
+/**
+ * Call the hook matching an auth state change classified as `type`
+ * (`login` → `lt:auth:login`, `logout` → `lt:auth:logout`, `user-update` →
+ * `lt:auth:user-updated`, `auth-mode-switch` → `lt:auth:mode-switched`).
+ */
+export function callLtAuthChangeHook(type: LtAuthSyncEventType | null, previous: LtAuthState | null, next: LtAuthState | null, reason: LtAuthChangeReason): void {
+  switch (type) {
+    case 'auth-mode-switch':
+      callLtAuthHook('lt:auth:mode-switched', { from: previous?.authMode ?? 'cookie', reason, to: next?.authMode ?? 'cookie' });
+      break;
+    case 'login':
+      if (next?.user) {
+        callLtAuthHook('lt:auth:login', { authMode: next.authMode, reason, user: next.user });
+      }
+      break;
+    case 'logout':
+      callLtAuthHook('lt:auth:logout', { reason, user: previous?.user ?? null });
+      break;
+    case 'user-update':
+      if (previous?.user && next?.user) {
+        callLtAuthHook('lt:auth:user-updated', { previous: previous.user, reason, user: next.user });
+      }
+      break;
+  }
+}
@@ -12,139 +12,81 @@
  * The state is persisted in cookies for SSR compatibility.
  */
 
-import { useRuntimeConfig } from '#imports';
-import type { LtAuthMode, LtAuthState } from '../types';
+import type { Ref } from 'vue';
+
+import { computed, ref, refreshCookie, useCookie, useRuntimeConfig } from '#imports';
+import type { LtAuthChangeReason, LtAuthMode, LtAuthState, LtAuthSyncEvent, LtAuthSyncEventType, LtTokenStorage } from '../types';
+import { ltDecodeJwtClaims } from '../utils/jwt';
+import {
+  LT_AUTH_STATE_COOKIE_DEFAULT,
+  LT_CSRF_COOKIE_DEFAULT,
+  LT_CSRF_HEADER_DEFAULT,
+  LT_JWT_TOKEN_COOKIE_DEFAULT,
+  LT_TENANT_COOKIE_DEFAULT,
+  LT_TENANT_HEADER_DEFAULT,
+  parseLtAuthStateCookie,
+  resolveLtAuthCookieNames,
+  resolveLtCookiePrefix,
+} from './auth-cookies';
+import { callLtAuthHook } from './auth-hooks';
+
+export {
+  LT_AUTH_STATE_COOKIE_DEFAULT,
+  LT_CSRF_COOKIE_DEFAULT,
+  LT_CSRF_HEADER_DEFAULT,
+  LT_JWT_TOKEN_COOKIE_DEFAULT,
+  LT_TENANT_COOKIE_DEFAULT,
+  LT_TENANT_HEADER_DEFAULT,
+  parseLtAuthStateCookie,
+  resolveLtAuthCookieNames,
+  resolveLtCookiePrefix,
+} from './auth-cookies';
 
 // =============================================================================
 // Cookie Name Resolution
 // =============================================================================
 
-/** Default name of the auth-state cookie. Used when the module config has not been resolved yet. */
-export const LT_AUTH_STATE_COOKIE_DEFAULT = 'lt-auth-state';
-/** Default name of the JWT-token cookie. Used when the module config has not been resolved yet. */
-export const LT_JWT_TOKEN_COOKIE_DEFAULT = 'lt-jwt-token';
-
-/**
- * Sanitise a raw prefix into a valid cookie-name token. Only RFC 6265
- * token characters survive (`[A-Za-z0-9._-]`); surrounding whitespace and any
- * illegal character (space, `;`, `=`, …) are stripped so a typo can never
- * produce a malformed `Set-Cookie` name. Returns `''` for non-strings / empties.
- */
-function sanitizeCookiePrefix(raw: unknown): string {
-  if (typeof raw !== 'string') {
-    return '';
-  }
-  return raw.trim().replace(/[^A-Za-z0-9._-]/g, '');
-}
-
 /**
- * Resolve the cookie prefix that drives the auth cookie names.
- *
- * A single, dedicated, OPT-IN knob with a safe default:
- *   - **`cookiePrefix`** (`NUXT_PUBLIC_COOKIE_PREFIX` →
- *     `runtimeConfig.public.cookiePrefix`) → `<prefix>-auth-state` /
- *     `<prefix>-jwt-token`. Lets a project run with its own cookie namespace —
- *     e.g. several lenne.tech apps on a shared host during development, where
- *     cookies collide by host (not port) and would otherwise read each other's
- *     `lt-auth-state` (a "ghost" user from the other project).
- *   - otherwise `''` → the default `lt-auth-state` / `lt-jwt-token`.
- *
- * `storagePrefix` deliberately does NOT influence the cookie name. It is a
- * localStorage-namespacing convention; coupling it to cookies would silently
- * rename auth cookies on a mere upgrade (logging every user out, bouncing valid
- * sessions in custom middleware that reads `lt-auth-state` directly) and force
- * frontend/backend to be deployed in lockstep. Cookie naming is therefore
- * controlled ONLY by this explicit, opt-in knob → fully backward compatible.
+ * Resolve the configured auth cookie names from runtime config.
  *
- * IMPORTANT: when you set `cookiePrefix`, mirror it on the backend
- * (`COOKIE_PREFIX` env — see nest-server `resolveBetterAuthCookiePrefix`) so
- * both sides always agree on the cookie name.
+ * See {@link resolveLtAuthCookieNames} for the resolution order. Falls back to
+ * the defaults so callers keep working even outside a Nuxt context (tests,
+ * edge SSR boots).
  */
-export function resolveLtCookiePrefix(pub: null | Record<string, any> | undefined): string {
-  return sanitizeCookiePrefix(pub?.cookiePrefix);
+export function getLtAuthCookieNames(): { state: string; token: string } {
+  try {
+    return resolveLtAuthCookieNames(useRuntimeConfig().public as Record<string, any>);
+  } catch {
+    return { state: LT_AUTH_STATE_COOKIE_DEFAULT, token: LT_JWT_TOKEN_COOKIE_DEFAULT };
+  }
 }
 
 /**
- * Resolve the configured auth cookie names from runtime config.
- *
- * **Per-project isolation (collision avoidance).** Cookies are scoped by
- * host+path, NOT by port. Two lenne.tech apps sharing a host during development
- * (e.g. both on `localhost`) would otherwise read each other's `lt-auth-state`
- * cookie — surfacing a "ghost" user from the other project. The cookie name is
- * therefore derived from a per-project prefix (see {@link resolveLtCookiePrefix}).
+ * Resolve the tenant configuration (`ltExtensions.auth.tenant`) from runtime config.
  *
- * Resolution order:
- *   1. an explicitly configured `cookieNames.state/token` (exact name) always wins;
- *   2. otherwise `<prefix>-auth-state` / `<prefix>-jwt-token` where `prefix`
- *      comes from {@link resolveLtCookiePrefix} (the opt-in `cookiePrefix`);
- *   3. otherwise fall back to the legacy `lt-auth-state` / `lt-jwt-token`
- *      (backward compatible — no behaviour change for apps without a prefix).
- *
- * Falls back to the defaults so callers keep working even outside a Nuxt
- * context (tests, edge SSR boots).
+ * The cookie name follows {@link getLtAuthCookieNames}: an explicitly configured
+ * `cookieName` wins, otherwise `<prefix>-tenant-id`, otherwise `lt-tenant-id`.
+ * Falls back to the (disabled) defaults outside a Nuxt context.
  */
-export function getLtAuthCookieNames(): { state: string; token: string } {
+export function getLtTenantConfig(): { cookieName: string; enabled: boolean; header: string } {
   try {
-    const runtimeConfig = useRuntimeConfig();
-    const pub = runtimeConfig.public as Record<string, any>;
-    const configured = pub?.ltExtensions?.auth?.cookieNames;
+    const pub = useRuntimeConfig().public as Record<string, any>;
+    const tenant = pub?.ltExtensions?.auth?.tenant;
     const prefix = resolveLtCookiePrefix(pub);
-
-    // An explicit config value (anything other than the module default) wins;
-    // otherwise derive from the resolved prefix; otherwise keep the legacy name.
-    const state = configured?.state && configured.state !== LT_AUTH_STATE_COOKIE_DEFAULT ? configured.state : prefix ? `${prefix}-auth-state` : LT_AUTH_STATE_COOKIE_DEFAULT;
-    const token = configured?.token && configured.token !== LT_JWT_TOKEN_COOKIE_DEFAULT ? configured.token : prefix ? `${prefix}-jwt-token` : LT_JWT_TOKEN_COOKIE_DEFAULT;
-    return { state, token };
+    const cookieName = tenant?.cookieName && tenant.cookieName !== LT_TENANT_COOKIE_DEFAULT ? tenant.cookieName : prefix ? `${prefix}-tenant-id` : LT_TENANT_COOKIE_DEFAULT;
+    return { cookieName, enabled: tenant?.enabled === true, header: tenant?.header || LT_TENANT_HEADER_DEFAULT };
   } catch {
-    return { state: LT_AUTH_STATE_COOKIE_DEFAULT, token: LT_JWT_TOKEN_COOKIE_DEFAULT };
+    return { cookieName: LT_TENANT_COOKIE_DEFAULT, enabled: false, header: LT_TENANT_HEADER_DEFAULT };
   }
 }
 
 /**
  * Resolve the authoritative auth state from a raw `Cookie` header /
- * `document.cookie` string, tolerating **multiple** auth-state cookies with the
- * same name.
- *
- * A deployed setup can end up with TWO auth-state cookies in parallel — a
- * host-only one (written by `useCookie` / `setUser`) and a domain-scoped one
- * (e.g. set by a backend SAML callback with `Domain=<appHost>` so it is
- * readable across `app` and `api.app`). They can disagree: one carries the
- * signed-in user, the other a stale `{ user: null }` left behind by a partial
- * clear. A naive single-value read (`useCookie`, or `document.cookie.find`)
- * may pick the stale twin and wrongly report the user as logged out — which
- * makes SSR auth guards bounce a perfectly valid session to the login page.
- *
- * This scans ALL matching entries and prefers the one that actually carries a
- * `user`; only when none do does it return the (user-less) fallback state.
- *
- * SECURITY NOTE: preferring the user-bearing twin is intentional and required —
- * preferring the `{ user: null }` twin is exactly what caused the random logout.
- * `lt-auth-state` is a NON-authoritative client convenience cache for the app
- * shell, NOT the session identifier (that is the httpOnly session cookie, e.g.
- * `iam.session_token`). A forged/injected user-bearing cookie therefore yields
- * at most UI spoofing ("looks logged in") — every real API/server call still
- * authenticates against the httpOnly session and 401s. This trust boundary is
- * unchanged by the duplicate-tolerant read; it only decides which twin wins.
+ * `document.cookie` string — {@link parseLtAuthStateCookie} with the configured
+ * auth-state cookie name unless `stateCookieName` is given.
  */
 export function resolveLtAuthState(cookieString: string, stateCookieName?: string): LtAuthState | null {
-  const name = stateCookieName || getLtAuthCookieNames().state;
-  const prefix = `${name}=`;
-  let fallback: LtAuthState | null = null;
-  for (const entry of (cookieString || '').split('; ')) {
-    if (!entry.startsWith(prefix)) continue;
-    try {
-      const state = JSON.parse(decodeURIComponent(entry.slice(prefix.length))) as LtAuthState;
-      if (state?.user) {
-        return state;
-      }
-      if (state) {
-        fallback = state;
-      }
-    } catch {
-      // Skip malformed cookie entries
-    }
-  }
-  return fallback;
+  return parseLtAuthStateCookie(cookieString, stateCookieName || getLtAuthCookieNames().state);
 }
 
 // =============================================================================
@@ -390,6 +332,341 @@ export function buildLtApiUrl(path: string): string {
   }
 }
 
+// =============================================================================
+// Cross-Tab Sync
+// =============================================================================
+
+/** Listeners registered via {@link onLtAuthSync} in this tab. */
+const syncListeners = new Set<(event: LtAuthSyncEvent) => void>();
+
+/** Lazily created channel; `null` when BroadcastChannel is unavailable. */
+let syncChannel: BroadcastChannel | null | undefined;
+
+/** Removes the storage-event fallback listener; set once it is attached. */
+let detachSyncStorageListener: (() => void) | null = null;
+
+/**
+ * Channel name and storage key of the sync messages. Derived from the
+ * auth-state cookie name, so projects with their own cookie namespace (see
+ * {@link getLtAuthCookieNames}) never react to each other's logins.
+ */
+function getLtAuthSyncKey(): string {
+  return `${getLtAuthCookieNames().state}:sync`;
+}
+
+/** Whether `ltExtensions.auth.sync.enabled` allows broadcasting (default: true). */
+function isLtAuthSyncEnabled(): boolean {
+  try {
+    const runtimeConfig = useRuntimeConfig();
+    return (runtimeConfig.public as Record<string, any>)?.ltExtensions?.auth?.sync?.enabled !== false;
+  } catch {
+    return true;
+  }
+}
+
+/** Hand a received message to every listener. Malformed messages are ignored. */
+function dispatchLtAuthSync(data: unknown): void {
+  const event = data as LtAuthSyncEvent | null;
+  if (!event || typeof event.type !== 'string') {
+    return;
+  }
+  for (const listener of syncListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[LtAuth] Cross-tab sync listener failed:', error);
+    }
+  }
+}
+
+/** Get (or create) the sync channel. Returns `null` where BroadcastChannel is missing. */
+function getLtAuthSyncChannel(): BroadcastChannel | null {
+  if (syncChannel === undefined) {
+    try {
+      syncChannel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(getLtAuthSyncKey());
+    } catch {
+      syncChannel = null;
+    }
+    if (syncChannel) {
+      syncChannel.onmessage = (message: MessageEvent) => dispatchLtAuthSync(message.data);
+    }
+  }
+  return syncChannel;
+}
+
+/**
+ * Tell every other open tab that the auth state changed.
+ *
+ * Called by `setUser` / `clearUser` / `switchToJwtMode` in `useLtAuth()` and by
+ * {@link setLtJwtToken} / {@link setLtAuthMode}, so project code rarely needs
+ * it. The sending tab never receives its own message.
+ *
+ * Transport: BroadcastChannel, or — where it is missing — a `localStorage`
+ * write that the other tabs observe as a `storage` event (the entry is removed
+ * right away). The message carries no user data; receivers re-read the shared
+ * cookies instead.
+ *
+ * @param type - Kind of change
+ * @param state - Auth state after the change (default: read from the auth-state cookie)
+ */
+export function broadcastLtAuthSync(type: LtAuthSyncEventType, state?: LtAuthState | null): void {
+  if (import.meta.server || !isLtAuthSyncEnabled()) return;
+
+  state ??= resolveLtAuthState(document.cookie);
+  const event: LtAuthSyncEvent = { at: Date.now(), authMode: state?.authMode || 'cookie', type, userId: state?.user?.id ?? null };
+
+  try {
+    const channel = getLtAuthSyncChannel();
+    if (channel) {
+      channel.postMessage(event);
+      return;
+    }
+    const key = getLtAuthSyncKey();
+    localStorage.setItem(key, JSON.stringify(event));
+    localStorage.removeItem(key);
+  } catch {
+    // Sync is best-effort — a blocked storage must never break login/logout
+  }
+}
+
+/**
+ * Subscribe to auth changes made in other tabs.
+ *
+ * @param listener - Called with every {@link LtAuthSyncEvent} from another tab
+ * @returns Function that removes the listener
+ *
+ * @example
+ * ```typescript
+ * const stop = onLtAuthSync((event) => {
+ *   if (event.type === 'logout') console.debug('Signed out in another tab');
+ * });
+ * ```
+ */
+export function onLtAuthSync(listener: (event: LtAuthSyncEvent) => void): () => void {
+  if (import.meta.server) return () => {};
+
+  syncListeners.add(listener);
+
+  if (!getLtAuthSyncChannel() && !detachSyncStorageListener) {
+    const key = getLtAuthSyncKey();
+    const onStorage = (event: StorageEvent) => {
+      // The sender removes the entry right after writing it — ignore that removal
+      if (event.key !== key || !event.newValue) return;
+      try {
+        dispatchLtAuthSync(JSON.parse(event.newValue));
+      } catch {
+        // Ignore malformed entries
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    detachSyncStorageListener = () => window.removeEventListener('storage', onStorage);
+  }
+
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
+
+/**
+ * Close the sync channel and drop all listeners.
+ *
+ * INTERNAL — test-only, like {@link resetLtWarnOnceState}. Production code must
+ * never call this.
+ */
+export function resetLtAuthSyncState(): void {
+  syncChannel?.close();
+  syncChannel = undefined;
+  detachSyncStorageListener?.();
+  detachSyncStorageListener = null;
+  syncListeners.clear();
+}
+
+// =============================================================================
+// Token Storage
+// =============================================================================
+
+/**
+ * Default adapter: the JS-readable `lt-jwt-token` cookie (7 days), also
+ * readable during SSR and by the Nitro helpers.
+ */
+const cookieTokenStorage: LtTokenStorage = {
+  get() {
+    try {
+      const { token: tokenCookieName } = getLtAuthCookieNames();
+      const cookiePrefix = `${tokenCookieName}=`;
+      // Duplicate-tolerant: when host-only + domain-scoped twins coexist, prefer
+      // the first NON-EMPTY token instead of whatever `.find()` happens to return
+      // (which could be an empty/cleared twin) — mirrors resolveLtAuthState.
+      for (const row of document.cookie.split('; ')) {
+        if (!row.startsWith(cookiePrefix)) continue;
+        const raw = decodeURIComponent(row.slice(cookiePrefix.length));
+        // Handle JSON-encoded string (useCookie stores as JSON)
+        const value = raw.startsWith('"') && raw.endsWith('"') ? (JSON.parse(raw) as string) : raw;
+        if (value) {
+          return value;
+        }
+      }
+    } catch {
+      // Ignore parse errors
+    }
+    return null;
+  },
+  set(token) {
+    const { token: tokenCookieName } = getLtAuthCookieNames();
+    const maxAge = 60 * 60 * 24 * 7; // 7 days
+    const secure = globalThis.location?.protocol === 'https:' ? '; secure' : '';
+    if (token) {
+      document.cookie = `${tokenCookieName}=${encodeURIComponent(JSON.stringify(token))}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
+    } else {
+      document.cookie = `${tokenCookieName}=; path=/; max-age=0; samesite=lax${secure}`;
+    }
+    // Keep this tab's `useCookie` refs (e.g. `useLtAuth().jwtToken`) in line with the write
+    refreshCookie(tokenCookieName);
+  },
+};
+
+/**
+ * Per-tab adapter: survives reloads, ends with the tab. Keyed by the token cookie name.
+ */
+const sessionTokenStorage: LtTokenStorage = {
+  get() {
+    try {
+      return globalThis.sessionStorage?.getItem(getLtAuthCookieNames().token) || null;
+    } catch {
+      return null;
+    }
+  },
+  set(token) {
+    try {
+      const key = getLtAuthCookieNames().token;
+      if (token) {
+        globalThis.sessionStorage?.setItem(key, token);
+      } else {
+        globalThis.sessionStorage?.removeItem(key);
+      }
+    } catch {
+      // Storage unavailable (private mode, quota) — the session cookie keeps working
+    }
+  },
+};
+
+/** Token held by the `memory` adapter; gone with the next reload. */
+let memoryToken: null | string = null;
+
+const memoryTokenStorage: LtTokenStorage = {
+  get: () => memoryToken,
+  set: (token) => {
+    memoryToken = token;
+  },
+};
+
+/** Built-in adapters plus the ones registered via {@link registerLtTokenStorage}. */
+const tokenStorages = new Map<string, LtTokenStorage>([
+  ['cookie', cookieTokenStorage],
+  ['memory', memoryTokenStorage],
+  ['sessionStorage', sessionTokenStorage],
+]);
+
+/** Bumped on every token write so reactive readers re-read non-cookie storages. */
+const tokenStorageRevision = ref(0);
+
+/**
+ * Register a custom token storage adapter, selectable via `ltExtensions.auth.tokenStorage`.
+ *
+ * Adapters are synchronous: an adapter for an async backend (e.g. native
+ * secure storage) keeps an in-memory copy, loads it before registering and
+ * writes through in the background.
+ *
+ * @example
+ * ```typescript
+ * // plugins/token-storage.client.ts — with `auth: { tokenStorage: 'secure' }`
+ * import { SecureStoragePlugin } from 'capacitor-secure-storage-plugin';
+ *
+ * export default defineNuxtPlugin(async () => {
+ *   let token = await SecureStoragePlugin.get({ key: 'jwt' }).then((r) => r.value, () => null);
+ *   registerLtTokenStorage('secure', {
+ *     get: () => token,
+ *     set: (next) => {
+ *       token = next;
+ *       void (next ? SecureStoragePlugin.set({ key: 'jwt', value: next }) : SecureStoragePlugin.remove({ key: 'jwt' })).catch(() => {});
+ *     },
+ *   });
+ * });
+ * ```
+ */
+export function registerLtTokenStorage(name: string, storage: LtTokenStorage): void {
+  tokenStorages.set(name, storage);
+  tokenStorageRevision.value++;
+}
+
+/**
+ * Name of the configured token storage (`ltExtensions.auth.tokenStorage`, default: 'cookie')
+ */
+export function getLtTokenStorageName(): string {
+  try {
+    return (useRuntimeConfig().public as Record<string, any>)?.ltExtensions?.auth?.tokenStorage || 'cookie';
+  } catch {
+    return 'cookie';
+  }
+}
+
+/**
+ * Resolve the configured token storage adapter.
+ *
+ * A name that is not (yet) registered falls back to `memory` — never to the
+ * cookie a deployment may have opted out of.
+ */
+export function getLtTokenStorage(): LtTokenStorage {
+  const name = getLtTokenStorageName();
+  const storage = tokenStorages.get(name);
+  if (!storage) {
+    warnOnce(
+      `token-storage:${name}`,
+      `[LtAuth] Unknown token storage "${name}" (ltExtensions.auth.tokenStorage) — register it via registerLtTokenStorage(). Keeping the JWT in memory meanwhile.`,
+    );
+    return memoryTokenStorage;
+  }
+  return storage;
+}
+
+/**
+ * Write the JWT to the configured storage without scheduling or broadcasting.
+ *
+ * INTERNAL — used by {@link setLtJwtToken} and `useLtAuth().jwtToken`.
+ */
+export function writeLtJwtToken(token: null | string): void {
+  if (import.meta.server) return;
+
+  getLtTokenStorage().set(token);
+  tokenStorageRevision.value++;
+}
+
+/**
+ * Writable ref over the configured token storage, for storages `useCookie` cannot see.
+ *
+ * INTERNAL — backs `useLtAuth().jwtToken` unless `tokenStorage` is 'cookie'.
+ */
+export function createLtJwtTokenRef(): Ref<null | string> {
+  return computed<null | string>({
+    get: () => getLtJwtToken(),
+    set: (token) => writeLtJwtToken(token),
+  });
+}
+
+/**
+ * Forget custom adapters and the in-memory token.
+ *
+ * INTERNAL — test-only, like {@link resetLtWarnOnceState}. Production code must
+ * never call this.
+ */
+export function resetLtTokenStorageState(): void {
+  memoryToken = null;
+  tokenStorages.clear();
+  tokenStorages.set('cookie', cookieTokenStorage);
+  tokenStorages.set('memory', memoryTokenStorage);
+  tokenStorages.set('sessionStorage', sessionTokenStorage);
+}
+
 // =============================================================================
 // Auth State Functions
 // =============================================================================
@@ -406,46 +683,100 @@ export function getLtAuthMode(): LtAuthMode {
 }
 
 /**
- * Get the JWT token from cookie
+ * Get the JWT token from the configured token storage (see {@link getLtTokenStorage})
  */
 export function getLtJwtToken(): string | null {
   if (import.meta.server) return null;
 
+  // Track writes for reactive readers (see createLtJwtTokenRef)
+  void tokenStorageRevision.value;
   try {
-    const { token: tokenCookieName } = getLtAuthCookieNames();
-    const cookiePrefix = `${tokenCookieName}=`;
-    // Duplicate-tolerant: when host-only + domain-scoped twins coexist, prefer
-    // the first NON-EMPTY token instead of whatever `.find()` happens to return
-    // (which could be an empty/cleared twin) — mirrors resolveLtAuthState.
-    for (const row of document.cookie.split('; ')) {
-      if (!row.startsWith(cookiePrefix)) continue;
-      const raw = decodeURIComponent(row.slice(cookiePrefix.length));
-      // Handle JSON-encoded string (useCookie stores as JSON)
-      const value = raw.startsWith('"') && raw.endsWith('"') ? (JSON.parse(raw) as string) : raw;
-      if (value) {
-        return value;
-      }
-    }
+    return getLtTokenStorage().get();
   } catch {
-    // Ignore parse errors
+    return null;
   }
-  return null;
 }
 
 /**
- * Set JWT token in cookie
+ * Set JWT token in the configured token storage, (re-)arm its silent refresh
+ * (see {@link scheduleLtJwtRefresh}) and tell the other tabs (see {@link broadcastLtAuthSync})
  */
 export function setLtJwtToken(token: string | null): void {
   if (import.meta.server) return;
 
-  const { token: tokenCookieName } = getLtAuthCookieNames();
+  writeLtJwtToken(token);
+  scheduleLtJwtRefresh(token);
+  // Not a mode switch: the other tabs only re-read the token and re-arm their refresh
+  broadcastLtAuthSync('token-refreshed');
+}
+
+/**
+ * Get the active tenant id from its cookie (see {@link getLtTenantConfig})
+ *
+ * Unlike the auth cookies, this is also available during SSR (read via
+ * `useCookie`), so server-rendered API calls are scoped to the same tenant.
+ */
+export function getLtTenantId(): null | string {
+  const { cookieName } = getLtTenantConfig();
+
+  if (import.meta.server) {
+    try {
+      return useCookie<null | string>(cookieName).value || null;
+    } catch {
+      return null;
+    }
+  }
+
+  const cookiePrefix = `${cookieName}=`;
+  const row = document.cookie.split('; ').find((entry) => entry.startsWith(cookiePrefix));
+  if (!row) {
+    return null;
+  }
+  try {
+    const raw = decodeURIComponent(row.slice(cookiePrefix.length));
+    // Handle JSON-encoded string (useCookie stores as JSON)
+    return (raw.startsWith('"') && raw.endsWith('"') ? (JSON.parse(raw) as string) : raw) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set (or clear with `null`) the active tenant id in its cookie
+ *
+ * Other tabs share the cookie and send the new tenant from their next request on.
+ */
+export function setLtTenantId(tenantId: null | string): void {
+  if (import.meta.server) return;
+
+  const { cookieName } = getLtTenantConfig();
   const maxAge = 60 * 60 * 24 * 7; // 7 days
   const secure = globalThis.location?.protocol === 'https:' ? '; secure' : '';
-  if (token) {
-    document.cookie = `${tokenCookieName}=${encodeURIComponent(JSON.stringify(token))}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
+  if (tenantId) {
+    document.cookie = `${cookieName}=${encodeURIComponent(JSON.stringify(tenantId))}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
   } else {
-    document.cookie = `${tokenCookieName}=; path=/; max-age=0; samesite=lax${secure}`;
+    document.cookie = `${cookieName}=; path=/; max-age=0; samesite=lax${secure}`;
   }
+  // Keep this tab's `useCookie` refs (e.g. `useLtTenant().activeTenantId`) in line with the write
+  refreshCookie(cookieName);
+}
+
+/**
+ * Headers scoping a request to the active tenant, e.g. `{ 'X-Tenant-Id': 'org_1' }`
+ *
+ * Empty while `ltExtensions.auth.tenant.enabled` is off or no tenant is active.
+ * {@link ltAuthFetch} (and therefore `ltAiRequest` and the Better-Auth client)
+ * adds them automatically; spread them into direct `$fetch(buildLtApiUrl(...))` calls.
+ *
+ * @example
+ * ```typescript
+ * await $fetch(buildLtApiUrl('/projects'), { headers: getLtTenantHeaders() });
+ * ```
+ */
+export function getLtTenantHeaders(): Record<string, string> {
+  const { enabled, header } = getLtTenantConfig();
+  const tenantId = enabled ? getLtTenantId() : null;
+  return tenantId ? { [header]: tenantId } : {};
 }
 
 /**
@@ -455,6 +786,7 @@ export function setLtJwtToken(token: string | null): void {
  * module owns". It expires:
  * - the configured auth-state cookie (default `lt-auth-state`)
  * - the configured JWT token cookie (default `lt-jwt-token`)
+ * - the active-tenant cookie (default `lt-tenant-id`)
  * - the Better-Auth session fallbacks the client may have set
  *
  * Browsers only delete a cookie when the path / sameSite / secure
@@ -467,6 +799,8 @@ export function setLtJwtToken(token: string | null): void {
 export function clearLtAuthCookies(): void {
   if (import.meta.server) return;
 
+  scheduleLtJwtRefresh(null);
+
   const { state: stateCookieName, token: tokenCookieName } = getLtAuthCookieNames();
   const secure = globalThis.location?.protocol === 'https:' ? '; secure' : '';
   // Domain-scoped twin attribute. A backend SAML callback may set the
@@ -491,6 +825,17 @@ export function clearLtAuthCookies(): void {
     document.cookie = `${tokenCookieName}=; path=/; max-age=0; samesite=lax${secure}${domainAttr}`;
   }
 
+  // Token held outside the cookie (`tokenStorage` other than 'cookie')
+  if (getLtTokenStorageName() !== 'cookie') {
+    writeLtJwtToken(null);
+  }
+
+  // Active tenant — the next user on this device must not inherit it.
+  setLtTenantId(null);
+
+  // CSRF token of the endpoint — bound to the ending session
+  csrfToken = null;
+
   // Best-effort: clear Better-Auth client-side session cookies. These are
   // usually httpOnly (set by the API) and unreachable from JS, but covering
   // all known variants keeps stale entries out of the jar when a project
@@ -507,9 +852,11 @@ export function clearLtAuthCookies(): void {
 }
 
 /**
- * Update auth mode in the auth-state cookie
+ * Update auth mode in the auth-state cookie (and tell the other tabs, see {@link broadcastLtAuthSync})
+ *
+ * Calls `lt:auth:mode-switched` when the mode of a signed-in user changes.
  */
-export function setLtAuthMode(mode: LtAuthMode): void {
+export function setLtAuthMode(mode: LtAuthMode, reason: LtAuthChangeReason = 'manual'): void {
   if (import.meta.server) return;
 
   try {
@@ -522,6 +869,10 @@ export function setLtAuthMode(mode: LtAuthMode): void {
     const maxAge = 60 * 60 * 24 * 7; // 7 days
     const secure = globalThis.location?.protocol === 'https:' ? '; secure' : '';
     document.cookie = `${stateCookieName}=${encodeURIComponent(JSON.stringify(state))}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
+    broadcastLtAuthSync('auth-mode-switch');
+    if (existing?.user && existing.authMode !== mode) {
+      callLtAuthHook('lt:auth:mode-switched', { from: existing.authMode, reason, to: mode });
+    }
   } catch {
     // Ignore errors
   }
@@ -567,7 +918,7 @@ export async function attemptLtJwtSwitch(basePath: string = '/iam'): Promise<boo
       const data = await response.json();
       if (data.token) {
         setLtJwtToken(data.token);
-        setLtAuthMode('jwt');
+        setLtAuthMode('jwt', 'unauthorized');
         console.debug('[LtAuth] Switched to JWT mode');
         return true;
       }
@@ -589,13 +940,312 @@ export function isLtAuthenticated(): boolean {
   return !!resolveLtAuthState(document.cookie)?.user;
 }
 
+// =============================================================================
+// CSRF (Double Submit)
+// =============================================================================
+
+/** Error codes of a 403 caused by a missing or stale CSRF token */
+const LT_CSRF_ERROR_CODES_DEFAULT = ['EBADCSRFTOKEN', 'INVALID_CSRF_TOKEN'];
+
+/** Methods that change nothing and therefore carry no CSRF token */
+const LT_CSRF_SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
+
+/** Token of `auth.csrf.endpoint`, fetched on first use */
+let csrfToken: null | string = null;
+
+/** Running endpoint request, shared by concurrent requests */
+let csrfTokenInFlight: null | Promise<null | string> = null;
+
+/**
+ * Resolve the CSRF options from runtime config (`ltExtensions.auth.csrf`)
+ */
+export function getLtCsrfConfig(): { cookieName: string; enabled: boolean; endpoint: string; errorCodes: string[]; header: string } {
+  try {
+    const csrf = (useRuntimeConfig().public as Record<string, any>)?.ltExtensions?.auth?.csrf;
+    return {
+      cookieName: csrf?.cookieName || LT_CSRF_COOKIE_DEFAULT,
+      enabled: csrf?.enabled === true,
+      endpoint: csrf?.endpoint || '',
+      errorCodes: csrf?.errorCodes?.length ? csrf.errorCodes : LT_CSRF_ERROR_CODES_DEFAULT,
+      header: csrf?.header || LT_CSRF_HEADER_DEFAULT,
+    };
+  } catch {
+    return { cookieName: LT_CSRF_COOKIE_DEFAULT, enabled: false, endpoint: '', errorCodes: LT_CSRF_ERROR_CODES_DEFAULT, header: LT_CSRF_HEADER_DEFAULT };
+  }
+}
+
+function readLtCsrfCookie(cookieName: string): null | string {
+  const cookiePrefix = `${cookieName}=`;
+  const row = document.cookie.split('; ').find((entry) => entry.startsWith(cookiePrefix));
+  if (!row) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(row.slice(cookiePrefix.length)) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a request with `method` changes state and needs the CSRF token
+ */
+export function isLtMutatingMethod(method: string = 'GET'): boolean {
+  return !LT_CSRF_SAFE_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Fetch a new CSRF token from `auth.csrf.endpoint` (answering `{ csrfToken }`
+ * / `{ token }`, or only setting the cookie), or re-read the cookie without
+ * endpoint. Concurrent calls share one request.
+ *
+ * Called by {@link withLtCsrf} after a 403 with a CSRF error code.
+ */
+export function refreshLtCsrfToken(): Promise<null | string> {
+  const { cookieName, enabled, endpoint } = getLtCsrfConfig();
+  if (import.meta.server || !enabled) {
+    return Promise.resolve(null);
+  }
+  if (!endpoint) {
+    return Promise.resolve(readLtCsrfCookie(cookieName));
+  }
+  if (!csrfTokenInFlight) {
+    csrfToken = null;
+    csrfTokenInFlight = (async () => {
+      try {
+        const response = await fetch(buildLtApiUrl(endpoint), { credentials: 'include', method: 'GET' });
+        const body = response.ok ? await response.json().catch(() => null) : null;
+        csrfToken = body?.csrfToken || body?.token || readLtCsrfCookie(cookieName);
+      } catch {
+        csrfToken = null;
+      } finally {
+        csrfTokenInFlight = null;
+      }
+      return csrfToken;
+    })();
+  }
+  return csrfTokenInFlight;
+}
+
+/**
+ * Current CSRF token: from `auth.csrf.endpoint` (fetched once, then cached)
+ * or the `auth.csrf.cookieName` cookie
+ *
+ * `null` while `auth.csrf.enabled` is off, on the server (server-side requests
+ * are not exposed to CSRF) or when no token is available.
+ */
+export async function getLtCsrfToken(): Promise<null | string> {
+  const { cookieName, enabled, endpoint } = getLtCsrfConfig();
+  if (import.meta.server || !enabled) {
+    return null;
+  }
+  if (!endpoint) {
+    return readLtCsrfCookie(cookieName);
+  }
+  return csrfToken ?? refreshLtCsrfToken();
+}
+
+/**
+ * Whether a response (status and body) reports a missing or stale CSRF token
+ */
+export function isLtCsrfError(status: number, body: unknown): boolean {
+  const { enabled, errorCodes } = getLtCsrfConfig();
+  if (!enabled || status !== 403) {
+    return false;
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body ?? '');
+  return errorCodes.some((code) => text.includes(code));
+}
+
+/**
+ * Send a request with the CSRF token (double submit)
+ *
+ * Mutating methods get `auth.csrf.header`; a header set by the caller wins.
+ * On a 403 with a CSRF error code the token is refreshed and the request sent
+ * once more. {@link ltAuthFetch} (and with it the Better-Auth client and
+ * `ltAiRequest`) and `useLtAuth().fetchWithAuth` use it.
+ *
+ * @param method - Method of the request (default: 'GET')
+ * @param headers - Headers of the request; `send` must use this object
+ * @param send - Sends the request, called again for the retry
+ */
+export async function withLtCsrf(method: string | undefined, headers: Headers, send: () => Promise<Response>): Promise<Response> {
+  const { enabled, header } = getLtCsrfConfig();
+  if (import.meta.server || !enabled || !isLtMutatingMethod(method) || headers.has(header)) {
+    return send();
+  }
+
+  const token = await getLtCsrfToken();
+  if (token) {
+    headers.set(header, token);
+  }
+  const response = await send();
+  if (
+    response.status !== 403 ||
+    !isLtCsrfError(
+      response.status,
+      await response
+        .clone()
+        .text()
+        .catch(() => ''),
+    )
+  ) {
+    return response;
+  }
+
+  const refreshed = await refreshLtCsrfToken();
+  if (!refreshed) {
+    return response;
+  }
+  headers.set(header, refreshed);
+  return send();
+}
+
+/**
+ * Forget the CSRF token of the endpoint.
+ *
+ * INTERNAL — test-only, like {@link resetLtWarnOnceState}. Production code must
+ * never call this.
+ */
+export function resetLtCsrfState(): void {
+  csrfToken = null;
+  csrfTokenInFlight = null;
+}
+
+// =============================================================================
+// Silent JWT Refresh
+// =============================================================================
+
+/** Never refresh more often than this, even when the clock is skewed against the backend. */
+const LT_JWT_REFRESH_MIN_INTERVAL_MS = 10_000;
+
+/** Start of the last {@link refreshLtJwtToken} request (ms since epoch). */
+let lastJwtRefreshAt = 0;
+
+/** Pending timer of {@link scheduleLtJwtRefresh}. */
+let jwtRefreshTimer: null | ReturnType<typeof setTimeout> = null;
+
+/** The running `GET {basePath}/token` of {@link refreshLtJwtToken}, shared by concurrent callers. */
+let jwtRefreshInFlight: null | Promise<boolean> = null;
+
+/** `ltExtensions.auth.jwtRefresh` with its defaults. */
+function getLtJwtRefreshConfig(): { enabled: boolean; leewaySeconds: number } {
+  try {
+    const runtimeConfig = useRuntimeConfig();
+    const config = (runtimeConfig.public as Record<string, any>)?.ltExtensions?.auth?.jwtRefresh;
+    return { enabled: config?.enabled !== false, leewaySeconds: typeof config?.leewaySeconds === 'number' ? config.leewaySeconds : 60 };
+  } catch {
+    return { enabled: true, leewaySeconds: 60 };
+  }
+}
+
+/**
+ * Fetch a fresh JWT and store it via {@link setLtJwtToken}.
+ *
+ * Concurrent calls (the scheduler, `useLtAuth().refreshJwtToken()`, several
+ * components at once) share one request. Unlike {@link attemptLtJwtSwitch}, the
+ * auth mode is left untouched.
+ *
+ * @param basePath - The auth API base path (default: from runtime config, else '/iam')
+ * @returns `true` when a new token was stored
+ */
+export function refreshLtJwtToken(basePath?: string): Promise<boolean> {
+  if (import.meta.server) return Promise.resolve(false);
+
+  if (!jwtRefreshInFlight) {
+    lastJwtRefreshAt = Date.now();
+    jwtRefreshInFlight = (async () => {
+      try {
+        const response = await fetch(`${getLtApiBase(basePath)}/token`, {
+          method: 'GET',
+          credentials: 'include',
+        });
+        if (!response.ok) {
+          return false;
+        }
+        const data = await response.json();
+        if (!data?.token) {
+          return false;
+        }
+        setLtJwtToken(data.token);
+        return true;
+      } catch {
+        return false;
+      } finally {
+        jwtRefreshInFlight = null;
+      }
+    })();
+  }
+  return jwtRefreshInFlight;
+}
+
+/**
+ * (Re-)arm the silent refresh for a stored JWT.
+ *
+ * Fires `jwtRefresh.leewaySeconds` before the `exp` claim (capped at half the
+ * token lifetime, and at most once per 10 seconds). While the tab is
+ * hidden nothing is armed: the `jwt-refresh` plugin calls this again once the
+ * tab is visible, which refreshes right away when the moment has passed. Tokens
+ * without a decodable `exp` (e.g. an opaque session token) are never scheduled.
+ *
+ * Called by {@link setLtJwtToken}, {@link clearLtAuthCookies} and `useLtAuth()`
+ * whenever the token changes, so project code rarely needs it.
+ *
+ * @param token - The stored token; `null` cancels (default: read from the JWT cookie)
+ */
+export function scheduleLtJwtRefresh(token: null | string = getLtJwtToken()): void {
+  if (import.meta.server) return;
+
+  if (jwtRefreshTimer) {
+    clearTimeout(jwtRefreshTimer);
+    jwtRefreshTimer = null;
+  }
+
+  const { enabled, leewaySeconds } = getLtJwtRefreshConfig();
+  if (!enabled || document.visibilityState === 'hidden') {
+    return;
+  }
+
+  const claims = ltDecodeJwtClaims(token);
+  if (typeof claims?.exp !== 'number') {
+    return;
+  }
+
+  const expiresAt = claims.exp * 1000;
+  const lifetime = typeof claims.iat === 'number' ? expiresAt - claims.iat * 1000 : Infinity;
+  const refreshAt = expiresAt - Math.min(leewaySeconds * 1000, lifetime / 2);
+  const now = Date.now();
+  const delay = Math.max(refreshAt - now, lastJwtRefreshAt + LT_JWT_REFRESH_MIN_INTERVAL_MS - now, 0);
+
+  jwtRefreshTimer = setTimeout(() => {
+    jwtRefreshTimer = null;
+    refreshLtJwtToken();
+  }, delay);
+}
+
+/**
+ * Cancel the refresh timer and forget a running refresh.
+ *
+ * INTERNAL — test-only, like {@link resetLtWarnOnceState}. Production code must
+ * never call this.
+ */
+export function resetLtJwtRefreshState(): void {
+  if (jwtRefreshTimer) {
+    clearTimeout(jwtRefreshTimer);
+  }
+  jwtRefreshTimer = null;
+  jwtRefreshInFlight = null;
+  lastJwtRefreshAt = 0;
+}
+
 /**
  * Custom fetch function that handles Cookie/JWT dual-mode authentication
  *
  * This function:
  * 1. In cookie mode: Uses credentials: 'include'
  * 2. In JWT mode: Adds Authorization header
- * 3. On 401 in cookie mode: Attempts to switch to JWT and retries
+ * 3. On 401 in cookie mode (or without a stored JWT): Attempts to switch to JWT and retries
+ * 4. With `auth.csrf.enabled`: Adds the CSRF token to mutating requests (see {@link withLtCsrf})
  *
  * @param basePath - The auth API base path for JWT switch (default: '/iam')
  */
@@ -611,17 +1261,28 @@ export function createLtAuthFetch(basePath: string = '/iam') {
       headers.set('Authorization', `Bearer ${jwtToken}`);
     }
 
+    // Scope the request to the active tenant; a header set by the caller wins
+    for (const [name, value] of Object.entries(getLtTenantHeaders())) {
+      if (!headers.has(name)) {
+        headers.set(name, value);
+      }
+    }
+
     // Always include credentials for cookie-based session auth
     // In JWT mode, cookies are sent but ignored by the server (Authorization header is used instead)
     // This is more robust than conditionally omitting cookies
-    const response = await fetch(input, {
-      ...init,
-      headers,
-      credentials: 'include',
-    });
+    const method = init?.method ?? (typeof Request !== 'undefined' && input instanceof Request ? input.method : undefined);
+    const response = await withLtCsrf(method, headers, () =>
+      fetch(input, {
+        ...init,
+        headers,
+        credentials: 'include',
+      }),
+    );
 
-    // If we get 401 in cookie mode and user is authenticated, try JWT fallback
-    if (response.status === 401 && authMode === 'cookie' && isLtAuthenticated()) {
+    // If we get 401 in cookie mode (or JWT mode without a stored token, e.g. the
+    // `memory` token storage after a reload) and user is authenticated, try JWT fallback
+    if (response.status === 401 && (authMode === 'cookie' || !jwtToken) && isLtAuthenticated()) {
       console.debug('[LtAuth] Cookie auth failed, attempting JWT fallback...');
       const switched = await attemptLtJwtSwitch(basePath);
 
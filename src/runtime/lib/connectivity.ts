@@ -0,0 +1,223 @@
+/**
+ * Shared connectivity state: `navigator.onLine` plus failed requests.
+ *
+ * The browser flag alone misses captive portals, a dead API or a VPN drop, so
+ * a request failing at the network level (no HTTP response at all) marks the
+ * app offline as well. While offline, the API is probed every
+ * {@link LT_CONNECTIVITY_PROBE_INTERVAL_MS}; the first response of any request
+ * or probe marks it online again, runs the tasks deferred via
+ * {@link whenLtOnline} and calls the `lt:connectivity:restored` hook.
+ *
+ * Connectivity loss is never a reason to log out: auth revalidation and the
+ * system setup check wait for the connection instead.
+ */
+
+import { computed, ref } from '#imports';
+import { callLtAuthHook } from './auth-hooks';
+import { getLtApiBase } from './auth-state';
+
+/** Interval of the API probe while a failed request keeps the app offline. */
+const LT_CONNECTIVITY_PROBE_INTERVAL_MS = 15_000;
+
+/** `navigator.onLine`, kept current by the `connectivity` plugin. */
+const browserOnline = ref(true);
+
+/** `true` from a request failing at the network level until the next response. */
+const requestFailed = ref(false);
+
+/** Start of the current offline phase. */
+const offlineSince = ref<Date | null>(null);
+
+/** Tasks waiting for the connection (see {@link whenLtOnline}). */
+const deferredTasks = new Set<() => unknown>();
+
+/** Pending probe timer while offline. */
+let probeTimer: null | ReturnType<typeof setTimeout> = null;
+
+/**
+ * `true` while the browser reports a network and the last request reached the API
+ */
+export const ltIsOnline = computed(() => browserOnline.value && !requestFailed.value);
+
+/**
+ * Start of the current offline phase, `null` while online
+ */
+export const ltOfflineSince = computed(() => offlineSince.value);
+
+/**
+ * Non-reactive shorthand for {@link ltIsOnline}
+ */
+export function isLtOnline(): boolean {
+  return ltIsOnline.value;
+}
+
+/**
+ * `true` for an error of a request that got no HTTP response (offline, DNS,
+ * connection refused): a `TypeError` of `fetch`, an ofetch `FetchError` or a
+ * tus `DetailedError` without response. Aborted requests do not count.
+ */
+export function isLtNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) {
+    return true;
+  }
+  const requestError = error as { name?: string; originalRequest?: unknown; originalResponse?: unknown; response?: unknown } | null;
+  if (requestError?.name === 'FetchError') {
+    return !requestError.response;
+  }
+  return !!requestError?.originalRequest && !requestError.originalResponse;
+}
+
+/**
+ * Re-evaluate the state after a change: start / stop probing, and finish an
+ * offline phase (deferred tasks, `lt:connectivity:restored`)
+ */
+function updateConnectivity(): void {
+  if (!ltIsOnline.value) {
+    offlineSince.value ??= new Date();
+    scheduleProbe();
+    return;
+  }
+
+  if (probeTimer) {
+    clearTimeout(probeTimer);
+    probeTimer = null;
+  }
+  const since = offlineSince.value;
+  if (!since) {
+    return;
+  }
+  offlineSince.value = null;
+
+  const tasks = [...deferredTasks];
+  deferredTasks.clear();
+  for (const task of tasks) {
+    Promise.resolve()
+      .then(task)
+      .catch((error: unknown) => console.error('[LtConnectivity] Deferred task failed:', error));
+  }
+  callLtAuthHook('lt:connectivity:restored', { offlineSince: since });
+}
+
+function scheduleProbe(): void {
+  // Without a network there is nothing to probe; the `online` event restarts it
+  if (probeTimer || !browserOnline.value || import.meta.server) {
+    return;
+  }
+  probeTimer = setTimeout(() => {
+    probeTimer = null;
+    checkLtConnectivity().catch(() => {});
+  }, LT_CONNECTIVITY_PROBE_INTERVAL_MS);
+}
+
+/**
+ * Record the outcome of a request: a response (any status) marks the app
+ * online, a network error marks it offline
+ *
+ * INTERNAL — called by `ltAuthFetch`, `fetchWithAuth` and the composables
+ * with own requests; use {@link trackLtConnectivity} for a fetch promise.
+ */
+export function reportLtRequestResult(error?: unknown): void {
+  // Server-side requests say nothing about the visitor's connection
+  if (import.meta.server) return;
+
+  if (error === undefined) {
+    if (requestFailed.value) {
+      requestFailed.value = false;
+      updateConnectivity();
+    }
+    return;
+  }
+  // Also after a failed probe, which has to schedule the next one
+  if (isLtNetworkError(error)) {
+    requestFailed.value = true;
+    updateConnectivity();
+  }
+}
+
+/**
+ * Record the outcome of a fetch (see {@link reportLtRequestResult}) and pass it on unchanged
+ *
+ * @example
+ * ```typescript
+ * const response = await trackLtConnectivity(fetch(url));
+ * ```
+ */
+export async function trackLtConnectivity<T>(request: Promise<T>): Promise<T> {
+  try {
+    const result = await request;
+    reportLtRequestResult();
+    return result;
+  } catch (error) {
+    reportLtRequestResult(error);
+    throw error;
+  }
+}
+
+/**
+ * Apply `navigator.onLine` (the `online` / `offline` events)
+ *
+ * INTERNAL — called by the `connectivity` plugin.
+ */
+export function setLtBrowserOnline(online: boolean): void {
+  if (browserOnline.value === online) {
+    return;
+  }
+  browserOnline.value = online;
+  // A new network is worth a fresh try; the next request or probe decides
+  if (online) {
+    requestFailed.value = false;
+  }
+  updateConnectivity();
+}
+
+/**
+ * Probe the API (`GET {basePath}/ok`) — any HTTP response means it is reachable
+ *
+ * @returns `true` when online afterwards
+ */
+export async function checkLtConnectivity(): Promise<boolean> {
+  if (import.meta.server) return true;
+
+  if (!browserOnline.value) {
+    return false;
+  }
+  try {
+    await trackLtConnectivity(fetch(`${getLtApiBase()}/ok`, { cache: 'no-store', credentials: 'omit', ltSkipAuthInterceptor: true, method: 'GET' }));
+  } catch {
+    // Recorded by trackLtConnectivity
+  }
+  return ltIsOnline.value;
+}
+
+/**
+ * Run `task` now when online, else once the connection returns
+ *
+ * A task deferred several times runs once (same function reference). Client
+ * only: on the server the task is ignored, there is no connection to come back.
+ */
+export function whenLtOnline(task: () => unknown): void {
+  if (import.meta.server) return;
+
+  if (ltIsOnline.value) {
+    void Promise.resolve().then(task);
+    return;
+  }
+  deferredTasks.add(task);
+}
+
+/**
+ * Forget the state, deferred tasks and the probe timer.
+ *
+ * INTERNAL — test-only, like {@link resetLtWarnOnceState}. Production code must
+ * never call this.
+ */
+export function resetLtConnectivityState(): void {
+  if (probeTimer) {
+    clearTimeout(probeTimer);
+  }
+  probeTimer = null;
+  browserOnline.value = true;
+  requestFailed.value = false;
+  offlineSince.value = null;
+  deferredTasks.clear();
+}
@@ -5,20 +5,50 @@
 // Auth State utilities
 export {
   attemptLtJwtSwitch,
+  broadcastLtAuthSync,
   clearLtAuthCookies,
   createLtAuthFetch,
   getLtApiBase,
   getLtAuthCookieNames,
   getLtAuthMode,
+  getLtCsrfConfig,
+  getLtCsrfToken,
   getLtJwtToken,
+  getLtTenantConfig,
+  getLtTenantHeaders,
+  getLtTenantId,
+  getLtTokenStorage,
   isLtAuthenticated,
+  isLtCsrfError,
+  isLtMutatingMethod,
   LT_AUTH_STATE_COOKIE_DEFAULT,
+  LT_CSRF_COOKIE_DEFAULT,
+  LT_CSRF_HEADER_DEFAULT,
   LT_JWT_TOKEN_COOKIE_DEFAULT,
+  LT_TENANT_COOKIE_DEFAULT,
+  LT_TENANT_HEADER_DEFAULT,
   ltAuthFetch,
+  onLtAuthSync,
+  parseLtAuthStateCookie,
+  refreshLtCsrfToken,
+  refreshLtJwtToken,
+  registerLtTokenStorage,
+  resolveLtAuthCookieNames,
   setLtAuthMode,
   setLtJwtToken,
+  setLtTenantId,
+  withLtCsrf,
 } from './auth-state';
 
+// Abilities (UI permission rules)
+export { buildLtAbilityRules, clearLtAbilities, ltCheckAbility, registerLtAbilities } from './ability';
+
+// Step-up re-authentication prompt
+export { getLtReauthPrompt, registerLtReauthPrompt } from './reauth';
+
+// Connectivity (online state, deferred work)
+export { checkLtConnectivity, isLtNetworkError, isLtOnline, trackLtConnectivity, whenLtOnline } from './connectivity';
+
 // Auth Client Factory & Plugin Registry
 export {
   clearLtAuthPluginRegistry,
@@ -0,0 +1,45 @@
+/**
+ * Prompt registry for step-up re-authentication (`useLtAuth().requireRecentAuth`).
+ *
+ * The library never renders UI itself: the app registers one prompt that asks
+ * the user to confirm with a password, a passkey or a TOTP code (e.g. a modal)
+ * and resolves with what was entered, or `null` when the user cancelled.
+ */
+
+import type { LtReauthPrompt } from '../types';
+
+let _ltReauthPrompt: LtReauthPrompt | null = null;
+
+/**
+ * Register the prompt `requireRecentAuth` asks for the re-authentication.
+ * A later registration replaces the earlier one.
+ *
+ * @returns A function removing the prompt again
+ *
+ * @example
+ * ```typescript
+ * // plugins/reauth.client.ts
+ * export default defineNuxtPlugin(() => {
+ *   const overlay = useOverlay();
+ *   const modal = overlay.create(ReauthModal);
+ *   // ReauthModal emits `close` with { method: 'password', password } etc., or null
+ *   registerLtReauthPrompt((context) => modal.open(context).result);
+ * });
+ * ```
+ */
+export function registerLtReauthPrompt(prompt: LtReauthPrompt): () => void {
+  _ltReauthPrompt = prompt;
+  return () => {
+    if (_ltReauthPrompt === prompt) {
+      _ltReauthPrompt = null;
+    }
+  };
+}
+
+/**
+ * The registered re-authentication prompt, `null` when none is registered.
+ * Used internally by `requireRecentAuth`.
+ */
+export function getLtReauthPrompt(): LtReauthPrompt | null {
+  return _ltReauthPrompt;
+}
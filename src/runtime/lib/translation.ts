@@ -0,0 +1,27 @@
+import { useNuxtApp } from '#imports';
+
+/**
+ * Helper function for i18n with German fallback
+ *
+ * Two-stage fallback strategy:
+ * 1. Without i18n installed -> German (for single-language DE projects)
+ * 2. With i18n, no translation -> English (international fallback)
+ *
+ * `{name}` placeholders are filled from `params` in both cases.
+ *
+ * INTERNAL — shared by the auth composables for their `lt.auth.*` messages.
+ */
+export function useLtTranslation(): (key: string, germanFallback: string, params?: Record<string, number | string>) => string {
+  const nuxtApp = useNuxtApp();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const i18n = (nuxtApp as any).$i18n;
+
+  return (key: string, germanFallback: string, params?: Record<string, number | string>): string => {
+    // No i18n installed -> German (for single-language DE projects)
+    if (!i18n?.t) {
+      return params ? germanFallback.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match)) : germanFallback;
+    }
+    // i18n installed -> use i18n (fallback to EN is configured in i18n)
+    return params ? i18n.t(key, params) : i18n.t(key);
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Auth Middleware
+ *
+ * Global middleware that protects pages declaring `ltAuth` page meta. Pages
+ * without it are untouched, so registering it globally costs nothing.
+ *
+ * - `ltAuth.guestOnly` AND signed in -> redirect to homePath
+ * - `ltAuth.required` (default) AND signed out -> redirect to loginPath?redirect=<target>
+ * - `ltAuth.public` -> open to everyone (like `required: false`)
+ * - `ltAuth.roles` AND none of them held -> 403 (same semantics as `hasAnyRole`)
+ *
+ * @example
+ * ```typescript
+ * definePageMeta({ ltAuth: { roles: ['admin'] } });
+ * definePageMeta({ ltAuth: { guestOnly: true } });
+ * ```
+ *
+ * UI gate only: the roles come from the client-writable `lt-auth-state`
+ * cookie. Enforce rights server-side.
+ */
+
+import type { RouteMiddleware } from '#app';
+import { abortNavigation, createError, defineNuxtRouteMiddleware, navigateTo, useRuntimeConfig } from '#imports';
+import type { LtAuthPageMeta } from '../types';
+import { useLtAuth } from '../composables/auth/use-lt-auth';
+import { ltSafeRedirectPath } from '../utils/redirect';
+
+export default defineNuxtRouteMiddleware((to) => {
+  const meta = to.meta?.ltAuth as LtAuthPageMeta | undefined;
+  if (!meta) {
+    return;
+  }
+
+  const runtimeConfig = useRuntimeConfig();
+  const authConfig = runtimeConfig.public?.ltExtensions?.auth;
+  const loginPath = authConfig?.loginPath || '/auth/login';
+  const homePath = authConfig?.homePath || '/';
+
+  const { hasAnyRole, isAuthenticated } = useLtAuth();
+
+  if (meta.guestOnly) {
+    if (isAuthenticated.value && to.path !== homePath) {
+      return navigateTo(homePath);
+    }
+    return;
+  }
+
+  const roles = meta.roles || [];
+  if ((meta.public || meta.required === false) && !roles.length) {
+    return;
+  }
+
+  if (!isAuthenticated.value) {
+    if (to.path === loginPath) {
+      return;
+    }
+    const target = ltSafeRedirectPath(to.fullPath, '');
+    return navigateTo(target ? { path: loginPath, query: { redirect: target } } : loginPath);
+  }
+
+  if (roles.length && !hasAnyRole(...roles)) {
+    return abortNavigation(createError({ statusCode: 403, statusMessage: 'Forbidden' }));
+  }
+}) as RouteMiddleware;
@@ -0,0 +1,48 @@
+/**
+ * Email Verification Middleware
+ *
+ * Global middleware (opt-in via `auth.emailVerification.redirectUnverified`)
+ * that sends signed-in users with `emailVerified === false` to the "please
+ * verify" page.
+ *
+ * - signed out, or `emailVerified` not `false` -> untouched
+ * - `verifyPath` / `loginPath` itself -> untouched (loop guard)
+ * - `ltAuth.guestOnly` or `ltAuth.allowUnverified` pages -> untouched
+ * - otherwise -> redirect to verifyPath?redirect=<target>
+ *
+ * @example
+ * ```typescript
+ * definePageMeta({ ltAuth: { allowUnverified: true } });
+ * ```
+ *
+ * UI gate only: enforce verification server-side (`requireEmailVerification`).
+ */
+
+import type { RouteMiddleware } from '#app';
+import { defineNuxtRouteMiddleware, navigateTo, useRuntimeConfig } from '#imports';
+import type { LtAuthPageMeta } from '../types';
+import { useLtAuth } from '../composables/auth/use-lt-auth';
+import { ltSafeRedirectPath } from '../utils/redirect';
+
+export default defineNuxtRouteMiddleware((to) => {
+  const meta = to.meta?.ltAuth as LtAuthPageMeta | undefined;
+  if (meta?.guestOnly || meta?.allowUnverified) {
+    return;
+  }
+
+  const runtimeConfig = useRuntimeConfig();
+  const authConfig = runtimeConfig.public?.ltExtensions?.auth;
+  const verifyPath = authConfig?.emailVerification?.verifyPath || '/auth/verify-email';
+  const loginPath = authConfig?.loginPath || '/auth/login';
+  if (to.path === verifyPath || to.path === loginPath) {
+    return;
+  }
+
+  const { isAuthenticated, user } = useLtAuth();
+  if (!isAuthenticated.value || user.value?.emailVerified !== false) {
+    return;
+  }
+
+  const target = ltSafeRedirectPath(to.fullPath, '');
+  return navigateTo(target ? { path: verifyPath, query: { redirect: target } } : verifyPath);
+}) as RouteMiddleware;
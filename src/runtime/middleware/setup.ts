@@ -7,6 +7,9 @@
  * - needsSetup === null -> calls checkSetupStatus()
  * - needsSetup === true AND route != setupPath -> redirect to setupPath
  * - needsSetup === false AND route === setupPath -> redirect to loginPath
+ *
+ * A setup token in the link (`?setupToken=`, see `auth.systemSetup.tokenQueryParam`)
+ * is kept for `useSystemSetup` and removed from the URL (on the client).
  */
 
 import type { RouteMiddleware } from '#app';
@@ -18,8 +21,20 @@ export default defineNuxtRouteMiddleware(async (to) => {
   const authConfig = runtimeConfig.public?.ltExtensions?.auth;
   const setupPath = authConfig?.systemSetup?.setupPath || '/auth/setup';
   const loginPath = authConfig?.loginPath || '/auth/login';
+  const tokenQueryParam = authConfig?.systemSetup?.tokenQueryParam || 'setupToken';
+
+  const { needsSetup, checkSetupStatus, setToken } = useSystemSetup();
 
-  const { needsSetup, checkSetupStatus } = useSystemSetup();
+  const { [tokenQueryParam]: setupToken, ...query } = to.query;
+  if (typeof setupToken === 'string' && setupToken) {
+    setToken(setupToken);
+    // Keep the one-time token out of the browser history — on the client only:
+    // during SSR the redirect would start a new request without the token state.
+    // The hydrating client runs this middleware again and cleans the URL then.
+    if (import.meta.client) {
+      return navigateTo({ hash: to.hash, path: to.path, query }, { replace: true });
+    }
+  }
 
   try {
     // First check: fetch status if not yet determined
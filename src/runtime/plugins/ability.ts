@@ -0,0 +1,23 @@
+/**
+ * Ability Plugin
+ *
+ * Registers the `v-lt-can` directive (see `createLtCanDirective`). The ability
+ * (and with it `useLtAuth()`) is created on the directive's first use, after
+ * project plugins registered their Better-Auth plugins and abilities.
+ */
+
+import type { NuxtApp } from '#app';
+import type { UseLtAbilityReturn } from '../types';
+
+import { useLtAbility } from '../composables/auth/use-lt-ability';
+import { createLtCanDirective } from '../directives/lt-can';
+
+export default (nuxtApp: NuxtApp): void => {
+  // One ability per app instance (per request during SSR)
+  let ability: UseLtAbilityReturn | null = null;
+
+  nuxtApp.vueApp.directive(
+    'lt-can',
+    createLtCanDirective(() => (ability ??= nuxtApp.runWithContext(() => useLtAbility()) as UseLtAbilityReturn)),
+  );
+};
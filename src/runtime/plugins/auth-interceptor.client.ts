@@ -4,8 +4,9 @@
  * This plugin intercepts all API responses and handles session expiration.
  * When a 401 (Unauthorized) response is received, it verifies against the
  * session endpoint that the session is genuinely dead and then automatically:
- * 1. Clears the user session state
- * 2. Redirects to the login page
+ * 1. Calls the `lt:auth:session-expired` hook
+ * 2. Clears the user session state (`lt:auth:logout`, reason 'session-expired')
+ * 3. Redirects to the login page
  *
  * The verification step exists because a 401 from a domain endpoint is not
  * proof of an expired session: backends may mislabel permission errors
@@ -13,6 +14,27 @@
  * on those would kick a logged-in user out of the app for a mere missing
  * right. Only a dead session may clear state.
  *
+ * Requests that fail with 401 while the probe (and the Cookie → JWT switch or
+ * JWT refresh it may trigger) runs are parked instead of dropped: they wait for
+ * the one shared recovery. If the session survived and the credentials changed
+ * meanwhile (auth mode or JWT), each parked request is replayed once with the
+ * fresh credentials; otherwise it resolves with its original 401 — for good
+ * once the session is confirmed dead. `$fetch` goes through the same native
+ * `fetch`, so it is replayed as well.
+ *
+ * With `auth.interceptor.forbidden.enabled`, refused requests — 403s, and 401s
+ * of a session the probe found valid — call the `lt:auth:forbidden` hook with
+ * the URL and the parsed `#LTNS_xxxx` code, plus a redirect to the forbidden
+ * page or a translated toast (`forbidden.action`).
+ *
+ * Opt-outs (no probe, no logout, no forbidden handling):
+ * - pages: `auth.interceptor.publicPaths` (prefix, glob or `^` regex, see
+ *   `ltMatchesPathPattern`) or `definePageMeta({ ltAuth: { public: true } })`
+ * - requests: `auth.interceptor.ignoreUrls` (same syntax, matched against the
+ *   URL path) or the fetch option `{ ltSkipAuthInterceptor: true }`
+ * - the Better-Auth endpoints under `auth.basePath` that answer 401 for wrong
+ *   credentials (sign-in, 2FA, passkey, session, …)
+ *
  * Note: This is a client-only plugin (.client.ts) since auth state
  * management only makes sense in the browser context.
  */
@@ -20,7 +42,56 @@
 import type { NuxtApp } from '#app';
 
 import { useLtAuth } from '../composables/auth/use-lt-auth';
-import { getLtApiBase } from '../lib/auth-state';
+import { useLtErrorTranslation } from '../composables/use-lt-error-translation';
+import { callLtAuthHook } from '../lib/auth-hooks';
+import { buildLtApiUrl, getLtApiBase, getLtAuthMode, getLtJwtToken, isLtCsrfError, refreshLtJwtToken } from '../lib/auth-state';
+import { isLtOnline } from '../lib/connectivity';
+import { useLtTranslation } from '../lib/translation';
+import { ltDecodeJwtClaims } from '../utils/jwt';
+import { ltMatchesPathPattern } from '../utils/path-pattern';
+
+/**
+ * Outcome of a session recovery (see `recoverSession`)
+ * - 'alive': the session is valid (permission error, or recovered with new credentials)
+ * - 'dead': the session is gone, the user was logged out
+ * - 'skipped': nothing to recover (auth endpoint, public page, no user) or no verdict (API unreachable)
+ */
+type LtSessionRecovery = 'alive' | 'dead' | 'skipped';
+
+/**
+ * Better-Auth endpoints (relative to `auth.basePath`) where a 401 is an expected
+ * answer (wrong password, invalid code) or part of the Cookie/JWT fallback —
+ * never a reason to probe the session
+ */
+const LT_AUTH_ENDPOINT_PATTERNS = [
+  '/*session*',
+  '/callback/**',
+  '/email-otp/**',
+  '/forget-password/**',
+  '/forgot-password',
+  '/magic-link/**',
+  '/passkey/**',
+  '/request-password-reset',
+  '/reset-password/**',
+  '/send-verification-email',
+  '/sign-in/**',
+  '/sign-out',
+  '/sign-up/**',
+  '/token',
+  '/two-factor/**',
+  '/verify-email',
+];
+
+/**
+ * Path of a URL or path, without origin, query and hash
+ */
+function toPathname(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split(/[?#]/)[0] || '';
+  }
+}
 
 export default (nuxtApp: NuxtApp): void => {
   // Only run on client side
@@ -38,13 +109,35 @@ export default (nuxtApp: NuxtApp): void => {
     return _authInstance;
   }
 
+  // Deferred for the same reason: only needed once a request is refused
+  let _messages: { errors: ReturnType<typeof useLtErrorTranslation>; t: ReturnType<typeof useLtTranslation> } | null = null;
+
+  function getMessages() {
+    if (!_messages) {
+      _messages = { errors: useLtErrorTranslation(), t: useLtTranslation() };
+    }
+    return _messages;
+  }
+
   // Get configuration from runtime config
   const runtimeConfig = nuxtApp.$config?.public?.ltExtensions?.auth || {};
   const loginPath = runtimeConfig.loginPath || '/auth/login';
-  const configuredPublicPaths = runtimeConfig.interceptor?.publicPaths || [];
+  const configuredPublicPaths: string[] = runtimeConfig.interceptor?.publicPaths || [];
+  const ignoreUrls: string[] = runtimeConfig.interceptor?.ignoreUrls || [];
+  const forbiddenConfig = runtimeConfig.interceptor?.forbidden || {};
+  const forbiddenAction: 'hook' | 'redirect' | 'toast' = forbiddenConfig.action || 'hook';
+  const forbiddenPath: string = forbiddenConfig.path || '/forbidden';
+
+  // Last forbidden redirect / toast, so a page with several refused requests reacts once
+  let lastForbiddenReactionAt = 0;
 
-  // Track if we're already handling a 401 to prevent multiple redirects
-  let isHandling401 = false;
+  // The running recovery, shared by every 401 that arrives meanwhile (one probe,
+  // one JWT switch, one redirect)
+  let recovery: null | Promise<LtSessionRecovery> = null;
+
+  // 401 responses the native fetch wrapper already handled, so the $fetch
+  // `onResponseError` hook does not start a second recovery for them
+  const handledResponses = new WeakSet<Response>();
 
   // Default paths that should not trigger auto-logout on 401
   // (public auth endpoints where 401 is expected)
@@ -52,41 +145,31 @@ export default (nuxtApp: NuxtApp): void => {
   const publicAuthPaths = [...new Set([...defaultPublicPaths, ...configuredPublicPaths])];
 
   /**
-   * Check if current route is a public auth route
+   * Check if the current route is public: a configured / default public path,
+   * or a page with `ltAuth.public` meta
    */
   function isPublicAuthRoute(): boolean {
-    const router = nuxtApp.$router as { currentRoute?: { value?: { path?: string } } } | undefined;
+    const router = nuxtApp.$router as { currentRoute?: { value?: { meta?: { ltAuth?: { public?: boolean } }; path?: string } } } | undefined;
     const route = router?.currentRoute?.value;
+    if (route?.meta?.ltAuth?.public) return true;
     if (!route?.path) return false;
-    return publicAuthPaths.some((path) => route.path!.startsWith(path));
+    return ltMatchesPathPattern(route.path, publicAuthPaths);
   }
 
   /**
    * Check if URL is an auth-related endpoint that shouldn't trigger logout
-   * (e.g., login, register, password reset, passkey endpoints)
-   * These endpoints use the authFetch wrapper which handles JWT fallback
+   * (e.g., login, register, password reset, passkey endpoints under the auth
+   * base path) or matches `interceptor.ignoreUrls`. Auth endpoints use the
+   * authFetch wrapper which handles JWT fallback.
    */
   function isAuthEndpoint(url: string): boolean {
-    const authEndpoints = [
-      '/sign-in',
-      '/sign-up',
-      '/sign-out',
-      '/forgot-password',
-      '/reset-password',
-      '/verify-email',
-      '/session',
-      '/token',
-      // Passkey endpoints - handled by authFetch with JWT fallback
-      '/passkey/',
-      '/list-user-passkeys',
-      '/generate-register-options',
-      '/verify-registration',
-      '/generate-authenticate-options',
-      '/verify-authentication',
-      // Two-factor endpoints
-      '/two-factor/',
-    ];
-    return authEndpoints.some((endpoint) => url.includes(endpoint));
+    const path = toPathname(url);
+    if (ltMatchesPathPattern(path, ignoreUrls)) {
+      return true;
+    }
+    // Only under the auth base path, so a domain URL like `/api/sessions` still counts
+    const authBasePath = toPathname(getLtApiBase()).replace(/\/+$/, '');
+    return path.startsWith(`${authBasePath}/`) && ltMatchesPathPattern(path.slice(authBasePath.length), LT_AUTH_ENDPOINT_PATTERNS);
   }
 
   /**
@@ -97,8 +180,8 @@ export default (nuxtApp: NuxtApp): void => {
    * (e.g. network error / API unreachable — no verdict).
    *
    * Recursion-safe: the session URL matches {@link isAuthEndpoint}, so a 401
-   * from the probe itself never re-enters {@link handleUnauthorized} (and
-   * `isHandling401` is set while the probe runs).
+   * from the probe itself never re-enters {@link recoverSession} (and is never
+   * parked behind the recovery it belongs to).
    */
   async function isSessionStillAlive(): Promise<boolean | null> {
     try {
@@ -117,67 +200,179 @@ export default (nuxtApp: NuxtApp): void => {
   }
 
   /**
-   * Handle 401 Unauthorized responses
-   * Verifies the session is genuinely dead, then clears user state and
-   * redirects to the login page
+   * Credentials a request is sent with; a change during a recovery means parked
+   * requests are worth replaying
    */
-  async function handleUnauthorized(requestUrl?: string): Promise<void> {
-    // Prevent multiple simultaneous 401 handling
-    if (isHandling401) {
-      return;
+  function getCredentialsKey(): string {
+    return `${getLtAuthMode()}:${getLtJwtToken() ?? ''}`;
+  }
+
+  /**
+   * Check if URL points at the configured API (a relative URL while no API URL is set)
+   */
+  function isApiRequest(url: string): boolean {
+    const apiUrl = buildLtApiUrl('');
+    return apiUrl ? url.startsWith(apiUrl) : !/^[a-z][a-z\d+.-]*:/i.test(url);
+  }
+
+  /**
+   * Request options for a replay: the current JWT replaces a stale `Bearer`
+   * header, and is added to API requests that relied on the session cookie
+   */
+  function withFreshCredentials(url: string, init: RequestInit | undefined, request: Request | undefined): RequestInit {
+    const headers = new Headers(init?.headers ?? request?.headers);
+    const token = getLtJwtToken();
+    const toApi = isApiRequest(url);
+    if (getLtAuthMode() === 'jwt' && token && (toApi || headers.get('Authorization')?.startsWith('Bearer '))) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return { ...init, credentials: toApi ? 'include' : init?.credentials, headers };
+  }
+
+  /**
+   * Check if a refused request is reported as forbidden: an API request that is
+   * no auth endpoint — a third-party 403 is none of the app's business
+   */
+  function isForbiddenCandidate(url: string): boolean {
+    return forbiddenConfig.enabled && isApiRequest(url) && !isAuthEndpoint(url);
+  }
+
+  /**
+   * Verify the session after a 401; clears user state and redirects to the
+   * login page once it is confirmed dead
+   */
+  async function runRecovery(requestUrl?: string): Promise<LtSessionRecovery> {
+    // Only handle if user was authenticated (prevents redirect loops)
+    const { clearUser, isAuthenticated } = getAuth();
+    if (!isAuthenticated.value) {
+      return 'skipped';
+    }
+
+    // No verdict while offline; the connectivity plugin revalidates once it is back
+    if (!isLtOnline()) {
+      return 'skipped';
+    }
+
+    // An expired JWT (e.g. a sleeping laptop missed the silent refresh) is
+    // renewed first, so the probe and the replays use the new one
+    const expiresAt = getLtAuthMode() === 'jwt' ? ltDecodeJwtClaims(getLtJwtToken())?.exp : undefined;
+    if (typeof expiresAt === 'number' && expiresAt * 1000 <= Date.now()) {
+      await refreshLtJwtToken();
+    }
+
+    // A 401 from a domain endpoint is not proof of an expired session:
+    // backends may mislabel permission errors as 401 instead of 403. Only
+    // log out when the session endpoint confirms the session is dead — an
+    // unverifiable probe (API unreachable) must not log the user out either.
+    const sessionAlive = await isSessionStillAlive();
+    if (sessionAlive !== false) {
+      console.debug(
+        sessionAlive
+          ? `[LtAuth Interceptor] 401 from ${requestUrl ?? 'unknown URL'} but session is still valid — treating it as a permission error, not logging out`
+          : '[LtAuth Interceptor] 401 received but session state could not be verified — not logging out',
+      );
+      return sessionAlive ? 'alive' : 'skipped';
     }
 
+    console.debug('[LtAuth Interceptor] Session expired, logging out...');
+
+    // Login page with return URL
+    const router = nuxtApp.$router as { currentRoute?: { value?: { fullPath?: string } } } | undefined;
+    const currentPath = router?.currentRoute?.value?.fullPath;
+    const redirectQuery = currentPath && currentPath !== loginPath ? `?redirect=${encodeURIComponent(currentPath)}` : '';
+
+    callLtAuthHook('lt:auth:session-expired', { reason: 'session-expired', redirect: loginPath + redirectQuery, url: requestUrl ?? null });
+
+    // Clear user state
+    clearUser('session-expired');
+
+    // Use window.location for redirect to avoid Nuxt router issues
+    window.location.href = loginPath + redirectQuery;
+    return 'dead';
+  }
+
+  /**
+   * Start a recovery for a 401, or join the one already running
+   */
+  function recoverSession(requestUrl?: string): Promise<LtSessionRecovery> {
     // Don't handle 401 for auth endpoints (expected behavior)
     if (requestUrl && isAuthEndpoint(requestUrl)) {
-      return;
+      return Promise.resolve('skipped');
     }
 
     // Don't handle 401 on public auth pages
     if (isPublicAuthRoute()) {
-      return;
+      return Promise.resolve('skipped');
     }
 
-    isHandling401 = true;
+    if (!recovery) {
+      recovery = runRecovery(requestUrl).finally(() => {
+        recovery = null;
+      });
+    }
+    return recovery;
+  }
 
-    try {
-      // Only handle if user was authenticated (prevents redirect loops)
-      const { clearUser, isAuthenticated } = getAuth();
-      if (isAuthenticated.value) {
-        // A 401 from a domain endpoint is not proof of an expired session:
-        // backends may mislabel permission errors as 401 instead of 403. Only
-        // log out when the session endpoint confirms the session is dead — an
-        // unverifiable probe (API unreachable) must not log the user out either.
-        const sessionAlive = await isSessionStillAlive();
-        if (sessionAlive !== false) {
-          console.debug(
-            sessionAlive
-              ? `[LtAuth Interceptor] 401 from ${requestUrl ?? 'unknown URL'} but session is still valid — treating it as a permission error, not logging out`
-              : '[LtAuth Interceptor] 401 received but session state could not be verified — not logging out',
-          );
-          return;
-        }
+  /**
+   * Handle 401 Unauthorized responses
+   * Verifies the session is genuinely dead, then clears user state and
+   * redirects to the login page
+   */
+  async function handleUnauthorized(requestUrl?: string): Promise<void> {
+    await recoverSession(requestUrl);
+  }
 
-        console.debug('[LtAuth Interceptor] Session expired, logging out...');
+  /**
+   * Handle a refused request (403, or a 401 of a valid session): call
+   * `lt:auth:forbidden`, then redirect or toast as configured
+   *
+   * @param body - The parsed response body (`{ message: '#LTNS_0101: …' }` from nest-server)
+   */
+  function handleForbidden(url: string, status: 401 | 403, body: unknown): void {
+    const { errors, t } = getMessages();
+    const rawMessage = typeof body === 'string' ? body : (body as { message?: unknown } | null)?.message;
+    const parsed = errors.parseError(typeof rawMessage === 'string' ? rawMessage : '');
+    const message = parsed.translatedMessage || t('lt.auth.forbiddenMessage', 'Sie haben keine Berechtigung für diese Aktion');
 
-        // Clear user state
-        clearUser();
+    callLtAuthHook('lt:auth:forbidden', { code: parsed.code, message, status, url });
 
-        // Redirect to login page with return URL
-        const router = nuxtApp.$router as { currentRoute?: { value?: { fullPath?: string } } } | undefined;
-        const currentPath = router?.currentRoute?.value?.fullPath;
-        const redirectQuery = currentPath && currentPath !== loginPath ? `?redirect=${encodeURIComponent(currentPath)}` : '';
+    if (forbiddenAction === 'hook' || Date.now() - lastForbiddenReactionAt < 2000) {
+      return;
+    }
+    lastForbiddenReactionAt = Date.now();
 
-        // Use window.location for redirect to avoid Nuxt router issues
-        window.location.href = loginPath + redirectQuery;
-      }
-    } finally {
-      // Reset flag after a short delay to allow navigation to complete
-      setTimeout(() => {
-        isHandling401 = false;
-      }, 1000);
+    if (forbiddenAction === 'toast') {
+      errors.showErrorToast(message, t('lt.auth.forbiddenTitle', 'Keine Berechtigung'));
+      return;
+    }
+
+    const router = nuxtApp.$router as { currentRoute?: { value?: { path?: string } }; push?: (to: unknown) => unknown } | undefined;
+    if (router?.currentRoute?.value?.path !== forbiddenPath) {
+      router?.push?.({ path: forbiddenPath, query: parsed.code ? { code: parsed.code } : {} });
     }
   }
 
+  /**
+   * {@link handleForbidden} for a native fetch response; the body is read from a
+   * clone, so the caller still gets an unread response. A stale CSRF token is no
+   * permission error: `withLtCsrf` refreshes it and sends the request again.
+   */
+  function reportForbidden(url: string, response: Response): void {
+    if (!isForbiddenCandidate(url)) {
+      return;
+    }
+    const status = response.status as 401 | 403;
+    response
+      .clone()
+      .json()
+      .catch(() => null)
+      .then((body) => {
+        if (!isLtCsrfError(status, body)) {
+          handleForbidden(url, status, body);
+        }
+      });
+  }
+
   // Guard against double-wrapping on HMR / repeated plugin invocation. Without
   // this, `originalFetch` / `originalNativeFetch` become the *previous wrapper*
   // on each reload — stack growth + duplicated 401 handlers (double redirect).
@@ -208,9 +403,15 @@ export default (nuxtApp: NuxtApp): void => {
             options.onResponseError(context);
           }
 
-          // Handle 401 errors
-          if (context.response?.status === 401) {
+          // Handle 401 / 403 errors the native fetch wrapper has not seen (e.g. a
+          // custom `fetch` passed to ofetch)
+          if (!context.response || handledResponses.has(context.response) || options?.ltSkipAuthInterceptor) {
+            return;
+          }
+          if (context.response.status === 401) {
             handleUnauthorized(url);
+          } else if (context.response.status === 403 && isForbiddenCandidate(url) && !isLtCsrfError(403, context.response._data)) {
+            handleForbidden(url, 403, context.response._data);
           }
         },
       });
@@ -220,14 +421,37 @@ export default (nuxtApp: NuxtApp): void => {
     const originalNativeFetch = globalThis.fetch;
 
     globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
-      const response = await originalNativeFetch(input, init);
+      // A Request body can be read only once; keep a copy for a replay
+      const request = input instanceof Request ? input.clone() : undefined;
+      const sentWith = getCredentialsKey();
+      let response = await originalNativeFetch(input, init);
+      if ((response.status !== 401 && response.status !== 403) || init?.ltSkipAuthInterceptor) {
+        return response;
+      }
 
-      // Handle 401 errors from native fetch
+      handledResponses.add(response);
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+
+      // Park 401 errors from native fetch until the session is recovered
       if (response.status === 401) {
-        const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
-        handleUnauthorized(url);
+        // Sent before a recovery that already renewed the credentials: no second probe
+        const renewed = getCredentialsKey() !== sentWith && !recovery && getAuth().isAuthenticated.value && !isAuthEndpoint(url);
+        const verdict = renewed ? 'alive' : await recoverSession(url);
+
+        // Replayed once; a second 401 is returned as is (e.g. a real permission error)
+        if (verdict === 'alive' && getCredentialsKey() !== sentWith) {
+          response = await originalNativeFetch(request ?? input, withFreshCredentials(url, init, request));
+          handledResponses.add(response);
+        }
+        if (verdict !== 'alive') {
+          return response;
+        }
       }
 
+      // A valid session that is still refused: a permission error
+      if (response.status === 401 || response.status === 403) {
+        reportForbidden(url, response);
+      }
       return response;
     };
   }
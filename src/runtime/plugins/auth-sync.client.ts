@@ -0,0 +1,65 @@
+/**
+ * Auth Sync Plugin
+ *
+ * Keeps every open tab in line with auth changes made in another tab. Without
+ * it, a logout in one tab leaves the others showing the app until their next
+ * 401 reaches the auth interceptor.
+ *
+ * On every message from another tab (see `broadcastLtAuthSync`):
+ * 1. The auth cookies are re-read into every `useCookie` ref of this tab, so
+ *    `useLtAuth().user` / `isAuthenticated` / `authMode` update at once
+ * 2. The matching `lt:auth:*` hook is called with reason 'sync'
+ * 3. After a login or logout, the current route is navigated again (if
+ *    `auth.sync.redirect` is enabled), so the route middleware decides —
+ *    e.g. `lt-auth` sends a signed-out tab on a protected page to the login page
+ *
+ * Nothing is written here: the cookies are shared by all tabs, the sending tab
+ * already wrote them. Writing from the receiving side could resurrect a cookie
+ * the sender just deleted.
+ *
+ * Note: This is a client-only plugin (.client.ts) since tabs only exist in the
+ * browser context.
+ */
+
+import type { NuxtApp } from '#app';
+
+import type { LtAuthState } from '../types';
+
+import { refreshCookie, useCookie } from '#imports';
+import { callLtAuthChangeHook } from '../lib/auth-hooks';
+import { getLtAuthCookieNames, onLtAuthSync, resolveLtAuthState } from '../lib/auth-state';
+
+export default (nuxtApp: NuxtApp): void => {
+  // Only run on client side
+  if (import.meta.server) return;
+
+  const runtimeConfig = nuxtApp.$config?.public?.ltExtensions?.auth || {};
+  const redirect = runtimeConfig.sync?.redirect ?? true;
+
+  onLtAuthSync((event) => {
+    const { state, token } = getLtAuthCookieNames();
+    // This tab's refs still hold the state before the change
+    const previous = useCookie<LtAuthState | null>(state).value ?? null;
+    refreshCookie(state);
+    refreshCookie(token);
+    callLtAuthChangeHook(event.type, previous, resolveLtAuthState(document.cookie, state), 'sync');
+
+    if (!redirect || (event.type !== 'login' && event.type !== 'logout')) {
+      return;
+    }
+
+    const router = nuxtApp.$router as
+      | {
+          currentRoute?: { value?: { hash?: string; path?: string; query?: Record<string, unknown> } };
+          replace?: (to: Record<string, unknown>) => Promise<unknown>;
+        }
+      | undefined;
+    const route = router?.currentRoute?.value;
+    if (!route?.path || !router?.replace) {
+      return;
+    }
+
+    // `force` re-runs the route middleware for the unchanged location
+    router.replace({ force: true, hash: route.hash, path: route.path, query: route.query }).catch(() => {});
+  });
+};
@@ -0,0 +1,49 @@
+/**
+ * Connectivity Plugin
+ *
+ * Feeds the browser's online / offline events into the shared connectivity
+ * state (see `useLtConnectivity`) and handles the return of the connection:
+ * 1. `online` / `offline` events and the initial `navigator.onLine`
+ * 2. Tab visible again while offline: probe the API at once instead of
+ *    waiting for the next probe interval
+ * 3. `lt:connectivity:restored` with a signed-in user: revalidate the session,
+ *    which `validateSession()` skipped while offline
+ *
+ * `useLtAuth()` is only called from the hook, long after project plugins
+ * registered their Better-Auth plugins (see the auth interceptor).
+ *
+ * Note: This is a client-only plugin (.client.ts) since the online state and
+ * the page visibility only exist in the browser context.
+ */
+
+import type { NuxtApp } from '#app';
+
+import { useRuntimeConfig } from '#imports';
+import { useLtAuth } from '../composables/auth/use-lt-auth';
+import { checkLtConnectivity, isLtOnline, setLtBrowserOnline } from '../lib/connectivity';
+
+export default (nuxtApp: NuxtApp): void => {
+  // Only run on client side
+  if (import.meta.server) return;
+
+  setLtBrowserOnline(navigator.onLine);
+  window.addEventListener('online', () => setLtBrowserOnline(true));
+  window.addEventListener('offline', () => setLtBrowserOnline(false));
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible' && !isLtOnline()) {
+      checkLtConnectivity().catch(() => {});
+    }
+  });
+
+  if (useRuntimeConfig().public?.ltExtensions?.auth?.enabled === false) {
+    return;
+  }
+
+  nuxtApp.hook('lt:connectivity:restored', async () => {
+    const { isAuthenticated, validateSession } = useLtAuth();
+    if (isAuthenticated.value) {
+      await validateSession();
+    }
+  });
+};
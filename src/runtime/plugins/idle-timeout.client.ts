@@ -0,0 +1,26 @@
+/**
+ * Idle Timeout Plugin
+ *
+ * Starts the inactivity tracking of `useLtIdleTimeout` for the whole app, so
+ * the sign-out also happens on pages that never call the composable.
+ *
+ * The start is deferred to `app:mounted`: `useLtIdleTimeout` calls `useLtAuth()`,
+ * which must not create the auth client before project plugins registered
+ * their Better-Auth plugins (see the auth interceptor).
+ *
+ * Note: This is a client-only plugin (.client.ts) since user activity and
+ * localStorage only exist in the browser context.
+ */
+
+import type { NuxtApp } from '#app';
+
+import { useLtIdleTimeout } from '../composables/auth/use-lt-idle-timeout';
+
+export default (nuxtApp: NuxtApp): void => {
+  // Only run on client side
+  if (import.meta.server) return;
+
+  nuxtApp.hook('app:mounted', () => {
+    nuxtApp.runWithContext(() => useLtIdleTimeout());
+  });
+};
@@ -0,0 +1,32 @@
+/**
+ * JWT Refresh Plugin
+ *
+ * Refreshes the stored JWT shortly before its `exp` claim, so JWT-mode users
+ * never run into an avoidable 401 (see `scheduleLtJwtRefresh`).
+ *
+ * The schedule itself is re-armed wherever the token is written. This plugin
+ * only covers what happens outside those writes:
+ * 1. App start: arm the schedule for the token already in the cookie
+ * 2. Tab hidden: pause; tab visible again: re-arm (refreshes at once if due)
+ * 3. Another tab refreshed, switched mode or logged out: re-arm for the new token
+ *
+ * Note: This is a client-only plugin (.client.ts) since the token cookie and
+ * the page visibility only exist in the browser context.
+ */
+
+import { onLtAuthSync, scheduleLtJwtRefresh } from '../lib/auth-state';
+
+export default (): void => {
+  // Only run on client side
+  if (import.meta.server) return;
+
+  scheduleLtJwtRefresh();
+
+  document.addEventListener('visibilitychange', () => {
+    scheduleLtJwtRefresh();
+  });
+
+  onLtAuthSync(() => {
+    scheduleLtJwtRefresh();
+  });
+};
@@ -0,0 +1,165 @@
+/**
+ * Server-side auth utilities for Nitro routes (`server/api/**`)
+ *
+ * The client composables (`useLtAuth`, `ltAuthFetch`) never run inside a Nitro
+ * handler, so project routes had no way to ask "who is calling?". These helpers
+ * resolve the session by forwarding the incoming credentials to the backend
+ * `GET {basePath}/get-session` — the backend stays the single source of truth,
+ * the Nuxt server never validates tokens itself.
+ *
+ * Forwarded credentials:
+ * - the raw `Cookie` header (cookie mode: the httpOnly Better-Auth session cookie)
+ * - the `Authorization: Bearer …` header when present, otherwise the JWT from the
+ *   `lt-jwt-token` cookie when the `lt-auth-state` cookie says the client is in
+ *   JWT mode (`$fetch` to a project route does not add the header on its own)
+ *
+ * The result is cached on `event.context` so a handler calling several helpers
+ * costs one backend round-trip per request.
+ *
+ * @example
+ * ```typescript
+ * // server/api/reports.get.ts
+ * export default defineEventHandler(async (event) => {
+ *   const user = await requireLtRole(event, 'admin', 'controller');
+ *   return loadReports(user.id);
+ * });
+ * ```
+ */
+
+import type { H3Event } from 'h3';
+import { createError, getRequestHeader, parseCookies } from 'h3';
+
+import { useRuntimeConfig } from '#imports';
+import type { LtSessionData, LtUser } from '../../types';
+import { parseLtAuthStateCookie, resolveLtAuthCookieNames } from '../../lib/auth-cookies';
+
+/** Key under which the per-request session lookup is cached on `event.context`. */
+const SESSION_CONTEXT_KEY = 'ltAuthSession';
+
+/**
+ * Resolve the backend IAM base URL for server-side calls.
+ *
+ * Mirrors the SSR branch of `resolveLtApiBaseUrl()`: `NUXT_API_URL` (internal,
+ * never public) → `NUXT_PUBLIC_API_URL` → `auth.baseURL`. The dev proxy never
+ * applies on the server.
+ */
+function resolveLtServerApiBase(event: H3Event): string {
+  const runtimeConfig = useRuntimeConfig(event) as Record<string, any>;
+  const pub = runtimeConfig.public || {};
+  const apiUrl = String(runtimeConfig.apiUrl || pub.apiUrl || pub.ltExtensions?.auth?.baseURL || '').replace(/\/+$/, '');
+  const basePath = pub.ltExtensions?.auth?.basePath || '/iam';
+  return `${apiUrl}${basePath}`;
+}
+
+/**
+ * Read the JWT from the token cookie, tolerating the JSON-quoted form `useCookie` writes.
+ */
+function readJwtFromCookies(cookies: Record<string, string>, tokenCookieName: string): string | null {
+  const raw = cookies[tokenCookieName];
+  if (!raw) {
+    return null;
+  }
+  try {
+    return raw.startsWith('"') && raw.endsWith('"') ? (JSON.parse(raw) as string) : raw;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the credential headers to forward to the backend session endpoint.
+ */
+function buildForwardHeaders(event: H3Event): Headers {
+  const headers = new Headers({ Accept: 'application/json' });
+  const cookieHeader = getRequestHeader(event, 'cookie') || '';
+  const authorization = getRequestHeader(event, 'authorization');
+
+  if (cookieHeader) {
+    headers.set('Cookie', cookieHeader);
+  }
+
+  if (authorization) {
+    headers.set('Authorization', authorization);
+  } else if (cookieHeader) {
+    const { state, token } = resolveLtAuthCookieNames(useRuntimeConfig(event).public);
+    if (parseLtAuthStateCookie(cookieHeader, state)?.authMode === 'jwt') {
+      const jwt = readJwtFromCookies(parseCookies(event), token);
+      if (jwt) {
+        headers.set('Authorization', `Bearer ${jwt}`);
+      }
+    }
+  }
+
+  return headers;
+}
+
+async function fetchLtSession(event: H3Event): Promise<LtSessionData | null> {
+  const headers = buildForwardHeaders(event);
+
+  // No credentials at all: nothing the backend could resolve — skip the round-trip.
+  if (!headers.has('Cookie') && !headers.has('Authorization')) {
+    return null;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${resolveLtServerApiBase(event)}/get-session`, { headers, method: 'GET' });
+  } catch (error) {
+    // Unreachable backend is not proof of a missing session — do not answer 401.
+    console.warn('[LtAuth] Session lookup failed, backend unreachable:', error);
+    throw createError({ statusCode: 503, statusMessage: 'Auth backend unreachable' });
+  }
+
+  if (!response.ok) {
+    return null;
+  }
+
+  // Better Auth returns 200 with a null body when there is no session
+  const data = (await response.json().catch(() => null)) as LtSessionData | null;
+  return data?.user ? data : null;
+}
+
+/**
+ * Resolve the session of the incoming request, or `null` when it carries none.
+ *
+ * Cached per request: concurrent and repeated calls share a single backend
+ * lookup. Throws a 503 `createError` when the backend cannot be reached, so an
+ * outage never masquerades as "logged out".
+ */
+export function getLtSession(event: H3Event): Promise<LtSessionData | null> {
+  const context = event.context as Record<string, unknown>;
+  if (!context[SESSION_CONTEXT_KEY]) {
+    context[SESSION_CONTEXT_KEY] = fetchLtSession(event);
+  }
+  return context[SESSION_CONTEXT_KEY] as Promise<LtSessionData | null>;
+}
+
+/**
+ * Return the authenticated user, or throw a 401 `createError`.
+ */
+export async function requireLtUser(event: H3Event): Promise<LtUser> {
+  const session = await getLtSession(event);
+  if (!session?.user) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+  return session.user;
+}
+
+/**
+ * Return the authenticated user when they hold ANY of `roles`.
+ *
+ * Throws a 401 `createError` without a session and a 403 without a matching
+ * role. Role matching follows `useLtAuth().hasAnyRole`: both the Better-Auth
+ * `role` and the nest-server `roles` shape count, and a malformed non-array
+ * `roles` never matches. Unlike the client-side checks this one reads the
+ * backend session, not the client-writable `lt-auth-state` cookie — but the
+ * backend still has to enforce its own rights on the data it returns.
+ */
+export async function requireLtRole(event: H3Event, ...roles: string[]): Promise<LtUser> {
+  const user = await requireLtUser(event);
+  const granted = roles.some((role) => user.role === role || (Array.isArray(user.roles) && user.roles.includes(role)));
+  if (!granted) {
+    throw createError({ statusCode: 403, statusMessage: 'Forbidden' });
+  }
+  return user;
+}
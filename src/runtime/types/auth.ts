@@ -1,4 +1,4 @@
-import type { ComputedRef, Ref } from 'vue';
+import type { ComputedRef, DeepReadonly, Directive, Ref } from 'vue';
 
 // =============================================================================
 // User & Session Types
@@ -36,6 +36,30 @@ export interface LtUser {
   twoFactorEnabled?: boolean;
 }
 
+/**
+ * Better-Auth session record (the `session` key of `GET /iam/get-session`).
+ * Dates arrive as ISO strings over the wire and as `Date` from the Vue client.
+ */
+export interface LtSession {
+  createdAt?: Date | string;
+  expiresAt: Date | string;
+  id: string;
+  ipAddress?: null | string;
+  token?: string;
+  updatedAt?: Date | string;
+  userAgent?: null | string;
+  userId: string;
+}
+
+/**
+ * Payload of `GET /iam/get-session`: the active session plus its user.
+ * Better Auth answers `null` instead when there is no session.
+ */
+export interface LtSessionData {
+  session: LtSession;
+  user: LtUser;
+}
+
 /**
  * Authentication mode for Cookie/JWT dual-mode authentication
  * - 'cookie': Primary mode using HttpOnly session cookies (more secure)
@@ -48,9 +72,204 @@ export type LtAuthMode = 'cookie' | 'jwt';
  */
 export interface LtAuthState {
   authMode: LtAuthMode;
+  /** Set while an admin acts as {@link LtAuthState.user} (see `useLtAuth().impersonate`) */
+  impersonation?: LtAuthImpersonation | null;
+  user: LtUser | null;
+}
+
+/**
+ * Marker of an active impersonation in `lt-auth-state`
+ *
+ * Only ids and flags: the admin's cached user and JWT stay in memory (see
+ * `useLtAuth().impersonate`). Like the rest of `lt-auth-state`, this is a
+ * client-side cache: the server decides who the session belongs to.
+ */
+export interface LtAuthImpersonation {
+  /** Auth mode of the admin before impersonating */
+  adminAuthMode: LtAuthMode;
+  /** ID of the impersonating admin */
+  adminId: string;
+}
+
+/**
+ * Claims of the JWT stored in the `lt-jwt-token` cookie (decoded, NOT verified)
+ */
+export interface LtJwtClaims {
+  /** Expiry (seconds since epoch) */
+  exp?: number;
+  /** Issued at (seconds since epoch) */
+  iat?: number;
+  /** Subject — the user ID */
+  sub?: string;
+  /** Further claims added by the backend */
+  [claim: string]: unknown;
+}
+
+// =============================================================================
+// Cross-Tab Sync
+// =============================================================================
+
+/**
+ * Kind of auth change broadcast to the other open tabs
+ * - 'login': a user signed in (or a different user replaced the previous one)
+ * - 'logout': the user was cleared
+ * - 'user-update': the same user's cached data changed
+ * - 'auth-mode-switch': the Cookie/JWT mode changed
+ * - 'token-refreshed': a new JWT was stored (e.g. the silent refresh), the mode stays
+ */
+export type LtAuthSyncEventType = 'auth-mode-switch' | 'login' | 'logout' | 'token-refreshed' | 'user-update';
+
+/**
+ * Message exchanged between tabs (BroadcastChannel, or the storage-event fallback)
+ *
+ * Carries no user data: the cookies are shared by all tabs, so receivers
+ * re-read them instead of trusting a message payload.
+ */
+export interface LtAuthSyncEvent {
+  /** Timestamp of the change (ms since epoch) */
+  at: number;
+  /** Auth mode after the change */
+  authMode: LtAuthMode;
+  /** Kind of change */
+  type: LtAuthSyncEventType;
+  /** ID of the signed-in user after the change (`null` after logout) */
+  userId: null | string;
+}
+
+// =============================================================================
+// Lifecycle Hooks
+// =============================================================================
+
+/**
+ * Why the auth state changed (`reason` of every `lt:auth:*` hook)
+ * - 'sign-in' / 'sign-up': a sign-in method or the registration in this tab
+ * - 'sign-out': `signOut()`
+ * - 'session': `validateSession()` restored or refreshed the session user
+ * - 'session-expired': the auth interceptor confirmed a dead session
+ * - 'idle': the inactivity timeout (`signOut(options, 'idle')`)
+ * - 'impersonation': an admin started or stopped an impersonation
+ * - 'unauthorized': a 401 in cookie mode triggered the JWT fallback
+ * - 'sync': the change was made in another tab
+ * - 'manual': `setUser()` / `clearUser()` / `switchToJwtMode()` without a reason
+ */
+export type LtAuthChangeReason = 'idle' | 'impersonation' | 'manual' | 'session' | 'session-expired' | 'sign-in' | 'sign-out' | 'sign-up' | 'sync' | 'unauthorized';
+
+/** Payload of `lt:auth:forbidden` (auth interceptor, `auth.interceptor.forbidden`) */
+export interface LtAuthForbiddenHookPayload {
+  /** Backend error code from a `#LTNS_xxxx: …` message (e.g. 'LTNS_0101'), `null` when absent */
+  code: null | string;
+  /** Translated error message (or the backend message when there is no translation) */
+  message: string;
+  /** 403, or 401 when the session turned out to be valid (permission error labeled as 401) */
+  status: 401 | 403;
+  /** The request that was refused */
+  url: string;
+}
+
+/** Payload of `lt:auth:login` (a user signed in, or a different user replaced the previous one) */
+export interface LtAuthLoginHookPayload {
+  authMode: LtAuthMode;
+  reason: LtAuthChangeReason;
+  user: LtUser;
+}
+
+/** Payload of `lt:auth:logout` */
+export interface LtAuthLogoutHookPayload {
+  reason: LtAuthChangeReason;
+  /** The user that was signed in (`null` when unknown, e.g. a logout in another tab) */
   user: LtUser | null;
 }
 
+/** Payload of `lt:auth:mode-switched` */
+export interface LtAuthModeSwitchedHookPayload {
+  from: LtAuthMode;
+  reason: LtAuthChangeReason;
+  to: LtAuthMode;
+}
+
+/** Payload of `lt:auth:session-expired`, called right before the logout and the redirect */
+export interface LtAuthSessionExpiredHookPayload {
+  reason: LtAuthChangeReason;
+  /** Login page URL the user is sent to (with `?redirect=`) */
+  redirect: string;
+  /** The request whose 401 revealed the dead session */
+  url: null | string;
+}
+
+/** Payload of `lt:auth:user-updated` (same user, changed data) */
+export interface LtAuthUserUpdatedHookPayload {
+  previous: LtUser;
+  reason: LtAuthChangeReason;
+  user: LtUser;
+}
+
+/**
+ * Auth lifecycle hooks called on the Nuxt app (declared in `RuntimeNuxtHooks`)
+ *
+ * Handlers run after the state change; they are not awaited by the auth flow
+ * and a throwing handler is only logged.
+ *
+ * @example
+ * ```typescript
+ * // plugins/auth-hooks.client.ts
+ * export default defineNuxtPlugin((nuxtApp) => {
+ *   nuxtApp.hook('lt:auth:logout', ({ reason }) => {
+ *     useCartStore().$reset();
+ *     analytics.track('logout', { reason });
+ *   });
+ *   nuxtApp.hook('lt:auth:mode-switched', () => socket.reconnect());
+ * });
+ * ```
+ */
+export interface LtAuthHooks {
+  'lt:auth:forbidden': (payload: LtAuthForbiddenHookPayload) => Promise<void> | void;
+  'lt:auth:login': (payload: LtAuthLoginHookPayload) => Promise<void> | void;
+  'lt:auth:logout': (payload: LtAuthLogoutHookPayload) => Promise<void> | void;
+  'lt:auth:mode-switched': (payload: LtAuthModeSwitchedHookPayload) => Promise<void> | void;
+  'lt:auth:session-expired': (payload: LtAuthSessionExpiredHookPayload) => Promise<void> | void;
+  'lt:auth:user-updated': (payload: LtAuthUserUpdatedHookPayload) => Promise<void> | void;
+}
+
+/** Payload of `lt:connectivity:restored` */
+export interface LtConnectivityRestoredHookPayload {
+  /** Start of the offline phase that just ended */
+  offlineSince: Date;
+}
+
+/**
+ * Connectivity hooks called on the Nuxt app (see `useLtConnectivity`)
+ *
+ * @example
+ * ```typescript
+ * nuxtApp.hook('lt:connectivity:restored', () => refreshNuxtData());
+ * ```
+ */
+export interface LtConnectivityHooks {
+  'lt:connectivity:restored': (payload: LtConnectivityRestoredHookPayload) => Promise<void> | void;
+}
+
+declare module '#app' {
+  interface RuntimeNuxtHooks extends LtAuthHooks, LtConnectivityHooks {}
+}
+
+// =============================================================================
+// Token Storage
+// =============================================================================
+
+/**
+ * Where the JWT of the JWT mode is kept (`ltExtensions.auth.tokenStorage`)
+ *
+ * Built-in: 'cookie' (default), 'sessionStorage', 'memory'; custom adapters are
+ * added via `registerLtTokenStorage(name, storage)`. Both methods are
+ * synchronous — an adapter for an async backend keeps an in-memory copy.
+ */
+export interface LtTokenStorage {
+  /** Return the stored token (`null` when none) */
+  get: () => null | string;
+  /** Store the token, or remove it for `null` */
+  set: (token: null | string) => void;
+}
+
 // =============================================================================
 // Auth Client Configuration
 // =============================================================================
@@ -66,6 +285,10 @@ export interface LtAuthClientConfig {
   basePath?: string;
   /** Enable admin plugin (default: true) */
   enableAdmin?: boolean;
+  /** Enable email OTP plugin (default: false) */
+  enableEmailOtp?: boolean;
+  /** Enable magic link plugin (default: false) */
+  enableMagicLink?: boolean;
   /** Enable passkey plugin (default: true) */
   enablePasskey?: boolean;
   /** Enable 2FA plugin (default: true) */
@@ -113,6 +336,26 @@ export interface LtPasskeyRegisterResult {
   success: boolean;
 }
 
+/**
+ * A registered passkey (Better-Auth `GET /passkey/list-user-passkeys`)
+ */
+export interface LtPasskey {
+  /** Authenticator model identifier (see `useLtPasskeys().getDeviceLabel`) */
+  aaguid?: null | string;
+  /** `true` when the credential is synced (e.g. iCloud Keychain, Google Password Manager) */
+  backedUp?: boolean;
+  createdAt?: Date | string;
+  credentialID?: string;
+  /** 'multiDevice' (synced) or 'singleDevice' (bound to one authenticator) */
+  deviceType?: string;
+  id: string;
+  /** User-chosen name */
+  name?: null | string;
+  /** Comma-separated WebAuthn transports (e.g. 'internal,hybrid') */
+  transports?: null | string;
+  userId?: string;
+}
+
 // =============================================================================
 // Auth Composable Return Type
 // =============================================================================
@@ -127,6 +370,10 @@ export interface UseLtAuthReturn {
   isJwtMode: ComputedRef<boolean>;
   isLoading: ComputedRef<boolean>;
   jwtToken: Ref<string | null>;
+  /** Decoded claims of {@link UseLtAuthReturn.jwtToken} (not verified; `null` without a decodable JWT) */
+  tokenClaims: ComputedRef<LtJwtClaims | null>;
+  /** Expiry of {@link UseLtAuthReturn.jwtToken} from its `exp` claim (`null` when unknown) */
+  tokenExpiresAt: ComputedRef<Date | null>;
   user: ComputedRef<LtUser | null>;
 
   // User properties
@@ -158,6 +405,12 @@ export interface UseLtAuthReturn {
    * @see {@link LtUser.roles}
    */
   hasRole: (role: string) => boolean;
+  /**
+   * The admin acting as {@link UseLtAuthReturn.user} while impersonating, otherwise `null`
+   *
+   * Kept in memory only: after a reload it is `null` while {@link UseLtAuthReturn.isImpersonating} stays `true`.
+   */
+  impersonatedBy: ComputedRef<LtUser | null>;
   is2FAEnabled: ComputedRef<boolean>;
   /**
    * `true` when the current user is an admin in EITHER supported shape:
@@ -175,6 +428,8 @@ export interface UseLtAuthReturn {
    * @see {@link LtUser.roles}
    */
   isAdmin: ComputedRef<boolean>;
+  /** `true` while an admin impersonates the current user (see {@link UseLtAuthReturn.impersonate}) */
+  isImpersonating: ComputedRef<boolean>;
 
   // Feature detection
   features: ComputedRef<Record<string, boolean | number | string[]>>;
@@ -183,23 +438,832 @@ export interface UseLtAuthReturn {
   // Auth actions
   authenticateWithPasskey: () => Promise<LtPasskeyAuthResult>;
   changePassword: (params: { currentPassword: string; newPassword: string }, options?: unknown) => Promise<unknown>;
-  clearUser: () => void;
+  clearUser: (reason?: LtAuthChangeReason) => void;
   fetchWithAuth: (url: string, options?: RequestInit) => Promise<Response>;
+  /**
+   * Complete a redirect-based sign-in (`signIn.social`, `signIn.magicLink`) on
+   * `auth.callbackPath`: verifies a magic link `?token=`, stores the session user
+   * and switches to JWT mode where possible. Reads `window.location.search`
+   * unless a route query is passed.
+   *
+   * @example
+   * // const { redirect, success } = await handleSignInCallback(route.query);
+   * // await navigateTo(success ? redirect : '/auth/login');
+   */
+  handleSignInCallback: (query?: Record<string, unknown>) => Promise<LtSignInCallbackResult>;
+  /**
+   * Act as another user (Better-Auth admin plugin). Resolves `false` when the
+   * backend refuses, nobody is signed in, or an impersonation is already active.
+   *
+   * @example
+   * // await impersonate(row.id) && navigateTo('/')
+   */
+  impersonate: (userId: string) => Promise<boolean>;
+  /** Link an OAuth account to the signed-in user (redirects; returns to `callbackURL`, default: current page) */
+  linkSocial: (provider: string, options?: { callbackURL?: string; scopes?: string[] }) => Promise<void>;
+  /** Accounts (credential + OAuth) linked to the signed-in user */
+  listAccounts: () => Promise<LtLinkedAccount[]>;
   refreshJwtToken: () => Promise<boolean>;
   registerPasskey: (name?: string) => Promise<LtPasskeyRegisterResult>;
-  setUser: (userData: LtUser | null, mode?: LtAuthMode) => void;
+  /**
+   * Make sure the user authenticated within the last `maxAgeSeconds` (default: 300)
+   * before a sensitive action. The last authentication is the creation of the
+   * session (`get-session`) or the last confirmation in this tab; when it is
+   * older, the prompt registered via `registerLtReauthPrompt` asks for the
+   * password, a passkey or a TOTP code. Works in cookie and JWT mode.
+   *
+   * UI flow only — the backend must check the session age itself (Better-Auth
+   * `session.freshAge`); a TOTP-only confirmation does not renew the session.
+   *
+   * @returns `true` when the authentication is recent (now), `false` when the
+   * user cancelled, failed `maxAttempts` times, or no prompt is registered
+   *
+   * @example
+   * ```typescript
+   * if (await requireRecentAuth(300, { reason: 'Delete account' })) {
+   *   await deleteAccount();
+   * }
+   * ```
+   */
+  requireRecentAuth: (maxAgeSeconds?: number, options?: LtRequireRecentAuthOptions) => Promise<boolean>;
+  /** Send a one-time code by email (`enableEmailOtp`); throws the backend message on failure */
+  sendEmailOtp: (email: string, type?: LtEmailOtpType) => Promise<boolean>;
+  setUser: (userData: LtUser | null, mode?: LtAuthMode, reason?: LtAuthChangeReason) => void;
   signIn: {
     email: (params: { email: string; password: string; rememberMe?: boolean }, options?: unknown) => Promise<unknown>;
+    /** Sign in with a code from `sendEmailOtp` (`enableEmailOtp`) */
+    emailOtp: (params: { email: string; otp: string }) => Promise<unknown>;
+    /** Email a sign-in link that opens `auth.callbackPath` (`enableMagicLink`) */
+    magicLink: (params: { email: string; name?: string; redirect?: string }) => Promise<unknown>;
     passkey?: (options?: unknown) => Promise<unknown>;
+    /** Redirect to an OAuth provider from `auth.socialProviders` */
+    social: (provider: string, options?: LtSocialSignInOptions) => Promise<unknown>;
   };
-  signOut: (options?: unknown) => Promise<unknown>;
+  /** Sign out; `reason` is passed to `lt:auth:logout` (default: 'sign-out') */
+  signOut: (options?: unknown, reason?: LtAuthChangeReason) => Promise<unknown>;
   signUp: {
     email: (params: { email: string; name: string; password: string } & Record<string, unknown>, options?: unknown) => Promise<unknown>;
   };
-  switchToJwtMode: () => Promise<boolean>;
+  /** Configured OAuth providers (`auth.socialProviders`) */
+  socialProviders: string[];
+  /** End the impersonation and restore the admin's session and cached user */
+  stopImpersonating: () => Promise<boolean>;
+  switchToJwtMode: (reason?: LtAuthChangeReason) => Promise<boolean>;
+  /** Remove a linked account (the backend refuses to remove the last one) */
+  unlinkAccount: (providerId: string, accountId?: string) => Promise<boolean>;
   validateSession: () => Promise<boolean>;
+  /** Verify the email address with a code from `sendEmailOtp(email, 'email-verification')` */
+  verifyEmailOtp: (params: { email: string; otp: string }) => Promise<boolean>;
 
   // Better Auth client passthrough
   passkey?: unknown;
   twoFactor?: unknown;
 }
+
+// =============================================================================
+// Step-Up Re-Authentication
+// =============================================================================
+
+/** Ways to confirm the identity again (see {@link UseLtAuthReturn.requireRecentAuth}) */
+export type LtReauthMethod = 'passkey' | 'password' | 'totp';
+
+/** What the re-authentication prompt resolves with */
+export type LtReauthCredentials = { code: string; method: 'totp' } | { method: 'passkey' } | { method: 'password'; password: string };
+
+/** What the re-authentication prompt is asked for */
+export interface LtReauthPromptContext {
+  /** Translated error of the previous attempt (wrong password, invalid code), `null` on the first */
+  error: null | string;
+  /**
+   * Methods the user can confirm with: 'password' always, 'passkey' with
+   * `auth.enablePasskey` and WebAuthn support, 'totp' for users with 2FA.
+   * After the password of a 2FA account only 'totp' is left (second step).
+   */
+  methods: LtReauthMethod[];
+  /** Why the confirmation is needed (`requireRecentAuth` option), e.g. for the dialog title */
+  reason?: string;
+  /** The signed-in user who has to confirm */
+  user: LtUser;
+}
+
+/**
+ * App-provided UI asking for the re-authentication, registered via
+ * `registerLtReauthPrompt`; resolves with `null` when the user cancels
+ */
+export type LtReauthPrompt = (context: LtReauthPromptContext) => Promise<LtReauthCredentials | null>;
+
+/** Options of {@link UseLtAuthReturn.requireRecentAuth} */
+export interface LtRequireRecentAuthOptions {
+  /** Failed attempts before giving up (default: 3) */
+  maxAttempts?: number;
+  /** Passed to the prompt (e.g. 'Delete account') */
+  reason?: string;
+}
+
+// =============================================================================
+// Social Sign-In
+// =============================================================================
+
+/**
+ * Purpose of an email one-time code (Better-Auth email OTP plugin)
+ */
+export type LtEmailOtpType = 'email-verification' | 'forget-password' | 'sign-in';
+
+/**
+ * Options for `useLtAuth().signIn.social`
+ */
+export interface LtSocialSignInOptions {
+  /** Same-origin path to open after the sign-in (passed through the callback page as `?redirect=`) */
+  redirect?: string;
+  /** Additional OAuth scopes */
+  scopes?: string[];
+}
+
+/**
+ * Result of `useLtAuth().handleSignInCallback`
+ */
+export interface LtSignInCallbackResult {
+  /** Error code from the backend / provider (e.g. `access_denied`), `null` on success */
+  error: null | string;
+  /** Validated `?redirect=` target, else `auth.homePath` */
+  redirect: string;
+  success: boolean;
+  user: LtUser | null;
+}
+
+/**
+ * Account linked to a user (Better-Auth `listAccounts`)
+ */
+export interface LtLinkedAccount {
+  accountId: string;
+  createdAt?: Date | string;
+  id: string;
+  /** `'credential'` for email + password, otherwise the OAuth provider */
+  providerId: string;
+  scopes?: string[];
+  updatedAt?: Date | string;
+}
+
+// =============================================================================
+// Admin User Management
+// =============================================================================
+
+/**
+ * Query for `useLtAdminUsers().listUsers` (Better-Auth `GET /admin/list-users`)
+ */
+export interface LtAdminUserListQuery {
+  /** Page size */
+  limit?: number;
+  /** Number of users to skip (`(page - 1) * limit`) */
+  offset?: number;
+  /** Field searched by {@link LtAdminUserListQuery.searchValue} (default: 'email') */
+  searchField?: 'email' | 'name';
+  /** Match mode of the search (default: 'contains') */
+  searchOperator?: 'contains' | 'ends_with' | 'starts_with';
+  /** Search term; omit to list all users */
+  searchValue?: string;
+  /** User field to sort by (e.g. 'createdAt', 'email', 'name') */
+  sortBy?: string;
+  /** Sort direction (default: 'asc') */
+  sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * One page of users
+ */
+export interface LtAdminUserList {
+  limit?: number;
+  offset?: number;
+  /** Number of users matching the query (all pages) */
+  total: number;
+  users: LtUser[];
+}
+
+/**
+ * Input for `useLtAdminUsers().createUser` — the password is hashed before sending
+ */
+export interface LtAdminCreateUserInput {
+  /** Further user fields (e.g. nest-server additionalFields) */
+  data?: Record<string, unknown>;
+  email: string;
+  name: string;
+  password: string;
+  /** Initial role(s) (default: the backend's default role) */
+  role?: string | string[];
+}
+
+/**
+ * Options for `useLtAdminUsers().banUser`
+ */
+export interface LtAdminBanOptions {
+  /** Ban duration in seconds; omit for a permanent ban */
+  expiresIn?: number;
+  /** Reason shown to the admin (and stored on the user as `banReason`) */
+  reason?: string;
+}
+
+/**
+ * Return type for useLtAdminUsers composable
+ */
+export interface UseLtAdminUsersReturn {
+  /** Ban a user and revoke their sessions */
+  banUser: (userId: string, options?: LtAdminBanOptions) => Promise<LtUser>;
+  createUser: (input: LtAdminCreateUserInput) => Promise<LtUser>;
+  /**
+   * Roles of a user in EITHER supported shape, deduplicated: `roles`
+   * (`@lenne.tech/nest-server`) plus `role`, which the Better-Auth admin plugin
+   * stores comma-separated for multiple roles. A malformed non-array `roles` is
+   * ignored.
+   */
+  getUserRoles: (user: LtUser) => string[];
+  listUsers: (query?: LtAdminUserListQuery) => Promise<LtAdminUserList>;
+  /** Delete a user permanently */
+  removeUser: (userId: string) => Promise<boolean>;
+  /** Sign a user out everywhere */
+  revokeUserSessions: (userId: string) => Promise<boolean>;
+  /** Replace the role(s) of a user */
+  setRole: (userId: string, role: string | string[]) => Promise<LtUser>;
+  /** Set a new password (hashed before sending) */
+  setUserPassword: (userId: string, newPassword: string) => Promise<boolean>;
+  unbanUser: (userId: string) => Promise<LtUser>;
+}
+
+// =============================================================================
+// Passkey Management Composable Return Type
+// =============================================================================
+
+/**
+ * Return type for useLtPasskeys composable
+ */
+export interface UseLtPasskeysReturn {
+  /** Register a new passkey (see `useLtAuth().registerPasskey`) and reload the list */
+  add: (name?: string) => Promise<LtPasskeyRegisterResult>;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /** Best-effort authenticator label from the AAGUID (e.g. 'iCloud Keychain'), else synced / device-bound */
+  getDeviceLabel: (passkey: LtPasskey) => string;
+  /** `true` when a built-in authenticator (Touch ID, Windows Hello, …) can be used */
+  isPlatformAuthenticatorAvailable: DeepReadonly<Ref<boolean>>;
+  /** `true` when the browser supports WebAuthn */
+  isSupported: ComputedRef<boolean>;
+  /** Load the current user's passkeys into {@link UseLtPasskeysReturn.passkeys} */
+  load: () => Promise<void>;
+  loading: DeepReadonly<Ref<boolean>>;
+  passkeys: DeepReadonly<Ref<LtPasskey[]>>;
+  remove: (id: string) => Promise<boolean>;
+  rename: (id: string, name: string) => Promise<boolean>;
+}
+
+// =============================================================================
+// Two-Factor Composable Return Type
+// =============================================================================
+
+/**
+ * Step of the 2FA setup flow in `useLtTwoFactor`
+ * - 'idle': not started (or reset)
+ * - 'scan': QR code / secret shown, waiting for the first TOTP code
+ * - 'backup-codes': 2FA is active, backup codes shown once
+ * - 'done': the user confirmed the backup codes
+ */
+export type LtTwoFactorStep = 'backup-codes' | 'done' | 'idle' | 'scan';
+
+/**
+ * Options for `useLtTwoFactor().verify` (sign-in challenge)
+ */
+export interface LtTwoFactorVerifyOptions {
+  /** `code` is a backup code instead of a TOTP code (default: false) */
+  backupCode?: boolean;
+  /** Skip the 2FA challenge on this device for a while (default: false) */
+  trustDevice?: boolean;
+}
+
+/**
+ * Return type for useLtTwoFactor composable
+ */
+export interface UseLtTwoFactorReturn {
+  /** Backup codes of the last enable / regeneration (shown once) */
+  backupCodes: DeepReadonly<Ref<string[]>>;
+  /** Confirm that the backup codes were saved (step 'backup-codes' → 'done') */
+  confirmBackupCodes: () => void;
+  disable: (password: string) => Promise<boolean>;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /** `true` when 2FA is enabled for the current user (same as `useLtAuth().is2FAEnabled`) */
+  isEnabled: ComputedRef<boolean>;
+  loading: DeepReadonly<Ref<boolean>>;
+  /** QR code of {@link UseLtTwoFactorReturn.totpUri} as SVG markup (rendered locally) */
+  qrCodeSvg: ComputedRef<null | string>;
+  /** Replace the backup codes (step → 'backup-codes') */
+  regenerateBackupCodes: (password: string) => Promise<boolean>;
+  /** Back to 'idle'; forgets the URI and backup codes */
+  reset: () => void;
+  /** The TOTP secret for manual entry */
+  secret: ComputedRef<null | string>;
+  /** Start the setup (step → 'scan') */
+  start: (password: string) => Promise<boolean>;
+  step: DeepReadonly<Ref<LtTwoFactorStep>>;
+  totpUri: DeepReadonly<Ref<null | string>>;
+  /** Complete a sign-in that requires 2FA and store the session like `signIn.email` */
+  verify: (code: string, options?: LtTwoFactorVerifyOptions) => Promise<boolean>;
+  /** Confirm the setup with the first TOTP code (step → 'backup-codes') */
+  verifySetup: (code: string) => Promise<boolean>;
+}
+
+// =============================================================================
+// Email Verification Composable Return Type
+// =============================================================================
+
+/**
+ * Return type for useLtEmailVerification composable
+ */
+export interface UseLtEmailVerificationReturn {
+  /** No cooldown running and no request in flight */
+  canResend: ComputedRef<boolean>;
+  /** Re-read `emailVerified` from the session; resolves the new status */
+  checkStatus: () => Promise<boolean>;
+  /** Seconds until the next resend is allowed */
+  cooldownSeconds: ComputedRef<number>;
+  /** Email of the current user */
+  email: ComputedRef<null | string>;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /**
+   * Handle the verification link: `?token=` is verified, `?error=` reported.
+   * Reads `window.location.search` unless a route query is passed; resolves
+   * `null` when the URL carries neither.
+   */
+  handleCallback: (query?: Record<string, unknown>) => Promise<boolean | null>;
+  isPolling: DeepReadonly<Ref<boolean>>;
+  /** `emailVerified` of the cached user */
+  isVerified: ComputedRef<boolean>;
+  loading: DeepReadonly<Ref<boolean>>;
+  /** Send the verification email again (defaults to the current user's email) */
+  resend: (email?: string) => Promise<boolean>;
+  /** Call `checkStatus` every `intervalSeconds` (default: 5) and when the tab becomes visible, until verified */
+  startPolling: (intervalSeconds?: number) => void;
+  stopPolling: () => void;
+  verifyToken: (token: string) => Promise<boolean>;
+}
+
+// =============================================================================
+// Password Policy & Reset
+// =============================================================================
+
+/**
+ * Password rules, read from the backend `/features` (flat keys, see `useLtPasswordPolicy`)
+ */
+export interface LtPasswordPolicy {
+  /** Reject passwords from the built-in list of common / breached passwords */
+  checkBreached: boolean;
+  minLength: number;
+  requireDigit: boolean;
+  requireLowercase: boolean;
+  requireSpecialChar: boolean;
+  requireUppercase: boolean;
+}
+
+export type LtPasswordRuleId = 'breached' | 'digit' | 'lowercase' | 'minLength' | 'specialChar' | 'uppercase';
+
+export type LtPasswordStrength = 'fair' | 'good' | 'strong' | 'weak';
+
+/**
+ * Result of `useLtPasswordPolicy().evaluate` (plain password, before `ltSha256`)
+ */
+export interface LtPasswordCheck {
+  /** Translated messages of the failed rules */
+  messages: string[];
+  /** Active rules of the policy with their result */
+  rules: { id: LtPasswordRuleId; message: string; passed: boolean }[];
+  /** 0 (weak) … 4 (strong); 0 for breached passwords */
+  score: number;
+  strength: LtPasswordStrength;
+  /** Translated label of `strength` */
+  strengthLabel: string;
+  /** All rules passed */
+  valid: boolean;
+}
+
+/**
+ * Return type for useLtPasswordPolicy composable
+ */
+export interface UseLtPasswordPolicyReturn {
+  evaluate: (password: string) => LtPasswordCheck;
+  policy: ComputedRef<LtPasswordPolicy>;
+  /** Validator for form libraries: `true` or the first failed rule's message */
+  validate: (password: string) => string | true;
+}
+
+/**
+ * Step of the password reset flow in `useLtPasswordReset`
+ * - 'request': ask for the email
+ * - 'sent': reset email requested
+ * - 'reset': token from the link present, ask for the new password
+ * - 'done': password changed (and signed in, if requested)
+ */
+export type LtPasswordResetStep = 'done' | 'request' | 'reset' | 'sent';
+
+/**
+ * Options for `useLtPasswordReset().resetPassword`
+ */
+export interface LtPasswordResetOptions {
+  /** Sign in with the new password right after the reset (needs the account's email) */
+  email?: string;
+}
+
+/**
+ * Return type for useLtPasswordReset composable
+ */
+export interface UseLtPasswordResetReturn {
+  /** Password policy feedback for the new password (before hashing) */
+  check: (password: string) => LtPasswordCheck;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /**
+   * Read `?token=` / `?error=` from the reset link (step → 'reset').
+   * Reads `window.location.search` unless a route query is passed.
+   */
+  handleCallback: (query?: Record<string, unknown>) => boolean;
+  loading: DeepReadonly<Ref<boolean>>;
+  /** Send the reset email; the link points to `auth.resetPasswordPath` */
+  requestReset: (email: string) => Promise<boolean>;
+  /** Set the new password (validated against the policy, then hashed) */
+  resetPassword: (newPassword: string, options?: LtPasswordResetOptions) => Promise<boolean>;
+  step: DeepReadonly<Ref<LtPasswordResetStep>>;
+}
+
+// =============================================================================
+// Idle Timeout Composable Return Type
+// =============================================================================
+
+/**
+ * Return type for useLtIdleTimeout composable
+ */
+export interface UseLtIdleTimeoutReturn {
+  /** Sign out now and redirect to `loginPath?reason=idle` */
+  expire: () => Promise<void>;
+  /** Revalidate the session (`validateSession`) and restart the timer in all tabs; expires when the session is gone */
+  extend: () => Promise<boolean>;
+  /** `true` when `auth.idle.enabled` is set */
+  isEnabled: ComputedRef<boolean>;
+  /** `true` during the last `warningSeconds` before the sign-out (signed-in users only) */
+  isWarning: ComputedRef<boolean>;
+  /** Seconds until the sign-out, updated every second */
+  remainingSeconds: ComputedRef<number>;
+  /** Record user activity (e.g. a playing video); ignored during the warning phase */
+  touch: () => void;
+}
+
+// =============================================================================
+// Tenant Composable Return Type
+// =============================================================================
+
+/**
+ * An organization (tenant) the current user belongs to, as listed by Better-Auth
+ */
+export interface LtTenant {
+  createdAt?: Date | string;
+  id: string;
+  logo?: null | string;
+  metadata?: unknown;
+  name: string;
+  slug?: string;
+}
+
+/**
+ * Return type for useLtTenant composable
+ */
+export interface UseLtTenantReturn {
+  /** The active organization, `null` until it is listed by {@link UseLtTenantReturn.load} */
+  activeTenant: ComputedRef<LtTenant | null>;
+  /** Id of the active organization (tenant cookie), sent as tenant header */
+  activeTenantId: ComputedRef<null | string>;
+  /** Forget the active organization (no tenant header any more) */
+  clear: () => void;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /** `true` when `auth.tenant.enabled` is set */
+  isEnabled: ComputedRef<boolean>;
+  /** Load the user's organizations; activates the first one when none (or an unknown one) is active */
+  load: () => Promise<void>;
+  loading: DeepReadonly<Ref<boolean>>;
+  organizations: DeepReadonly<Ref<LtTenant[]>>;
+  /** Make an organization the active tenant; `false` for an id missing from the loaded list */
+  switchTenant: (tenantId: string) => boolean;
+}
+
+// =============================================================================
+// Session Management Composable Return Type
+// =============================================================================
+
+/**
+ * Kind of device a session was created on (from the user agent)
+ */
+export type LtSessionDevice = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+/**
+ * A session of the current user as listed by `useLtSessions`: the Better-Auth
+ * record plus labels parsed from its user agent
+ */
+export interface LtActiveSession extends LtSession {
+  /** Browser name (e.g. 'Chrome', 'Safari'), `null` when unknown */
+  browser: null | string;
+  device: LtSessionDevice;
+  /** `true` for the session of this browser */
+  isCurrent: boolean;
+  /** Operating system (e.g. 'macOS', 'Android'), `null` when unknown */
+  os: null | string;
+}
+
+/**
+ * Return type for useLtSessions composable
+ */
+export interface UseLtSessionsReturn {
+  /** The session of this browser, `null` until {@link UseLtSessionsReturn.load} found it */
+  currentSession: ComputedRef<LtActiveSession | null>;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /** Readable label like 'Chrome on macOS', falls back to a translated 'Unknown device' */
+  getDeviceLabel: (session: LtActiveSession) => string;
+  /** Load the current user's sessions (current session first, then most recently active) */
+  load: () => Promise<void>;
+  loading: DeepReadonly<Ref<boolean>>;
+  /** Revoke one session; revoking the current one signs out locally (`clearUser`) */
+  revoke: (id: string) => Promise<boolean>;
+  /** Revoke every session and sign out locally (`clearUser`) */
+  revokeAll: () => Promise<boolean>;
+  /** Revoke every session except the current one */
+  revokeOthers: () => Promise<boolean>;
+  sessions: DeepReadonly<Ref<LtActiveSession[]>>;
+}
+
+// =============================================================================
+// Connectivity Composable Return Type
+// =============================================================================
+
+/**
+ * Return type for useLtConnectivity composable
+ */
+export interface UseLtConnectivityReturn {
+  /** Probe the API now (any HTTP response counts); resolves `true` when online */
+  check: () => Promise<boolean>;
+  /** `false` while the browser is offline or requests fail at the network level */
+  isOnline: ComputedRef<boolean>;
+  /** Start of the current offline phase, `null` while online */
+  offlineSince: ComputedRef<Date | null>;
+  /** Run a task now when online, else once the connection returns */
+  whenOnline: (task: () => unknown) => void;
+}
+
+// =============================================================================
+// System Setup
+// =============================================================================
+
+/**
+ * Input type of a {@link LtSystemSetupField}; UIs pick the matching control
+ * ('locale' = language selection, 'select' = one of `options`)
+ */
+export type LtSystemSetupFieldType = 'boolean' | 'email' | 'locale' | 'number' | 'password' | 'select' | 'text' | 'url';
+
+/**
+ * One input of a system setup step
+ */
+export interface LtSystemSetupField {
+  /** Initial value when the wizard starts */
+  default?: unknown;
+  label?: string;
+  /** Key in the step's values */
+  name: string;
+  /** Choices of a 'select' / 'locale' field */
+  options?: Array<{ label: string; value: string }>;
+  required?: boolean;
+  type: LtSystemSetupFieldType;
+}
+
+/**
+ * Step of the system setup wizard, as sent by `GET /system-setup/status`
+ * (e.g. organization name, SMTP settings, default locale).
+ *
+ * The 'account' step (name, email, password of the first admin) always comes
+ * first unless the backend sends its own.
+ */
+export interface LtSystemSetupStep {
+  description?: string;
+  fields: LtSystemSetupField[];
+  id: string;
+  title?: string;
+  /** Check the values on the backend before moving on (`POST /system-setup/validate`, e.g. send a test mail) */
+  validate?: boolean;
+}
+
+/**
+ * Answer of `GET /system-setup/status`
+ */
+export interface LtSystemSetupStatus {
+  needsSetup: boolean;
+  /** Additional wizard steps after the 'account' step, in order */
+  steps?: LtSystemSetupStep[];
+  /** `POST /system-setup/init` only accepts the one-time setup token */
+  tokenRequired?: boolean;
+}
+
+/**
+ * Values of the wizard, per step id
+ */
+export type LtSystemSetupData = Record<string, Record<string, unknown>>;
+
+/**
+ * Parameters of `useSystemSetup().initSetup`
+ */
+export interface LtSystemSetupInitParams {
+  /** Values of the additional steps, per step id */
+  data?: LtSystemSetupData;
+  email: string;
+  name: string;
+  password: string;
+  /** One-time setup token (default: the one from the setup link) */
+  token?: null | string;
+}
+
+/**
+ * Options of `useSystemSetup().initSetup` / `submit`
+ */
+export interface LtSystemSetupInitOptions {
+  /** Sign in the new admin via `signIn.email` (default: `auth.systemSetup.autoSignIn`) */
+  signIn?: boolean;
+}
+
+/**
+ * Return type for useSystemSetup composable
+ */
+export interface UseSystemSetupReturn {
+  /** Previous wizard step */
+  back: () => void;
+  /** Check setup status from the backend (also loads the steps) */
+  checkSetupStatus: () => Promise<boolean>;
+  /** Step shown by the wizard */
+  currentStep: ComputedRef<LtSystemSetupStep>;
+  /** Values of all steps, per step id; bind inputs to `data[currentStep.id][field.name]` */
+  data: Ref<LtSystemSetupData>;
+  /** Translated message of the last failed action (`null` after a success) */
+  error: DeepReadonly<Ref<null | string>>;
+  /** Initialize the system with the first admin user; throws on failure, resolves whether the admin is signed in */
+  initSetup: (params: LtSystemSetupInitParams, options?: LtSystemSetupInitOptions) => Promise<boolean>;
+  isFirstStep: ComputedRef<boolean>;
+  isLastStep: ComputedRef<boolean>;
+  loading: DeepReadonly<Ref<boolean>>;
+  /** Whether the system needs initial setup (null = not checked yet) */
+  needsSetup: ComputedRef<boolean | null>;
+  /** Validate the current step and move on; on the last step {@link UseSystemSetupReturn.submit} instead */
+  next: (options?: LtSystemSetupInitOptions) => Promise<boolean>;
+  /** Set (or forget) the one-time setup token */
+  setToken: (token: null | string) => void;
+  stepIndex: ComputedRef<number>;
+  /** The 'account' step followed by the steps of the backend */
+  steps: ComputedRef<LtSystemSetupStep[]>;
+  /** Run {@link UseSystemSetupReturn.initSetup} with the wizard values; resolves `false` (and sets `error`) on failure */
+  submit: (options?: LtSystemSetupInitOptions) => Promise<boolean>;
+  /** One-time setup token from the setup link (`?setupToken=`) */
+  token: ComputedRef<null | string>;
+  /** The backend only accepts the setup with the token */
+  tokenRequired: ComputedRef<boolean>;
+  /** Check the required fields of a step (default: current) and, if the step asks for it, the backend */
+  validateStep: (stepId?: string) => Promise<boolean>;
+}
+
+// =============================================================================
+// Abilities
+// =============================================================================
+
+/**
+ * Condition of an ability rule on the concrete object, e.g. ownership
+ * (`(document) => document.ownerId === user.id`)
+ */
+export type LtAbilityCondition<T = any> = (object: T) => boolean;
+
+/** One `can` / `cannot` rule of the current user (see {@link LtAbilityBuilder}) */
+export interface LtAbilityRule {
+  /** Action (e.g. 'update'); 'manage' stands for every action */
+  action: string;
+  /** Only applies to objects meeting this condition */
+  condition?: LtAbilityCondition;
+  /** `true` for a `cannot` rule */
+  inverted: boolean;
+  /** Subject type (e.g. 'Document'); 'all' stands for every subject */
+  subject: string;
+}
+
+/**
+ * Collects the rules of an ability definition; later rules take precedence,
+ * so a `cannot` after a `can` narrows it down
+ */
+export interface LtAbilityBuilder {
+  /** Allow `action` on `subject`, optionally only for objects meeting `condition` */
+  can: <T = any>(action: string | string[], subject: string | string[], condition?: LtAbilityCondition<T>) => void;
+  /** Forbid `action` on `subject`, optionally only for objects meeting `condition` */
+  cannot: <T = any>(action: string | string[], subject: string | string[], condition?: LtAbilityCondition<T>) => void;
+}
+
+/** What an ability definition derives the rules from */
+export interface LtAbilityContext {
+  /** Same as {@link UseLtAuthReturn.hasAnyRole} */
+  hasAnyRole: (...roles: string[]) => boolean;
+  /** Same as {@link UseLtAuthReturn.hasRole} */
+  hasRole: (role: string) => boolean;
+  /** The signed-in user, `null` for guests */
+  user: LtUser | null;
+}
+
+/**
+ * Ability definition registered via `registerLtAbilities`; runs again whenever
+ * the user (or their roles) change
+ *
+ * @example
+ * ```typescript
+ * const documentAbilities: LtAbilityDefinition = ({ can, cannot }, { hasRole, user }) => {
+ *   can('read', 'Document');
+ *   if (!user) return;
+ *   can('update', 'Document', (doc: Document) => doc.ownerId === user.id || doc.editorIds.includes(user.id));
+ *   if (hasRole('admin')) can('manage', 'all');
+ *   cannot('delete', 'Document', (doc: Document) => doc.locked);
+ * };
+ * ```
+ */
+export type LtAbilityDefinition = (builder: LtAbilityBuilder, context: LtAbilityContext) => void;
+
+/** Value of the `v-lt-can` directive: `[action, subject, object?]` */
+export type LtCanBindingValue = [action: string, subject: string, object?: unknown];
+
+declare module 'vue' {
+  interface GlobalDirectives {
+    /** Hide (or with `.disable` disable) the element unless the action is allowed (see `useLtAbility`) */
+    vLtCan: Directive<HTMLElement, LtCanBindingValue>;
+  }
+}
+
+/**
+ * Return type for useLtAbility composable
+ *
+ * UI gate only — NOT an authorization boundary (see {@link UseLtAuthReturn.isAdmin}):
+ * the rules are derived from the client-side user, so the backend must enforce
+ * the same rights.
+ */
+export interface UseLtAbilityReturn {
+  /**
+   * `true` when the user may do `action` on `subject`. Without `object`, a
+   * conditional rule counts as allowed ("may update some documents"); with it,
+   * the condition decides.
+   */
+  can: (action: string, subject: string, object?: unknown) => boolean;
+  /** Negation of {@link UseLtAbilityReturn.can} */
+  cannot: (action: string, subject: string, object?: unknown) => boolean;
+  /** The current rules, recomputed when the user or the definitions change */
+  rules: ComputedRef<LtAbilityRule[]>;
+}
+
+// =============================================================================
+// Page Meta
+// =============================================================================
+
+/**
+ * Per-page auth rules read by the global `lt-auth` route middleware
+ *
+ * @example
+ * ```typescript
+ * definePageMeta({ ltAuth: { required: true, roles: ['admin'] } });
+ * definePageMeta({ ltAuth: { guestOnly: true } }); // e.g. the login page
+ * ```
+ */
+export interface LtAuthPageMeta {
+  /** Reachable for signed-in users with an unverified email (`lt-email-verification` middleware; default: false) */
+  allowUnverified?: boolean;
+  /** Only for signed-out visitors; signed-in users are sent to `auth.homePath` (default: false) */
+  guestOnly?: boolean;
+  /** Open to everyone (implies `required: false`); a 401 on this page never logs out (auth interceptor; default: false) */
+  public?: boolean;
+  /** Require a signed-in user; signed-out visitors are sent to `auth.loginPath` (default: true) */
+  required?: boolean;
+  /** Require ANY of these roles (`hasAnyRole` semantics); implies `required` */
+  roles?: string[];
+}
+
+declare module '#app' {
+  interface PageMeta {
+    /** Auth rules for this page, enforced by the `lt-auth` middleware */
+    ltAuth?: LtAuthPageMeta;
+  }
+}
+
+declare global {
+  interface RequestInit {
+    /**
+     * Leave a 401 of this request to the caller: no session probe, no replay,
+     * no auto-logout (auth interceptor). Also accepted by `$fetch`.
+     *
+     * @example
+     * ```typescript
+     * await $fetch('/api/preview', { ltSkipAuthInterceptor: true });
+     * ```
+     */
+    ltSkipAuthInterceptor?: boolean;
+  }
+}
@@ -3,7 +3,84 @@
 // =============================================================================
 
 // Auth Types
-export type { LtAuthClientConfig, LtAuthMode, LtAuthResponse, LtAuthState, LtPasskeyAuthResult, LtPasskeyRegisterResult, LtUser, UseLtAuthReturn } from './auth';
+export type {
+  LtAbilityBuilder,
+  LtAbilityCondition,
+  LtAbilityContext,
+  LtAbilityDefinition,
+  LtAbilityRule,
+  LtActiveSession,
+  LtAdminBanOptions,
+  LtAdminCreateUserInput,
+  LtAdminUserList,
+  LtAdminUserListQuery,
+  LtAuthChangeReason,
+  LtAuthClientConfig,
+  LtAuthForbiddenHookPayload,
+  LtAuthHooks,
+  LtAuthImpersonation,
+  LtAuthLoginHookPayload,
+  LtAuthLogoutHookPayload,
+  LtAuthMode,
+  LtAuthModeSwitchedHookPayload,
+  LtAuthPageMeta,
+  LtAuthResponse,
+  LtAuthSessionExpiredHookPayload,
+  LtAuthState,
+  LtAuthSyncEvent,
+  LtAuthSyncEventType,
+  LtAuthUserUpdatedHookPayload,
+  LtCanBindingValue,
+  LtConnectivityHooks,
+  LtConnectivityRestoredHookPayload,
+  LtEmailOtpType,
+  LtJwtClaims,
+  LtLinkedAccount,
+  LtPasskey,
+  LtPasskeyAuthResult,
+  LtPasskeyRegisterResult,
+  LtPasswordCheck,
+  LtPasswordPolicy,
+  LtPasswordResetOptions,
+  LtPasswordResetStep,
+  LtPasswordRuleId,
+  LtPasswordStrength,
+  LtReauthCredentials,
+  LtReauthMethod,
+  LtReauthPrompt,
+  LtReauthPromptContext,
+  LtRequireRecentAuthOptions,
+  LtSession,
+  LtSessionData,
+  LtSessionDevice,
+  LtSignInCallbackResult,
+  LtSocialSignInOptions,
+  LtSystemSetupData,
+  LtSystemSetupField,
+  LtSystemSetupFieldType,
+  LtSystemSetupInitOptions,
+  LtSystemSetupInitParams,
+  LtSystemSetupStatus,
+  LtSystemSetupStep,
+  LtTenant,
+  LtTokenStorage,
+  LtTwoFactorStep,
+  LtTwoFactorVerifyOptions,
+  LtUser,
+  UseLtAbilityReturn,
+  UseLtAdminUsersReturn,
+  UseLtAuthReturn,
+  UseLtConnectivityReturn,
+  UseLtEmailVerificationReturn,
+  UseLtIdleTimeoutReturn,
+  UseLtPasskeysReturn,
+  UseLtPasswordPolicyReturn,
+  UseLtPasswordResetReturn,
+  UseLtSessionsReturn,
+  UseLtTenantReturn,
+  UseLtTwoFactorReturn,
+  UseSystemSetupReturn,
+} from './auth';
 
 // Upload Types
 export type { LtFileInfo, LtUploadItem, LtUploadOptions, LtUploadProgress, LtUploadStatus, UseLtFileReturn, UseLtTusUploadReturn } from './upload';
@@ -12,7 +89,14 @@ export type { LtFileInfo, LtUploadItem, LtUploadOptions, LtUploadProgress, LtUpl
 export type {
   LtAiModuleOptions,
   LtAuthCookieNamesOptions,
+  LtAuthCsrfModuleOptions,
+  LtAuthEmailVerificationModuleOptions,
+  LtAuthForbiddenModuleOptions,
+  LtAuthIdleModuleOptions,
+  LtAuthJwtRefreshModuleOptions,
   LtAuthModuleOptions,
+  LtAuthSyncModuleOptions,
+  LtAuthTenantModuleOptions,
   LtErrorTranslationModuleOptions,
   LtExtensionsModuleOptions,
   LtExtensionsPublicRuntimeConfig,
@@ -16,6 +16,7 @@
  *       systemSetup: {
  *         enabled: true,
  *         setupPath: '/auth/setup',
+ *         tokenQueryParam: 'setupToken',
  *       },
  *     },
  *   },
@@ -23,10 +24,18 @@
  * ```
  */
 export interface LtSystemSetupModuleOptions {
+  /** Sign in the new admin right after the setup (default: true) */
+  autoSignIn?: boolean;
   /** Enable system setup flow (default: false) */
   enabled?: boolean;
   /** Path to the setup page (default: '/auth/setup') */
   setupPath?: string;
+  /**
+   * Query parameter carrying the one-time setup token in the setup link (default: 'setupToken').
+   * The token only ever comes from the link: a token configured for the app (env / runtime
+   * config) would reach the browser of every visitor, as the setup requests are sent from there.
+   */
+  tokenQueryParam?: string;
 }
 
 /**
@@ -59,32 +68,262 @@ export interface LtAuthCookieNamesOptions {
   token?: string;
 }
 
+/**
+ * Cross-tab auth synchronisation options
+ *
+ * Login, logout, user updates and Cookie/JWT mode switches are broadcast to
+ * every open tab (BroadcastChannel, storage-event fallback), so a logout in one
+ * tab does not leave the others showing the app until their next 401.
+ *
+ * @example
+ * ```typescript
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   ltExtensions: {
+ *     auth: {
+ *       sync: { redirect: false },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface LtAuthSyncModuleOptions {
+  /** Enable cross-tab sync (default: true) */
+  enabled?: boolean;
+  /** Re-run the route middleware of the current page after a login/logout in another tab (default: true) */
+  redirect?: boolean;
+}
+
+/**
+ * Silent JWT refresh options
+ *
+ * While a JWT is stored, it is refreshed shortly before its `exp` claim, so
+ * JWT-mode users never hit an avoidable 401. The schedule pauses while the tab
+ * is hidden and catches up when it becomes visible again.
+ */
+export interface LtAuthJwtRefreshModuleOptions {
+  /** Enable the refresh scheduler (default: true) */
+  enabled?: boolean;
+  /** Refresh this many seconds before `exp`; capped at half the token lifetime (default: 60) */
+  leewaySeconds?: number;
+}
+
+/**
+ * Email verification options
+ *
+ * `useLtEmailVerification()` works without any configuration; these options
+ * set its pages and resend cooldown. With `redirectUnverified`, the
+ * `lt-email-verification` middleware sends signed-in users whose
+ * `emailVerified` is `false` to `verifyPath?redirect=<target>`.
+ *
+ * @example
+ * ```typescript
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   ltExtensions: {
+ *     auth: {
+ *       emailVerification: { redirectUnverified: true, verifyPath: '/auth/verify' },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface LtAuthEmailVerificationModuleOptions {
+  /** Send unverified users to `verifyPath` (default: false) */
+  redirectUnverified?: boolean;
+  /** Wait this long between two resends unless the server demands longer (default: 60) */
+  resendCooldownSeconds?: number;
+  /** "Please verify" page, also the target of the verification link (default: '/auth/verify-email') */
+  verifyPath?: string;
+}
+
+/**
+ * Inactivity (idle) timeout options
+ *
+ * Signs the user out after `timeoutMinutes` without interaction in ANY open tab
+ * and sends them to `loginPath?reason=idle`. The last `warningSeconds` are
+ * exposed by `useLtIdleTimeout()` so the app can show a countdown dialog.
+ *
+ * @example
+ * ```typescript
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   ltExtensions: {
+ *     auth: {
+ *       idle: { enabled: true, timeoutMinutes: 15, warningSeconds: 120 },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface LtAuthIdleModuleOptions {
+  /** Enable the inactivity timeout (default: false) */
+  enabled?: boolean;
+  /** Minutes without interaction until the sign-out (default: 30) */
+  timeoutMinutes?: number;
+  /** Length of the warning phase before the sign-out, in seconds (default: 60) */
+  warningSeconds?: number;
+}
+
+/**
+ * 403 handling of the auth interceptor
+ *
+ * Covers 403 responses and 401s of a session that is still valid (a permission
+ * error mislabeled as 401). The `lt:auth:forbidden` hook is called for each of
+ * them with the URL and the parsed `#LTNS_xxxx` code; `action` adds a redirect
+ * or a translated toast on top.
+ *
+ * @example
+ * ```typescript
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   ltExtensions: {
+ *     auth: {
+ *       interceptor: { forbidden: { action: 'toast', enabled: true } },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface LtAuthForbiddenModuleOptions {
+  /** 'redirect' to `path`, a 'toast' (Nuxt UI), or only the 'hook' (default: 'hook') */
+  action?: 'hook' | 'redirect' | 'toast';
+  /** Handle forbidden responses (default: false) */
+  enabled?: boolean;
+  /** Forbidden page for `action: 'redirect'`, opened with `?code=LTNS_xxxx` when known (default: '/forbidden') */
+  path?: string;
+}
+
+/**
+ * Multi-tenancy options
+ *
+ * `useLtTenant()` lists the user's organizations and keeps the active one in a
+ * cookie. While enabled, `ltAuthFetch` (and with it the Better-Auth client
+ * and every `ltAiRequest`) sends the active tenant id in `header`; direct
+ * `$fetch(buildLtApiUrl(...))` calls use `getLtTenantHeaders()`.
+ *
+ * Cross-origin APIs must allow the header in their CORS configuration.
+ *
+ * @example
+ * ```typescript
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   ltExtensions: {
+ *     auth: {
+ *       tenant: { enabled: true, header: 'X-Tenant-Id' },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface LtAuthTenantModuleOptions {
+  /** Cookie holding the active tenant id (default: `<cookiePrefix>-tenant-id`, else 'lt-tenant-id') */
+  cookieName?: string;
+  /** Send the tenant header (default: false) */
+  enabled?: boolean;
+  /** Request header carrying the active tenant id (default: 'X-Tenant-Id') */
+  header?: string;
+  /** Endpoint listing the user's organizations, relative to `basePath` (default: '/organization/list') */
+  listPath?: string;
+}
+
+/**
+ * CSRF protection (double submit) for cookie-based requests
+ *
+ * While enabled, mutating requests (everything but GET / HEAD / OPTIONS / TRACE)
+ * of `ltAuthFetch` (and with it the Better-Auth client and every `ltAiRequest`),
+ * `useLtAuth().fetchWithAuth` and TUS uploads send the token in `header`. The
+ * token is read from the `cookieName` cookie, or — with `endpoint` — fetched
+ * once from the API. A 403 carrying one of `errorCodes` refreshes the token and
+ * sends the request once more.
+ *
+ * Cross-origin APIs must allow the header in their CORS configuration; a
+ * cross-origin CSRF cookie is only readable with `endpoint`.
+ *
+ * @example
+ * ```typescript
+ * // nuxt.config.ts
+ * export default defineNuxtConfig({
+ *   ltExtensions: {
+ *     auth: {
+ *       csrf: { enabled: true, endpoint: '/csrf-token' },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface LtAuthCsrfModuleOptions {
+  /** Cookie holding the token (default: 'csrf-token') */
+  cookieName?: string;
+  /** Send the CSRF header (default: false) */
+  enabled?: boolean;
+  /** API endpoint answering `{ csrfToken }` / `{ token }`, relative to the API URL (e.g. '/csrf-token'; default: '' = read the cookie) */
+  endpoint?: string;
+  /** Codes in a 403 body that mark a missing or stale token (default: ['EBADCSRFTOKEN', 'INVALID_CSRF_TOKEN']) */
+  errorCodes?: string[];
+  /** Request header carrying the token (default: 'X-CSRF-Token') */
+  header?: string;
+}
+
 export interface LtAuthModuleOptions {
   /** Auth API base path (default: '/iam' - must match nest-server betterAuth.basePath) */
   basePath?: string;
   /** API base URL (default: `''` — resolved at runtime from `NUXT_PUBLIC_API_URL` / `NUXT_API_URL`; no implicit `localhost` fallback, so an unset URL keeps API paths relative to the app origin) */
   baseURL?: string;
+  /** Page completing redirect-based sign-ins via `handleSignInCallback` (default: '/auth/callback') */
+  callbackPath?: string;
   /** Override the cookie names used for auth state and JWT storage */
   cookieNames?: LtAuthCookieNamesOptions;
+  /** CSRF token configuration */
+  csrf?: LtAuthCsrfModuleOptions;
+  /** Email verification configuration */
+  emailVerification?: LtAuthEmailVerificationModuleOptions;
   /** Enable the auth module (default: true) */
   enabled?: boolean;
   /** Enable admin plugin (default: true) */
   enableAdmin?: boolean;
+  /** Enable email OTP plugin for `signIn.emailOtp` / `verifyEmailOtp` (default: false) */
+  enableEmailOtp?: boolean;
+  /** Enable magic link plugin for `signIn.magicLink` (default: false) */
+  enableMagicLink?: boolean;
   /** Enable passkey plugin (default: true) */
   enablePasskey?: boolean;
   /** Enable 2FA plugin (default: true) */
   enableTwoFactor?: boolean;
+  /** Target for signed-in users opening a `guestOnly` page (default: '/') */
+  homePath?: string;
+  /** Inactivity timeout configuration */
+  idle?: LtAuthIdleModuleOptions;
   /** Auth interceptor configuration */
   interceptor?: {
     /** Enable the auth interceptor plugin (default: true) */
     enabled?: boolean;
-    /** Paths that should not trigger auto-logout on 401 */
+    /** 403 handling (default: disabled) */
+    forbidden?: LtAuthForbiddenModuleOptions;
+    /** Request URL paths whose 401 never triggers the session probe / auto-logout (prefix, glob or `^` regex, see `ltMatchesPathPattern`; default: []) */
+    ignoreUrls?: string[];
+    /** Route paths that should not trigger auto-logout on 401 (prefix, glob or `^` regex, see `ltMatchesPathPattern`) */
     publicPaths?: string[];
   };
+  /** Silent JWT refresh configuration */
+  jwtRefresh?: LtAuthJwtRefreshModuleOptions;
   /** Login page path for redirects (default: '/auth/login') */
   loginPath?: string;
+  /** Password reset page, target of the reset email link (default: '/auth/reset-password') */
+  resetPasswordPath?: string;
+  /** OAuth providers offered by `signIn.social` (e.g. `['github', 'google']`; must be configured in nest-server; default: []) */
+  socialProviders?: string[];
+  /** Cross-tab sync configuration */
+  sync?: LtAuthSyncModuleOptions;
   /** System setup configuration */
   systemSetup?: LtSystemSetupModuleOptions;
+  /** Multi-tenancy configuration */
+  tenant?: LtAuthTenantModuleOptions;
+  /**
+   * Where the JWT is kept in JWT mode (default: 'cookie'): 'cookie' (7 days, also read during SSR),
+   * 'sessionStorage' (per tab), 'memory' (until reload) or a name registered via `registerLtTokenStorage()`
+   */
+  tokenStorage?: string;
   /** 2FA redirect path (default: '/auth/2fa') */
   twoFactorRedirectPath?: string;
 }
@@ -160,23 +399,69 @@ export interface LtExtensionsPublicRuntimeConfig {
     auth: {
       basePath: string;
       baseURL: string;
+      callbackPath: string;
       cookieNames: {
         state: string;
         token: string;
       };
+      csrf: {
+        cookieName: string;
+        enabled: boolean;
+        endpoint: string;
+        errorCodes: string[];
+        header: string;
+      };
+      emailVerification: {
+        redirectUnverified: boolean;
+        resendCooldownSeconds: number;
+        verifyPath: string;
+      };
       enabled: boolean;
       enableAdmin: boolean;
+      enableEmailOtp: boolean;
+      enableMagicLink: boolean;
       enablePasskey: boolean;
       enableTwoFactor: boolean;
+      homePath: string;
+      idle: {
+        enabled: boolean;
+        timeoutMinutes: number;
+        warningSeconds: number;
+      };
       interceptor: {
         enabled: boolean;
+        forbidden: {
+          action: 'hook' | 'redirect' | 'toast';
+          enabled: boolean;
+          path: string;
+        };
+        ignoreUrls: string[];
         publicPaths: string[];
       };
+      jwtRefresh: {
+        enabled: boolean;
+        leewaySeconds: number;
+      };
       loginPath: string;
+      resetPasswordPath: string;
+      socialProviders: string[];
+      sync: {
+        enabled: boolean;
+        redirect: boolean;
+      };
       systemSetup: {
+        autoSignIn: boolean;
         enabled: boolean;
         setupPath: string;
+        tokenQueryParam: string;
+      };
+      tenant: {
+        cookieName: string;
+        enabled: boolean;
+        header: string;
+        listPath: string;
       };
+      tokenStorage: string;
       twoFactorRedirectPath: string;
     };
     errorTranslation: {
@@ -3,4 +3,8 @@
 // =============================================================================
 
 export { ltArrayBufferToBase64Url, ltBase64UrlToUint8Array, ltSha256 } from './crypto';
+export { ltDecodeJwtClaims } from './jwt';
+export { ltMatchesPathPattern } from './path-pattern';
+export { ltQrCodeMatrix, ltQrCodeSvg } from './qr';
+export { ltSafeRedirectPath } from './redirect';
 export { tw } from './tw';
@@ -0,0 +1,36 @@
+import type { LtJwtClaims } from '../types';
+
+import { ltBase64UrlToUint8Array } from './crypto';
+
+// =============================================================================
+// JWT Utilities
+// =============================================================================
+
+/**
+ * Decodes the claims (payload) of a JWT
+ *
+ * Does NOT verify the signature — the result is only good for scheduling and
+ * display (e.g. "session expires at"). Returns `null` for anything that is not a
+ * three-part JWT with a JSON object payload, such as an opaque session token.
+ *
+ * @param token - The JWT (e.g. from the `lt-jwt-token` cookie)
+ * @returns The decoded claims or `null`
+ *
+ * @example
+ * ```typescript
+ * const claims = ltDecodeJwtClaims(getLtJwtToken());
+ * const expiresAt = claims?.exp ? new Date(claims.exp * 1000) : null;
+ * ```
+ */
+export function ltDecodeJwtClaims(token: null | string | undefined): LtJwtClaims | null {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3 || !parts[1]) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(ltBase64UrlToUint8Array(parts[1])));
+    return claims && typeof claims === 'object' && !Array.isArray(claims) ? (claims as LtJwtClaims) : null;
+  } catch {
+    return null;
+  }
+}
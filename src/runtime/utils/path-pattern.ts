@@ -0,0 +1,73 @@
+// =============================================================================
+// Path Pattern Utilities
+// =============================================================================
+
+/** Compiled matchers by pattern; patterns come from config and rarely change. */
+const compiledPatterns = new Map<string, (path: string) => boolean>();
+
+/**
+ * Compile one pattern (see {@link ltMatchesPathPattern} for the syntax)
+ */
+function compilePattern(pattern: string): (path: string) => boolean {
+  if (pattern.startsWith('^')) {
+    try {
+      const regex = new RegExp(pattern);
+      return (path) => regex.test(path);
+    } catch {
+      console.warn(`[LtExtensions] Invalid path pattern ${JSON.stringify(pattern)} — it matches nothing`);
+      return () => false;
+    }
+  }
+
+  if (pattern.includes('*')) {
+    const source = pattern
+      .split(/(\/\*\*$|\*\*|\*)/)
+      .map((part) => {
+        if (part === '/**') return '(?:/.*)?';
+        if (part === '**') return '.*';
+        if (part === '*') return '[^/]*';
+        return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    const regex = new RegExp(`^${source}$`);
+    return (path) => regex.test(path);
+  }
+
+  // Plain prefix, as `publicPaths` always matched: '/public' also covers '/public-info'
+  return (path) => path.startsWith(pattern);
+}
+
+/**
+ * Checks a path against a list of patterns
+ *
+ * Pattern syntax:
+ * - starts with `^`: regular expression (e.g. `'^/shop/\\d+$'`)
+ * - contains `*`: glob — `*` matches within one segment, `**` across segments,
+ *   and a trailing `/**` also matches the path itself (`'/docs/**'` covers `/docs`)
+ * - anything else: prefix — every path starting with it (`'/public'` covers
+ *   `/public/faq` and `/public-info`; use `'/public/**'` for whole segments)
+ *
+ * Used for `auth.interceptor.publicPaths` (route paths) and
+ * `auth.interceptor.ignoreUrls` (request URL paths).
+ *
+ * @param path - The path to test (without query or hash)
+ * @param patterns - Patterns as described above
+ * @returns `true` when ANY pattern matches
+ *
+ * @example
+ * ```typescript
+ * ltMatchesPathPattern('/shop/42', ['/auth', '^/shop/\\d+$']); // true
+ * ltMatchesPathPattern('/docs/intro', ['/docs/**']); // true
+ * ltMatchesPathPattern('/api/sessions-report', ['/api/*session']); // false
+ * ```
+ */
+export function ltMatchesPathPattern(path: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => {
+    let matcher = compiledPatterns.get(pattern);
+    if (!matcher) {
+      matcher = compilePattern(pattern);
+      compiledPatterns.set(pattern, matcher);
+    }
+    return matcher(path);
+  });
+}
@@ -0,0 +1,457 @@
+// =============================================================================
+// QR Code Utilities
+// =============================================================================
+//
+// Minimal QR code encoder (ISO/IEC 18004, after Nayuki's reference
+// implementation): byte mode, error correction level M, versions 1–10 — enough
+// for `otpauth://` URIs (up to 213 bytes). Runs locally so the TOTP secret
+// never leaves the browser for an external QR service.
+
+/** Highest supported version (57×57 modules, 213 bytes at level M) */
+const LT_QR_MAX_VERSION = 10;
+
+/** Error correction codewords per block for level M, index = version - 1 */
+const LT_QR_ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+
+/** Number of error correction blocks for level M, index = version - 1 */
+const LT_QR_ECC_BLOCKS = [1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/** Number of data + ECC bits available in a symbol of the given version */
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getDataCodewords(version: number): number {
+  return Math.floor(getRawDataModules(version) / 8) - LT_QR_ECC_CODEWORDS_PER_BLOCK[version - 1]! * LT_QR_ECC_BLOCKS[version - 1]!;
+}
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function rsMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = Array.from({ length: degree }, () => 0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = rsMultiply(result[j]!, root);
+      if (j + 1 < result.length) {
+        result[j]! ^= result[j + 1]!;
+      }
+    }
+    root = rsMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i]! ^= rsMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Split the data into blocks, append their ECC and interleave */
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const blockCount = LT_QR_ECC_BLOCKS[version - 1]!;
+  const blockEccLength = LT_QR_ECC_CODEWORDS_PER_BLOCK[version - 1]!;
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = rsDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - blockEccLength + (i < shortBlockCount ? 0 : 1));
+    k += block.length;
+    const ecc = rsRemainder(block, divisor);
+    if (i < shortBlockCount) {
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of the short blocks
+      if (i !== shortBlockLength - blockEccLength || j >= shortBlockCount) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+}
+
+/** Byte-mode data codewords (mode, length, payload, terminator, padding) */
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number): void => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  const capacityBits = getDataCodewords(version) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  for (const byte of bytes) {
+    append(byte, 8);
+  }
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+class LtQrMatrix {
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(
+    private readonly version: number,
+    readonly size: number = version * 4 + 17,
+  ) {
+    this.modules = Array.from({ length: size }, () => Array.from({ length: size }, () => false));
+    this.isFunction = Array.from({ length: size }, () => Array.from({ length: size }, () => false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark;
+    this.isFunction[y]![x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    for (const [cx, cy] of [
+      [3, 3],
+      [this.size - 4, 3],
+      [3, this.size - 4],
+    ] as const) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    // Alignment patterns (none in the finder corners)
+    const positions = this.getAlignmentPositions();
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        const last = positions.length - 1;
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits depend on the mask
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private getAlignmentPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const count = Math.floor(this.version / 7) + 2;
+    const step = Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2;
+    const result = [6];
+    for (let position = this.size - 7; result.length < count; position -= step) {
+      result.splice(1, 0, position);
+    }
+    return result;
+  }
+
+  drawFormatBits(mask: number): void {
+    // Level M is 0b00 in the format information
+    const data = mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, getBit(bits, i));
+    }
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, getBit(bits, i));
+    }
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y]![x] && i < codewords.length * 8) {
+            this.modules[y]![x] = getBit(codewords[i >>> 3]!, 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR the data modules with a mask pattern (applying it twice undoes it) */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0:
+            invert = (x + y) % 2 === 0;
+            break;
+          case 1:
+            invert = y % 2 === 0;
+            break;
+          case 2:
+            invert = x % 3 === 0;
+            break;
+          case 3:
+            invert = (x + y) % 3 === 0;
+            break;
+          case 4:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+            break;
+          case 5:
+            invert = ((x * y) % 2) + ((x * y) % 3) === 0;
+            break;
+          case 6:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+            break;
+          default:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+        }
+        if (!this.isFunction[y]![x] && invert) {
+          this.modules[y]![x] = !this.modules[y]![x];
+        }
+      }
+    }
+  }
+
+  /** Penalty score of the current modules (lower is better) */
+  getPenaltyScore(): number {
+    let result = 0;
+    const line = (get: (i: number) => boolean): void => {
+      let runColor = false;
+      let runLength = 0;
+      const history = [0, 0, 0, 0, 0, 0, 0];
+      for (let i = 0; i < this.size; i++) {
+        if (get(i) === runColor) {
+          runLength++;
+          if (runLength === 5) {
+            result += 3;
+          } else if (runLength > 5) {
+            result++;
+          }
+        } else {
+          this.addRunHistory(runLength, history);
+          if (!runColor) {
+            result += this.countFinderLikePatterns(history) * 40;
+          }
+          runColor = get(i);
+          runLength = 1;
+        }
+      }
+      if (runColor) {
+        this.addRunHistory(runLength, history);
+        runLength = 0;
+      }
+      this.addRunHistory(runLength + this.size, history);
+      result += this.countFinderLikePatterns(history) * 40;
+    };
+
+    for (let y = 0; y < this.size; y++) {
+      line((x) => this.modules[y]![x]!);
+    }
+    for (let x = 0; x < this.size; x++) {
+      line((y) => this.modules[y]![x]!);
+    }
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.modules[y]![x]!;
+        if (color) {
+          dark++;
+        }
+        if (x < this.size - 1 && y < this.size - 1 && color === this.modules[y]![x + 1] && color === this.modules[y + 1]![x] && color === this.modules[y + 1]![x + 1]) {
+          result += 3;
+        }
+      }
+    }
+    const total = this.size * this.size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return result;
+  }
+
+  private addRunHistory(runLength: number, history: number[]): void {
+    // The light border counts towards the first run
+    const length = history[0] === 0 ? runLength + this.size : runLength;
+    history.pop();
+    history.unshift(length);
+  }
+
+  private countFinderLikePatterns(history: number[]): number {
+    const n = history[1]!;
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0]! >= n * 4 && history[6]! >= n ? 1 : 0) + (core && history[6]! >= n * 4 && history[0]! >= n ? 1 : 0);
+  }
+}
+
+/**
+ * Encodes text as a QR code module matrix (byte mode, error correction level M)
+ *
+ * @param text - The text to encode (UTF-8), e.g. an `otpauth://` URI
+ * @returns Rows of modules, `true` = dark; without the quiet zone
+ * @throws Error when the text exceeds 213 UTF-8 bytes
+ *
+ * @example
+ * ```typescript
+ * const matrix = ltQrCodeMatrix('otpauth://totp/App:jane%40example.com?secret=…');
+ * matrix.length; // 29 (version 3) … 57 (version 10)
+ * ```
+ */
+export function ltQrCodeMatrix(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= LT_QR_MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > getDataCodewords(version) * 8) {
+    version++;
+  }
+  if (version > LT_QR_MAX_VERSION) {
+    throw new Error(`[ltQrCodeMatrix] Text too long for a QR code (${bytes.length} bytes, max. 213)`);
+  }
+
+  const matrix = new LtQrMatrix(version);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addEccAndInterleave(encodeData(bytes, version), version));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const score = matrix.getPenaltyScore();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return matrix.modules;
+}
+
+/**
+ * Renders text as a QR code SVG string (see {@link ltQrCodeMatrix})
+ *
+ * The SVG scales to its container (`viewBox` only) and uses `currentColor` for
+ * the dark modules, so it follows the text color. Insert it with `v-html` —
+ * the output contains no user-controlled markup.
+ *
+ * @param text - The text to encode, e.g. an `otpauth://` URI
+ * @param options - `margin`: quiet zone in modules (default: 4)
+ * @returns The SVG markup
+ *
+ * @example
+ * ```vue
+ * <div class="size-48 text-black bg-white" v-html="ltQrCodeSvg(totpUri)" />
+ * ```
+ */
+export function ltQrCodeSvg(text: string, options: { margin?: number } = {}): string {
+  const matrix = ltQrCodeMatrix(text);
+  const margin = options.margin ?? 4;
+  const size = matrix.length + margin * 2;
+  const path: string[] = [];
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        path.push(`M${x + margin} ${y + margin}h1v1h-1z`);
+      }
+    });
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><path fill="currentColor" d="${path.join('')}"/></svg>`;
+}
@@ -0,0 +1,33 @@
+// =============================================================================
+// Redirect Utilities
+// =============================================================================
+
+/**
+ * Validates a post-login redirect target (e.g. `route.query.redirect`)
+ *
+ * Only same-origin absolute paths pass. Protocol-relative (`//evil.com`),
+ * backslash (`/\evil.com`, which browsers normalise to `//`), absolute URLs and
+ * values with control characters fall back — an attacker-supplied `redirect`
+ * query must never turn the login page into an open redirect.
+ *
+ * @param value - The raw redirect value (string, query array, or anything else)
+ * @param fallback - Path to use when the value is missing or unsafe (default: '/')
+ * @returns A safe same-origin path
+ *
+ * @example
+ * ```typescript
+ * const route = useRoute();
+ * await navigateTo(ltSafeRedirectPath(route.query.redirect, '/dashboard'));
+ * ```
+ */
+export function ltSafeRedirectPath(value: unknown, fallback: string = '/'): string {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== 'string' || !raw.startsWith('/') || raw.startsWith('//') || raw.startsWith('/\\')) {
+    return fallback;
+  }
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u001F\u007F]/.test(raw)) {
+    return fallback;
+  }
+  return raw;
+}
@@ -0,0 +1,196 @@
+/**
+ * Abilities (`registerLtAbilities`, `useLtAbility`, `v-lt-can`).
+ *
+ *  - rules are derived from the user; the last matching rule wins, 'manage' / 'all' are wildcards
+ *  - conditions decide for a concrete object; without one a conditional `can` counts
+ *  - the rules recompute when the user, their roles or the definitions change
+ *  - the directive hides or disables the element and follows those changes
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApp, h, nextTick, ref, withDirectives } from 'vue';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+interface TestDocument {
+  editorIds: string[];
+  locked?: boolean;
+  ownerId: string;
+}
+
+const OWN: TestDocument = { editorIds: [], ownerId: 'u1' };
+const SHARED: TestDocument = { editorIds: ['u1'], ownerId: 'u2' };
+const FOREIGN: TestDocument = { editorIds: [], ownerId: 'u2' };
+
+async function setup() {
+  const { registerLtAbilities } = await import('../src/runtime/lib/ability');
+  registerLtAbilities(({ can, cannot }, { hasRole, user }) => {
+    can('read', 'Document');
+    if (!user) return;
+    can(['update', 'share'], 'Document', (doc: TestDocument) => doc.ownerId === user.id || doc.editorIds.includes(user.id));
+    cannot('update', 'Document', (doc: TestDocument) => !!doc.locked);
+    if (hasRole('admin')) can('manage', 'all');
+  });
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  const { useLtAbility } = await import('../src/runtime/composables/auth/use-lt-ability');
+  return { ability: useLtAbility(), auth: useLtAuth() };
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+});
+
+afterEach(async () => {
+  const { clearLtAbilities } = await import('../src/runtime/lib/ability');
+  clearLtAbilities();
+  vi.restoreAllMocks();
+  clearAllCookies();
+});
+
+describe('useLtAbility', () => {
+  it('derives the rules from the user and decides per object', async () => {
+    const { ability, auth } = await setup();
+
+    expect(ability.can('read', 'Document')).toBe(true);
+    expect(ability.can('update', 'Document')).toBe(false);
+
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane' });
+
+    expect(ability.can('update', 'Document')).toBe(true);
+    expect(ability.can('update', 'Document', OWN)).toBe(true);
+    expect(ability.can('share', 'Document', SHARED)).toBe(true);
+    expect(ability.can('update', 'Document', FOREIGN)).toBe(false);
+    expect(ability.can('update', 'Document', { ...OWN, locked: true })).toBe(false);
+    expect(ability.cannot('delete', 'Document', OWN)).toBe(true);
+    expect(ability.can('read', 'Invoice')).toBe(false);
+  });
+
+  it('recomputes when the roles or the definitions change', async () => {
+    const { ability, auth } = await setup();
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane' });
+    expect(ability.can('delete', 'Invoice')).toBe(false);
+
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane', roles: ['admin'] });
+    expect(ability.can('delete', 'Invoice')).toBe(true);
+    // The wildcard comes last, so it also wins over the `cannot` for locked documents
+    expect(ability.can('update', 'Document', { ...FOREIGN, locked: true })).toBe(true);
+
+    const { registerLtAbilities } = await import('../src/runtime/lib/ability');
+    const unregister = registerLtAbilities(({ cannot }) => cannot('delete', 'Invoice'));
+    expect(ability.can('delete', 'Invoice')).toBe(false);
+    unregister();
+    expect(ability.can('delete', 'Invoice')).toBe(true);
+  });
+
+  it('replaces a definition registered again under the same key', async () => {
+    const { ability, auth } = await setup();
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane' });
+    const { buildLtAbilityRules, registerLtAbilities } = await import('../src/runtime/lib/ability');
+    const context = { hasAnyRole: () => false, hasRole: () => false, user: null };
+    const baseline = buildLtAbilityRules(context).length;
+
+    // Once per (SSR) request
+    registerLtAbilities(({ can }) => can('export', 'Invoice'), 'invoices');
+    const unregister = registerLtAbilities(({ can }) => can('export', 'Invoice'), 'invoices');
+    expect(buildLtAbilityRules(context)).toHaveLength(baseline + 1);
+    expect(ability.can('export', 'Invoice')).toBe(true);
+
+    const shared = ({ cannot }: { cannot: (action: string, subject: string) => void }) => cannot('export', 'Invoice');
+    registerLtAbilities(shared);
+    registerLtAbilities(shared);
+    expect(buildLtAbilityRules(context)).toHaveLength(baseline + 2);
+
+    unregister();
+    expect(buildLtAbilityRules(context)).toHaveLength(baseline + 1);
+  });
+
+  it('fails closed on a throwing definition or condition', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { ability, auth } = await setup();
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane' });
+    const { registerLtAbilities } = await import('../src/runtime/lib/ability');
+    registerLtAbilities(({ can }) => {
+      can('manage', 'all');
+      throw new Error('broken');
+    });
+
+    expect(ability.can('delete', 'Invoice')).toBe(false);
+    expect(error).toHaveBeenCalledWith('[LtAbility] Ability definition failed:', expect.any(Error));
+    // The locked-check throws for `null` and forbids
+    expect(ability.can('update', 'Document', null)).toBe(false);
+  });
+});
+
+describe('v-lt-can', () => {
+  it('hides or disables the element and follows user changes', async () => {
+    const { ability, auth } = await setup();
+    const { createLtCanDirective } = await import('../src/runtime/directives/lt-can');
+    const directive = createLtCanDirective(() => ability);
+    const root = document.createElement('div');
+
+    const app = createApp({
+      render: () => [
+        withDirectives(h('a', { id: 'edit' }), [[directive, ['update', 'Document', OWN]]]),
+        withDirectives(h('button', { id: 'share' }), [[directive, ['share', 'Document', FOREIGN], '', { disable: true }]]),
+      ],
+    });
+    app.mount(root);
+    const edit = root.querySelector<HTMLElement>('#edit')!;
+    const share = root.querySelector<HTMLElement>('#share')!;
+
+    expect(edit.style.display).toBe('none');
+    expect(share.hasAttribute('disabled')).toBe(true);
+    expect(share.getAttribute('aria-disabled')).toBe('true');
+
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane', roles: ['admin'] });
+    await nextTick();
+
+    expect(edit.style.display).toBe('');
+    expect(share.hasAttribute('disabled')).toBe(false);
+    app.unmount();
+  });
+
+  it('keeps a disabled state of the template with .disable', async () => {
+    const { ability, auth } = await setup();
+    const { createLtCanDirective } = await import('../src/runtime/directives/lt-can');
+    const directive = createLtCanDirective(() => ability);
+    const saving = ref(true);
+    const root = document.createElement('div');
+
+    const app = createApp({
+      render: () => withDirectives(h('button', { disabled: saving.value, id: 'share' }), [[directive, ['share', 'Document', FOREIGN], '', { disable: true }]]),
+    });
+    app.mount(root);
+    const share = root.querySelector<HTMLElement>('#share')!;
+    expect(share.hasAttribute('disabled')).toBe(true);
+
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane', roles: ['admin'] });
+    await nextTick();
+    expect(share.hasAttribute('disabled')).toBe(true);
+    expect(share.hasAttribute('aria-disabled')).toBe(false);
+
+    saving.value = false;
+    await nextTick();
+    expect(share.hasAttribute('disabled')).toBe(false);
+
+    auth.setUser({ email: 'jane@example.com', id: 'u1', name: 'Jane' });
+    await nextTick();
+    expect(share.hasAttribute('disabled')).toBe(true);
+    app.unmount();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Admin user management (`useLtAdminUsers`).
+ *
+ *  - requests map onto the Better-Auth admin client, passwords hashed
+ *  - `{ error }` results throw an Error with `status`
+ *  - `getUserRoles` merges the `role` and `roles` shapes
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ltSha256 } from '../src/runtime/utils/crypto';
+
+const admin = {
+  banUser: vi.fn(),
+  createUser: vi.fn(),
+  listUsers: vi.fn(),
+  setUserPassword: vi.fn(),
+};
+let adminEnabled = true;
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({ admin: adminEnabled ? admin : undefined }),
+}));
+
+async function useAdminUsers() {
+  const { useLtAdminUsers } = await import('../src/runtime/composables/auth/use-lt-admin-users');
+  return useLtAdminUsers();
+}
+
+beforeEach(() => {
+  adminEnabled = true;
+  for (const fn of Object.values(admin)) {
+    fn.mockReset();
+  }
+});
+
+describe('requests', () => {
+  it('lists users without empty query values', async () => {
+    admin.listUsers.mockResolvedValue({ data: { limit: 20, offset: 0, total: 1, users: [{ email: 'a@example.com', id: 'u1' }] }, error: null });
+    const { listUsers } = await useAdminUsers();
+
+    const page = await listUsers({ limit: 20, offset: 0, searchValue: '', sortBy: 'email', sortDirection: 'desc' });
+
+    expect(admin.listUsers).toHaveBeenCalledWith({ query: { limit: 20, offset: 0, sortBy: 'email', sortDirection: 'desc' } });
+    expect(page).toEqual({ limit: 20, offset: 0, total: 1, users: [{ email: 'a@example.com', id: 'u1' }] });
+  });
+
+  it('hashes passwords before sending', async () => {
+    admin.createUser.mockResolvedValue({ data: { user: { email: 'n@example.com', id: 'u2' } } });
+    admin.setUserPassword.mockResolvedValue({ data: { status: true } });
+    const { createUser, setUserPassword } = await useAdminUsers();
+    const hashed = await ltSha256('secret');
+
+    await createUser({ email: 'n@example.com', name: 'New', password: 'secret', role: ['user'] });
+    await expect(setUserPassword('u2', 'secret')).resolves.toBe(true);
+
+    expect(admin.createUser).toHaveBeenCalledWith({ email: 'n@example.com', name: 'New', password: hashed, role: ['user'] });
+    expect(admin.setUserPassword).toHaveBeenCalledWith({ newPassword: hashed, userId: 'u2' });
+  });
+
+  it('maps ban options and throws backend errors with their status', async () => {
+    admin.banUser.mockResolvedValue({ data: null, error: { message: 'You cannot ban yourself', status: 400 } });
+    const { banUser } = await useAdminUsers();
+
+    const error = await banUser('u1', { expiresIn: 3600, reason: 'Spam' }).catch((err: unknown) => err);
+
+    expect(admin.banUser).toHaveBeenCalledWith({ banExpiresIn: 3600, banReason: 'Spam', userId: 'u1' });
+    expect(error).toMatchObject({ message: 'You cannot ban yourself', status: 400 });
+  });
+
+  it('explains a disabled admin plugin', async () => {
+    adminEnabled = false;
+    const { listUsers } = await useAdminUsers();
+
+    await expect(listUsers()).rejects.toThrow('enableAdmin');
+  });
+});
+
+describe('getUserRoles', () => {
+  it('merges both shapes and ignores malformed values', async () => {
+    const { getUserRoles } = await useAdminUsers();
+
+    expect(getUserRoles({ email: 'a', id: '1', role: 'admin' })).toEqual(['admin']);
+    expect(getUserRoles({ email: 'a', id: '1', roles: ['admin', 'editor'] })).toEqual(['admin', 'editor']);
+    expect(getUserRoles({ email: 'a', id: '1', role: 'admin,user', roles: ['admin'] })).toEqual(['admin', 'user']);
+    expect(getUserRoles({ email: 'a', id: '1', roles: 'admin' as unknown as string[] })).toEqual([]);
+  });
+});
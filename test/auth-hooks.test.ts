@@ -0,0 +1,138 @@
+/**
+ * Auth lifecycle hooks (`lt:auth:*` on the Nuxt app).
+ *
+ *  - a sign-in calls `lt:auth:login` and, with the pre-fetched JWT, `lt:auth:mode-switched`
+ *  - changed user data calls `lt:auth:user-updated`, `signOut` calls `lt:auth:logout`
+ *  - the `ltAuthFetch` JWT fallback reports the mode switch with reason 'unauthorized'
+ *  - a throwing handler never breaks the auth flow
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubNuxtHooks, resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig, useNuxtApp } from './stubs/imports';
+
+const signInEmail = vi.fn();
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: signInEmail },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const JANE = { email: 'jane@example.com', id: 'u1', name: 'Jane' };
+
+/** Record every call of the given hooks as `[name, payload]`. */
+function recordHooks(...names: string[]): Array<[string, unknown]> {
+  const calls: Array<[string, unknown]> = [];
+  const hook = useNuxtApp().hook as (name: string, handler: (payload: unknown) => void) => void;
+  for (const name of names) {
+    hook(name, (payload) => calls.push([name, payload]));
+  }
+  return calls;
+}
+
+async function useAuth() {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  return useLtAuth();
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  resetStubNuxtHooks();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { jwtRefresh: { enabled: false }, sync: { enabled: false } } } } });
+  signInEmail.mockReset();
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => ({ json: async () => ({ token: 'jwt-1' }), ok: true, status: 200 }) as Response),
+  );
+});
+
+afterEach(async () => {
+  const { resetLtJwtRefreshState } = await import('../src/runtime/lib/auth-state');
+  resetLtJwtRefreshState();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+});
+
+describe('useLtAuth hooks', () => {
+  it('calls lt:auth:login and lt:auth:mode-switched on a cookie-mode sign-in', async () => {
+    signInEmail.mockResolvedValue({ data: { user: JANE } });
+    const calls = recordHooks('lt:auth:login', 'lt:auth:mode-switched');
+    const { signIn } = await useAuth();
+
+    await signIn.email({ email: JANE.email, password: 'secret' });
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+
+    expect(calls).toEqual([
+      ['lt:auth:login', { authMode: 'cookie', reason: 'sign-in', user: expect.objectContaining({ id: 'u1' }) }],
+      ['lt:auth:mode-switched', { from: 'cookie', reason: 'sign-in', to: 'jwt' }],
+    ]);
+  });
+
+  it('calls lt:auth:user-updated for changed data and lt:auth:logout on signOut', async () => {
+    const auth = await useAuth();
+    auth.setUser(JANE);
+    const calls = recordHooks('lt:auth:login', 'lt:auth:logout', 'lt:auth:user-updated');
+
+    auth.setUser(JANE);
+    auth.setUser({ ...JANE, name: 'Jane Doe' }, 'cookie', 'session');
+    await auth.signOut();
+
+    expect(calls).toEqual([
+      ['lt:auth:user-updated', { previous: JANE, reason: 'session', user: { ...JANE, name: 'Jane Doe' } }],
+      ['lt:auth:logout', { reason: 'sign-out', user: expect.objectContaining({ name: 'Jane Doe' }) }],
+    ]);
+  });
+
+  it('passes the reason of signOut to lt:auth:logout (inactivity timeout)', async () => {
+    const auth = await useAuth();
+    auth.setUser(JANE);
+    const calls = recordHooks('lt:auth:logout');
+
+    await auth.signOut(undefined, 'idle');
+
+    expect(calls).toEqual([['lt:auth:logout', { reason: 'idle', user: JANE }]]);
+  });
+
+  it('keeps the auth flow running when a handler throws', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    (useNuxtApp().hook as (name: string, handler: () => void) => void)('lt:auth:login', () => {
+      throw new Error('analytics down');
+    });
+    const auth = await useAuth();
+
+    expect(() => auth.setUser(JANE)).not.toThrow();
+    expect(auth.user.value).toMatchObject(JANE);
+    await vi.waitFor(() => expect(error).toHaveBeenCalledWith('[LtAuth] lt:auth:login hook failed:', expect.any(Error)));
+  });
+});
+
+describe('ltAuthFetch', () => {
+  it('reports the JWT fallback after a cookie-mode 401', async () => {
+    document.cookie = `lt-auth-state=${encodeURIComponent(JSON.stringify({ authMode: 'cookie', user: JANE }))}; path=/`;
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 401 } as Response)
+        .mockResolvedValueOnce({ json: async () => ({ token: 'jwt-2' }), ok: true, status: 200 } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200 } as Response),
+    );
+    const calls = recordHooks('lt:auth:mode-switched');
+    const { ltAuthFetch } = await import('../src/runtime/lib/auth-state');
+
+    await ltAuthFetch('/api/projects');
+
+    expect(calls).toEqual([['lt:auth:mode-switched', { from: 'cookie', reason: 'unauthorized', to: 'jwt' }]]);
+  });
+});
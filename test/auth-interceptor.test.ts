@@ -8,9 +8,19 @@
  *  - session alive   → keep the user logged in (permission error, no logout)
  *  - session dead    → clear state + redirect to login (real expiry)
  *  - probe undecided → keep the user logged in (API unreachable ≠ logged out)
+ *  - a confirmed expiry calls `lt:auth:session-expired` before the logout
+ *  - concurrent 401s share one probe and are replayed with renewed credentials,
+ *    or resolve with their 401 once the session is confirmed dead
+ *  - public pages (patterns, `ltAuth.public`), `ignoreUrls` and
+ *    `ltSkipAuthInterceptor` opt out; built-in auth endpoints only match under the base path
+ *  - refused API requests (403, 401 of a valid session) call `lt:auth:forbidden` with the
+ *    `#LTNS_xxxx` code, and redirect or toast once per burst; a stale CSRF token is no such refusal
  */
 
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubNuxtHooks, resetStubRuntimeConfig, setStubRuntimeConfig, useNuxtApp } from './stubs/imports';
 
 // Controllable stand-in for useLtAuth(): the interceptor only reads
 // isAuthenticated, clearUser and fetchWithAuth.
@@ -24,6 +34,15 @@ vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
   useLtAuth: () => authStub,
 }));
 
+const routerPush = vi.hoisted(() => vi.fn());
+const showErrorToast = vi.hoisted(() => vi.fn());
+
+// Real parseError, recorded toasts
+vi.mock('../src/runtime/composables/use-lt-error-translation', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../src/runtime/composables/use-lt-error-translation')>();
+  return { useLtErrorTranslation: () => ({ ...original.useLtErrorTranslation(), showErrorToast }) };
+});
+
 // Pin the API base so the probe URL is deterministic; keep all other exports.
 vi.mock('../src/runtime/lib/auth-state', async (importOriginal) => ({
   ...(await importOriginal<Record<string, unknown>>()),
@@ -37,11 +56,11 @@ type UnauthorizedHandler = (requestUrl?: string) => Promise<void>;
  * `ltHandleUnauthorized` handler it provides — calling it directly keeps the
  * tests deterministic (no racing through the fetch wrappers).
  */
-async function setupInterceptor(): Promise<UnauthorizedHandler> {
+async function setupInterceptor(auth: Record<string, unknown> = {}, route: Record<string, unknown> = { fullPath: '/app/board', path: '/app/board' }): Promise<UnauthorizedHandler> {
   const provide = vi.fn();
   const nuxtApp = {
-    $config: { public: { ltExtensions: { auth: {} } } },
-    $router: { currentRoute: { value: { fullPath: '/app/board', path: '/app/board' } } },
+    $config: { public: { ltExtensions: { auth } } },
+    $router: { currentRoute: { value: route }, push: routerPush },
     provide,
   };
   const plugin = (await import('../src/runtime/plugins/auth-interceptor.client')).default;
@@ -51,6 +70,30 @@ async function setupInterceptor(): Promise<UnauthorizedHandler> {
   return handler as UnauthorizedHandler;
 }
 
+/**
+ * Wrap `backend` as the native fetch (the plugin wraps `fetch` only once per
+ * realm, so the marker is reset first) and return the wrapped fetch
+ */
+async function setupFetchInterceptor(backend: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>, auth: Record<string, unknown> = {}): Promise<typeof fetch> {
+  delete (globalThis as Record<string, unknown>).__ltAuthFetchWrapped;
+  vi.stubGlobal('fetch', backend);
+  vi.stubGlobal('$fetch', vi.fn());
+  await setupInterceptor(auth);
+  return globalThis.fetch;
+}
+
+/** Status response; 200 only for requests carrying `Bearer jwt-new` */
+async function jwtOnlyBackend(_input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const authorized = new Headers(init?.headers).get('Authorization') === 'Bearer jwt-new';
+  return { json: async () => ({}), ok: authorized, status: authorized ? 200 : 401 } as Response;
+}
+
+/** What the Cookie → JWT switch of `fetchWithAuth` leaves behind */
+function switchToJwt(): void {
+  document.cookie = `lt-auth-state=${encodeURIComponent(JSON.stringify({ authMode: 'jwt', user: { id: 'u1' } }))}; path=/`;
+  document.cookie = `lt-jwt-token=${encodeURIComponent(JSON.stringify('jwt-new'))}; path=/`;
+}
+
 function probeResolvesWith(body: unknown, ok = true): void {
   authStub.fetchWithAuth.mockResolvedValue({
     ok,
@@ -59,6 +102,9 @@ function probeResolvesWith(body: unknown, ok = true): void {
 }
 
 beforeEach(() => {
+  resetStubNuxtHooks();
+  routerPush.mockReset();
+  showErrorToast.mockReset();
   authStub.clearUser.mockReset();
   authStub.fetchWithAuth.mockReset();
   authStub.isAuthenticated.value = true;
@@ -85,6 +131,21 @@ describe('auth interceptor — 401 handling probes the session before logging ou
     expect(authStub.clearUser).toHaveBeenCalledTimes(1);
   });
 
+  it('calls lt:auth:session-expired with the request and login URL before logging out', async () => {
+    const handleUnauthorized = await setupInterceptor();
+    probeResolvesWith(null);
+    const calls: string[] = [];
+    const expired = vi.fn(() => calls.push('session-expired'));
+    (useNuxtApp().hook as (name: string, handler: () => void) => void)('lt:auth:session-expired', expired);
+    authStub.clearUser.mockImplementation(() => calls.push('clearUser'));
+
+    await handleUnauthorized('https://api.example.com/measures');
+
+    expect(expired).toHaveBeenCalledWith({ reason: 'session-expired', redirect: '/auth/login?redirect=%2Fapp%2Fboard', url: 'https://api.example.com/measures' });
+    expect(authStub.clearUser).toHaveBeenCalledWith('session-expired');
+    expect(calls).toEqual(['session-expired', 'clearUser']);
+  });
+
   it('logs out when the session endpoint itself rejects the request', async () => {
     const handleUnauthorized = await setupInterceptor();
     probeResolvesWith(null, false);
@@ -122,3 +183,231 @@ describe('auth interceptor — 401 handling probes the session before logging ou
     expect(authStub.clearUser).not.toHaveBeenCalled();
   });
 });
+
+describe('auth interceptor — concurrent 401s wait for one recovery', () => {
+  beforeEach(() => {
+    setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com' } });
+    document.cookie = `lt-auth-state=${encodeURIComponent(JSON.stringify({ authMode: 'cookie', user: { id: 'u1' } }))}; path=/`;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete (globalThis as Record<string, unknown>).__ltAuthFetchWrapped;
+    resetStubRuntimeConfig();
+    clearAllCookies();
+  });
+
+  it('parks 401s during the probe and replays them with the new JWT', async () => {
+    const backend = vi.fn(jwtOnlyBackend);
+    const wrappedFetch = await setupFetchInterceptor(backend);
+    let finishProbe = (): void => {};
+    authStub.fetchWithAuth.mockImplementation(async () => {
+      await new Promise<void>((resolve) => (finishProbe = resolve));
+      switchToJwt();
+      return { json: async () => ({ session: { id: 's1' }, user: { id: 'u1' } }), ok: true };
+    });
+
+    const projects = wrappedFetch('https://api.example.com/projects');
+    const tasks = wrappedFetch('https://api.example.com/tasks', { headers: { 'X-Trace': '1' } });
+    await vi.waitFor(() => expect(backend).toHaveBeenCalledTimes(2));
+    finishProbe();
+
+    expect((await projects).status).toBe(200);
+    expect((await tasks).status).toBe(200);
+    expect(authStub.fetchWithAuth).toHaveBeenCalledTimes(1);
+    expect(backend).toHaveBeenCalledTimes(4);
+    expect(new Headers(backend.mock.calls[3]![1]?.headers).get('X-Trace')).toBe('1');
+    expect(backend.mock.calls[3]![1]?.credentials).toBe('include');
+    expect(authStub.clearUser).not.toHaveBeenCalled();
+  });
+
+  it('replays a straggler sent before the switch without probing again', async () => {
+    const backend = vi.fn(jwtOnlyBackend);
+    const wrappedFetch = await setupFetchInterceptor(backend);
+    let answerStraggler = (): void => {};
+    backend.mockImplementationOnce(jwtOnlyBackend).mockImplementationOnce(async (input, init) => {
+      await new Promise<void>((resolve) => (answerStraggler = resolve));
+      return jwtOnlyBackend(input, init);
+    });
+    authStub.fetchWithAuth.mockImplementation(async () => {
+      switchToJwt();
+      return { json: async () => ({ session: { id: 's1' }, user: { id: 'u1' } }), ok: true };
+    });
+
+    const first = wrappedFetch('https://api.example.com/projects');
+    const straggler = wrappedFetch('https://api.example.com/tasks');
+    expect((await first).status).toBe(200);
+    answerStraggler();
+
+    expect((await straggler).status).toBe(200);
+    expect(authStub.fetchWithAuth).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves every parked request with its 401 once the session is dead', async () => {
+    const backend = vi.fn(jwtOnlyBackend);
+    const wrappedFetch = await setupFetchInterceptor(backend);
+    probeResolvesWith(null);
+
+    const responses = await Promise.all([wrappedFetch('https://api.example.com/projects'), wrappedFetch('https://api.example.com/tasks')]);
+
+    expect(responses.map((response) => response.status)).toEqual([401, 401]);
+    expect(backend).toHaveBeenCalledTimes(2);
+    expect(authStub.fetchWithAuth).toHaveBeenCalledTimes(1);
+    expect(authStub.clearUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the 401 without a replay when the credentials did not change', async () => {
+    const backend = vi.fn(jwtOnlyBackend);
+    const wrappedFetch = await setupFetchInterceptor(backend);
+    probeResolvesWith({ session: { id: 's1' }, user: { id: 'u1' } });
+
+    const response = await wrappedFetch('https://api.example.com/admin/reports');
+
+    expect(response.status).toBe(401);
+    expect(backend).toHaveBeenCalledTimes(1);
+    expect(authStub.clearUser).not.toHaveBeenCalled();
+  });
+});
+
+describe('auth interceptor — opt-outs', () => {
+  beforeEach(() => {
+    probeResolvesWith(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete (globalThis as Record<string, unknown>).__ltAuthFetchWrapped;
+  });
+
+  it('matches public paths as prefix, glob or regex, and honours ltAuth.public', async () => {
+    const publicPaths = ['/shop/**', '^/p/\\d+$'];
+    for (const path of ['/auth/login/2fa', '/shop', '/shop/cart/items', '/p/42']) {
+      await (await setupInterceptor({ interceptor: { publicPaths } }, { fullPath: path, path }))('https://api.example.com/measures');
+    }
+    await (await setupInterceptor({}, { fullPath: '/pricing', meta: { ltAuth: { public: true } }, path: '/pricing' }))('https://api.example.com/measures');
+    expect(authStub.fetchWithAuth).not.toHaveBeenCalled();
+
+    await (await setupInterceptor({ interceptor: { publicPaths } }, { fullPath: '/shopping', path: '/shopping' }))('https://api.example.com/measures');
+    expect(authStub.clearUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('only treats session / token URLs under the auth base path as auth endpoints', async () => {
+    const handleUnauthorized = await setupInterceptor({ interceptor: { ignoreUrls: ['/preview/*'] } });
+
+    await handleUnauthorized('https://api.example.com/iam/list-sessions');
+    await handleUnauthorized('https://api.example.com/iam/token');
+    await handleUnauthorized('https://api.example.com/preview/42?draft=1');
+    expect(authStub.fetchWithAuth).not.toHaveBeenCalled();
+
+    await handleUnauthorized('https://api.example.com/reports/sessions');
+    expect(authStub.clearUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a 401 of a request with ltSkipAuthInterceptor to the caller', async () => {
+    const backend = vi.fn(async () => ({ ok: false, status: 401 }) as Response);
+    const wrappedFetch = await setupFetchInterceptor(backend);
+
+    const response = await wrappedFetch('https://api.example.com/profile', { ltSkipAuthInterceptor: true });
+
+    expect(response.status).toBe(401);
+    expect(authStub.fetchWithAuth).not.toHaveBeenCalled();
+    expect(authStub.clearUser).not.toHaveBeenCalled();
+  });
+});
+
+describe('auth interceptor — forbidden handling', () => {
+  const FORBIDDEN_BODY = { message: '#LTNS_0101: Forbidden - Missing role', statusCode: 403 };
+
+  async function forbiddenBackend(): Promise<Response> {
+    return new Response(JSON.stringify(FORBIDDEN_BODY), { status: 403 });
+  }
+
+  function recordForbidden(): ReturnType<typeof vi.fn> {
+    const forbidden = vi.fn();
+    (useNuxtApp().hook as (name: string, handler: (payload: unknown) => void) => void)('lt:auth:forbidden', forbidden);
+    return forbidden;
+  }
+
+  beforeEach(() => {
+    setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com' } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete (globalThis as Record<string, unknown>).__ltAuthFetchWrapped;
+    resetStubRuntimeConfig();
+  });
+
+  it('calls lt:auth:forbidden with the URL and the parsed code, keeping the body readable', async () => {
+    const wrappedFetch = await setupFetchInterceptor(forbiddenBackend, { interceptor: { forbidden: { enabled: true } } });
+    const forbidden = recordForbidden();
+
+    const response = await wrappedFetch('https://api.example.com/admin/users');
+
+    expect(await response.json()).toEqual(FORBIDDEN_BODY);
+    await vi.waitFor(() =>
+      expect(forbidden).toHaveBeenCalledWith({ code: 'LTNS_0101', message: 'Forbidden - Missing role', status: 403, url: 'https://api.example.com/admin/users' }),
+    );
+    expect(routerPush).not.toHaveBeenCalled();
+    expect(showErrorToast).not.toHaveBeenCalled();
+  });
+
+  it('shows one translated toast for a burst of refused requests', async () => {
+    const wrappedFetch = await setupFetchInterceptor(forbiddenBackend, { interceptor: { forbidden: { action: 'toast', enabled: true } } });
+    const forbidden = recordForbidden();
+
+    await Promise.all([wrappedFetch('https://api.example.com/a'), wrappedFetch('https://api.example.com/b')]);
+
+    await vi.waitFor(() => expect(forbidden).toHaveBeenCalledTimes(2));
+    expect(showErrorToast).toHaveBeenCalledTimes(1);
+    expect(showErrorToast).toHaveBeenCalledWith('Forbidden - Missing role', 'Keine Berechtigung');
+  });
+
+  it('redirects to the forbidden page for a 401 of a still valid session', async () => {
+    const backend = vi.fn(async () => new Response('{}', { status: 401 }));
+    const wrappedFetch = await setupFetchInterceptor(backend, { interceptor: { forbidden: { action: 'redirect', enabled: true, path: '/no-access' } } });
+    probeResolvesWith({ session: { id: 's1' }, user: { id: 'u1' } });
+    const forbidden = recordForbidden();
+
+    const response = await wrappedFetch('https://api.example.com/reports');
+
+    expect(response.status).toBe(401);
+    await vi.waitFor(() => expect(routerPush).toHaveBeenCalledWith({ path: '/no-access', query: {} }));
+    expect(forbidden).toHaveBeenCalledWith({ code: null, message: 'Sie haben keine Berechtigung für diese Aktion', status: 401, url: 'https://api.example.com/reports' });
+    expect(authStub.clearUser).not.toHaveBeenCalled();
+  });
+
+  it('leaves a stale CSRF token to the CSRF retry', async () => {
+    setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { csrf: { enabled: true } } } } });
+    const csrfBackend = async () => new Response(JSON.stringify({ code: 'EBADCSRFTOKEN', message: 'invalid csrf token' }), { status: 403 });
+    const wrappedFetch = await setupFetchInterceptor(csrfBackend, { interceptor: { forbidden: { action: 'toast', enabled: true } } });
+    const forbidden = recordForbidden();
+
+    await wrappedFetch('https://api.example.com/projects', { method: 'POST' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(forbidden).not.toHaveBeenCalled();
+    expect(showErrorToast).not.toHaveBeenCalled();
+  });
+
+  it('ignores 403s of other hosts', async () => {
+    const wrappedFetch = await setupFetchInterceptor(forbiddenBackend, { interceptor: { forbidden: { action: 'toast', enabled: true } } });
+    const forbidden = recordForbidden();
+
+    await wrappedFetch('https://maps.example.org/tiles/1');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(forbidden).not.toHaveBeenCalled();
+    expect(showErrorToast).not.toHaveBeenCalled();
+  });
+
+  it('ignores 403s unless enabled', async () => {
+    const wrappedFetch = await setupFetchInterceptor(forbiddenBackend);
+    const forbidden = recordForbidden();
+
+    await wrappedFetch('https://api.example.com/admin/users');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(forbidden).not.toHaveBeenCalled();
+  });
+});
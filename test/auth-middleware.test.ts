@@ -0,0 +1,129 @@
+/**
+ * `lt-auth` route middleware — page protection driven by `definePageMeta({ ltAuth })`.
+ *
+ * Covers the three gates (required / roles / guestOnly), the loop guard on the
+ * login page itself, and the open-redirect guard on the `redirect` query
+ * (`ltSafeRedirectPath`).
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { LtAuthPageMeta } from '../src/runtime/types';
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+function route(fullPath: string, ltAuth?: LtAuthPageMeta) {
+  return { fullPath, meta: { ltAuth }, path: fullPath.split('?')[0] };
+}
+
+async function runMiddleware(to: ReturnType<typeof route>): Promise<unknown> {
+  const middleware = (await import('../src/runtime/middleware/auth')).default as unknown as (to: unknown) => unknown;
+  return middleware(to);
+}
+
+async function signInAs(user: Record<string, unknown>): Promise<void> {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  useLtAuth().setUser({ email: 'a@example.com', id: 'u1', ...user });
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { homePath: '/app', loginPath: '/auth/login' } } } });
+});
+
+afterEach(() => {
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('lt-auth middleware', () => {
+  it('ignores pages without ltAuth meta', async () => {
+    expect(await runMiddleware(route('/public'))).toBeUndefined();
+  });
+
+  it('redirects signed-out visitors to the login page with the target as redirect query', async () => {
+    const result = await runMiddleware(route('/app/board?tab=2', { required: true }));
+
+    expect(result).toEqual({ navigateTo: { path: '/auth/login', query: { redirect: '/app/board?tab=2' } }, options: undefined });
+  });
+
+  it('treats an ltAuth object without `required` as required', async () => {
+    const result = (await runMiddleware(route('/app', {}))) as { navigateTo: { path: string } };
+
+    expect(result.navigateTo.path).toBe('/auth/login');
+  });
+
+  it('never redirects the login page to itself', async () => {
+    expect(await runMiddleware(route('/auth/login', { required: true }))).toBeUndefined();
+  });
+
+  it('lets signed-in users through', async () => {
+    await signInAs({});
+
+    expect(await runMiddleware(route('/app', { required: true }))).toBeUndefined();
+  });
+
+  it('aborts with 403 when the user holds none of the roles', async () => {
+    await signInAs({ roles: ['user'] });
+
+    const result = (await runMiddleware(route('/admin', { roles: ['admin'] }))) as { abortNavigation: { statusCode: number } };
+
+    expect(result.abortNavigation.statusCode).toBe(403);
+  });
+
+  it('accepts either user shape for roles (hasAnyRole semantics)', async () => {
+    await signInAs({ role: 'editor' });
+
+    expect(await runMiddleware(route('/manage', { roles: ['admin', 'editor'] }))).toBeUndefined();
+  });
+
+  it('sends signed-in users away from guest-only pages to homePath', async () => {
+    await signInAs({});
+
+    expect(await runMiddleware(route('/auth/login', { guestOnly: true }))).toEqual({ navigateTo: '/app', options: undefined });
+  });
+
+  it('lets signed-out visitors open guest-only pages', async () => {
+    expect(await runMiddleware(route('/auth/login', { guestOnly: true }))).toBeUndefined();
+  });
+
+  it('skips pages that opt out with required: false', async () => {
+    expect(await runMiddleware(route('/landing', { required: false }))).toBeUndefined();
+  });
+
+  it('skips public pages', async () => {
+    expect(await runMiddleware(route('/pricing', { public: true }))).toBeUndefined();
+  });
+});
+
+describe('ltSafeRedirectPath', () => {
+  it('keeps same-origin paths', async () => {
+    const { ltSafeRedirectPath } = await import('../src/runtime/utils/redirect');
+
+    expect(ltSafeRedirectPath('/app/board?tab=2#top')).toBe('/app/board?tab=2#top');
+    expect(ltSafeRedirectPath(['/first', '/second'])).toBe('/first');
+  });
+
+  it('falls back for absolute, protocol-relative and backslash targets', async () => {
+    const { ltSafeRedirectPath } = await import('../src/runtime/utils/redirect');
+
+    for (const value of ['https://evil.com', '//evil.com', '/\\evil.com', 'javascript:alert(1)', '/\tevil', undefined, 42]) {
+      expect(ltSafeRedirectPath(value, '/home')).toBe('/home');
+    }
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Cross-tab auth sync (`broadcastLtAuthSync` / `onLtAuthSync` + the `auth-sync` plugin).
+ *
+ * The "other tab" is a second BroadcastChannel on the same name — Node delivers
+ * to every channel instance except the sender, exactly like browser tabs.
+ *  - setUser / clearUser / setLtAuthMode / setLtJwtToken broadcast the right kind
+ *  - an unchanged re-validation does not ping the other tabs
+ *  - a received message refreshes the cookie refs, calls the `lt:auth:*` hook and re-runs the route middleware
+ *  - without BroadcastChannel, the storage-event fallback carries the message
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { LtAuthSyncEvent } from '../src/runtime/types';
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubNuxtHooks, resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig, useCookie, useNuxtApp } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const SYNC_KEY = 'lt-auth-state:sync';
+
+let otherTab: BroadcastChannel | null = null;
+let received: LtAuthSyncEvent[] = [];
+
+/** Open the "other tab" and record everything it receives. */
+function openOtherTab(): BroadcastChannel {
+  otherTab = new BroadcastChannel(SYNC_KEY);
+  otherTab.onmessage = (message: MessageEvent) => received.push(message.data as LtAuthSyncEvent);
+  return otherTab;
+}
+
+/** Let pending channel messages arrive. */
+async function flushMessages(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+async function useAuth() {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  return useLtAuth();
+}
+
+beforeEach(async () => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  received = [];
+  const { resetLtAuthSyncState } = await import('../src/runtime/lib/auth-state');
+  resetLtAuthSyncState();
+});
+
+afterEach(async () => {
+  otherTab?.close();
+  otherTab = null;
+  vi.unstubAllGlobals();
+  const { resetLtAuthSyncState } = await import('../src/runtime/lib/auth-state');
+  resetLtAuthSyncState();
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('broadcasting', () => {
+  it('announces login, user-update and logout from setUser / clearUser', async () => {
+    openOtherTab();
+    const auth = await useAuth();
+
+    auth.setUser({ email: 'a@example.com', id: 'u1', name: 'Ada' });
+    auth.setUser({ email: 'a@example.com', id: 'u1', name: 'Ada L.' });
+    auth.clearUser();
+    await flushMessages();
+
+    expect(received.map((event) => [event.type, event.userId])).toEqual([
+      ['login', 'u1'],
+      ['user-update', 'u1'],
+      ['logout', null],
+    ]);
+  });
+
+  it('stays quiet when a re-validation writes the unchanged user', async () => {
+    const auth = await useAuth();
+    auth.setUser({ email: 'a@example.com', id: 'u1' });
+    openOtherTab();
+
+    auth.setUser({ email: 'a@example.com', id: 'u1' });
+    auth.clearUser();
+    auth.clearUser();
+    await flushMessages();
+
+    expect(received.map((event) => event.type)).toEqual(['logout']);
+  });
+
+  it('announces new tokens from setLtJwtToken and mode switches from setLtAuthMode', async () => {
+    const { setLtAuthMode, setLtJwtToken } = await import('../src/runtime/lib/auth-state');
+    (await useAuth()).setUser({ email: 'a@example.com', id: 'u1' });
+    openOtherTab();
+
+    setLtJwtToken('jwt-1');
+    setLtAuthMode('jwt');
+    await flushMessages();
+
+    expect(received.map((event) => event.type)).toEqual(['token-refreshed', 'auth-mode-switch']);
+    expect(received[1]?.authMode).toBe('jwt');
+  });
+
+  it('does not broadcast when sync is disabled in the module options', async () => {
+    setStubRuntimeConfig({ public: { ltExtensions: { auth: { sync: { enabled: false } } } } });
+    openOtherTab();
+
+    (await useAuth()).setUser({ email: 'a@example.com', id: 'u1' });
+    await flushMessages();
+
+    expect(received).toEqual([]);
+  });
+});
+
+describe('receiving (auth-sync plugin)', () => {
+  async function setupPlugin(redirect?: boolean) {
+    const replace = vi.fn(async () => {});
+    const nuxtApp = {
+      $config: { public: { ltExtensions: { auth: { sync: { redirect } } } } },
+      $router: { currentRoute: { value: { hash: '', path: '/app/board', query: { tab: '2' } } }, replace },
+    };
+    const plugin = (await import('../src/runtime/plugins/auth-sync.client')).default;
+    plugin(nuxtApp as never);
+    return { replace };
+  }
+
+  it('drops the signed-out user at once and re-runs the route middleware', async () => {
+    const auth = await useAuth();
+    auth.setUser({ email: 'a@example.com', id: 'u1' });
+    const { replace } = await setupPlugin();
+    const logout = vi.fn();
+    resetStubNuxtHooks();
+    (useNuxtApp().hook as (name: string, handler: () => void) => void)('lt:auth:logout', logout);
+
+    // The other tab signed out: the shared cookies are gone
+    clearAllCookies();
+    openOtherTab().postMessage({ at: Date.now(), authMode: 'cookie', type: 'logout', userId: null } satisfies LtAuthSyncEvent);
+    await flushMessages();
+
+    expect(useCookie('lt-auth-state').value).toBeNull();
+    expect(auth.isAuthenticated.value).toBe(false);
+    expect(logout).toHaveBeenCalledWith({ reason: 'sync', user: { email: 'a@example.com', id: 'u1' } });
+    expect(replace).toHaveBeenCalledWith({ force: true, hash: '', path: '/app/board', query: { tab: '2' } });
+  });
+
+  it('only refreshes the state on mode switches, and never redirects when disabled', async () => {
+    const { replace } = await setupPlugin(false);
+    document.cookie = `lt-jwt-token=${encodeURIComponent(JSON.stringify('jwt-2'))}; path=/`;
+
+    const tab = openOtherTab();
+    tab.postMessage({ at: Date.now(), authMode: 'jwt', type: 'auth-mode-switch', userId: 'u1' } satisfies LtAuthSyncEvent);
+    tab.postMessage({ at: Date.now(), authMode: 'cookie', type: 'login', userId: 'u1' } satisfies LtAuthSyncEvent);
+    await flushMessages();
+
+    expect(useCookie('lt-jwt-token').value).toBe('jwt-2');
+    expect(replace).not.toHaveBeenCalled();
+  });
+
+  it('re-reads a refreshed token without announcing a mode switch', async () => {
+    const auth = await useAuth();
+    auth.setUser({ email: 'a@example.com', id: 'u1' });
+    await setupPlugin();
+    const modeSwitched = vi.fn();
+    resetStubNuxtHooks();
+    (useNuxtApp().hook as (name: string, handler: () => void) => void)('lt:auth:mode-switched', modeSwitched);
+    document.cookie = `lt-jwt-token=${encodeURIComponent(JSON.stringify('jwt-3'))}; path=/`;
+
+    openOtherTab().postMessage({ at: Date.now(), authMode: 'jwt', type: 'token-refreshed', userId: 'u1' } satisfies LtAuthSyncEvent);
+    await flushMessages();
+
+    expect(useCookie('lt-jwt-token').value).toBe('jwt-3');
+    expect(modeSwitched).not.toHaveBeenCalled();
+  });
+});
+
+describe('storage-event fallback', () => {
+  it('sends and receives through localStorage when BroadcastChannel is missing', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const { broadcastLtAuthSync, onLtAuthSync } = await import('../src/runtime/lib/auth-state');
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const listener = vi.fn();
+    onLtAuthSync(listener);
+
+    broadcastLtAuthSync('logout');
+    expect(setItem).toHaveBeenCalledWith(SYNC_KEY, expect.stringContaining('"type":"logout"'));
+    expect(localStorage.getItem(SYNC_KEY)).toBeNull();
+
+    // Another tab's write arrives as a storage event; its cleanup (newValue null) is ignored
+    const event = { at: 1, authMode: 'cookie', type: 'login', userId: 'u2' };
+    window.dispatchEvent(new StorageEvent('storage', { key: SYNC_KEY, newValue: JSON.stringify(event) }));
+    window.dispatchEvent(new StorageEvent('storage', { key: SYNC_KEY, newValue: null }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+    setItem.mockRestore();
+  });
+});
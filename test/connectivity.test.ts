@@ -0,0 +1,162 @@
+/**
+ * Connectivity layer (`useLtConnectivity`, lib/connectivity).
+ *
+ *  - a request without HTTP response marks the app offline, any response marks it online
+ *  - while offline the API is probed; the return runs deferred tasks and calls `lt:connectivity:restored`
+ *  - the browser's offline flag stops probing until the `online` event
+ *  - the system setup check and `validateSession` never decide anything while offline
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubNuxtHooks, resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig, useNuxtApp } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: {},
+    signOut: async () => ({}),
+    signUp: {},
+    twoFactor: {},
+    useSession: () => {
+      throw new Error('validateSession must not ask the backend while offline');
+    },
+  }),
+}));
+
+const JANE = { email: 'jane@example.com', id: 'u1', name: 'Jane' };
+
+function okResponse(): Response {
+  return { json: async () => ({}), ok: true, status: 200 } as Response;
+}
+
+/** Record every `lt:connectivity:restored` payload. */
+function recordRestored(): unknown[] {
+  const calls: unknown[] = [];
+  (useNuxtApp().hook as (name: string, handler: (payload: unknown) => void) => void)('lt:connectivity:restored', (payload) => calls.push(payload));
+  return calls;
+}
+
+async function useConnectivity() {
+  const { useLtConnectivity } = await import('../src/runtime/composables/use-lt-connectivity');
+  return useLtConnectivity();
+}
+
+async function goOffline(): Promise<void> {
+  const { trackLtConnectivity } = await import('../src/runtime/lib/connectivity');
+  await trackLtConnectivity(Promise.reject(new TypeError('Failed to fetch'))).catch(() => {});
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  resetStubNuxtHooks();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam' } } } });
+});
+
+afterEach(async () => {
+  const { resetLtConnectivityState } = await import('../src/runtime/lib/connectivity');
+  resetLtConnectivityState();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+});
+
+describe('useLtConnectivity', () => {
+  it('goes offline on a network error only, and back online on the next response', async () => {
+    const { isLtNetworkError, trackLtConnectivity } = await import('../src/runtime/lib/connectivity');
+    const { isOnline, offlineSince, whenOnline } = await useConnectivity();
+    const restored = recordRestored();
+    const task = vi.fn();
+
+    await trackLtConnectivity(Promise.resolve({ ok: false, status: 500 } as Response));
+    expect(isOnline.value).toBe(true);
+    expect(isLtNetworkError(Object.assign(new Error('[GET] /x: 404'), { name: 'FetchError', response: { status: 404 } }))).toBe(false);
+    expect(isLtNetworkError(new DOMException('aborted', 'AbortError'))).toBe(false);
+
+    await goOffline();
+    expect(isOnline.value).toBe(false);
+    expect(offlineSince.value).toBeInstanceOf(Date);
+
+    whenOnline(task);
+    whenOnline(task);
+    expect(task).not.toHaveBeenCalled();
+
+    await trackLtConnectivity(Promise.resolve(okResponse()));
+    await vi.waitFor(() => expect(task).toHaveBeenCalledTimes(1));
+    expect(isOnline.value).toBe(true);
+    expect(offlineSince.value).toBeNull();
+    expect(restored).toEqual([{ offlineSince: expect.any(Date) }]);
+  });
+
+  it('probes the API while offline', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn().mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue({ ok: false, status: 404 } as Response);
+    vi.stubGlobal('fetch', fetch);
+    const { isOnline } = await useConnectivity();
+
+    await goOffline();
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(fetch).toHaveBeenCalledWith('https://api.example.com/iam/ok', expect.objectContaining({ ltSkipAuthInterceptor: true }));
+    expect(isOnline.value).toBe(false);
+
+    // Any HTTP answer proves the API is reachable
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(isOnline.value).toBe(true);
+  });
+
+  it('waits for the online event while the browser is offline', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+    const { setLtBrowserOnline } = await import('../src/runtime/lib/connectivity');
+    const { check, isOnline } = await useConnectivity();
+    const restored = recordRestored();
+
+    setLtBrowserOnline(false);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await expect(check()).resolves.toBe(false);
+    expect(fetch).not.toHaveBeenCalled();
+
+    setLtBrowserOnline(true);
+    expect(isOnline.value).toBe(true);
+    expect(restored).toHaveLength(1);
+  });
+});
+
+describe('offline-aware auth', () => {
+  it('keeps the setup status unknown while offline and checks again once online', async () => {
+    const status = vi.fn().mockRejectedValueOnce(Object.assign(new Error('[GET] status: <no response> Failed to fetch'), { name: 'FetchError' }));
+    // Other calls (the feature flags of useLtAuth) answer normally
+    vi.stubGlobal('$fetch', (url: string) => (url.endsWith('/system-setup/status') ? status() : Promise.resolve({})));
+    const { useSystemSetup } = await import('../src/runtime/composables/auth/use-system-setup');
+    const { checkSetupStatus, needsSetup } = useSystemSetup();
+
+    await checkSetupStatus();
+    expect(needsSetup.value).toBeNull();
+
+    status.mockResolvedValue({ needsSetup: true });
+    const { trackLtConnectivity } = await import('../src/runtime/lib/connectivity');
+    await trackLtConnectivity(Promise.resolve(okResponse()));
+
+    await vi.waitFor(() => expect(needsSetup.value).toBe(true));
+    expect(status).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the cached user without asking the backend while offline', async () => {
+    setStubRuntimeConfig({ public: { ltExtensions: { auth: { jwtRefresh: { enabled: false }, sync: { enabled: false } } } } });
+    vi.stubGlobal('$fetch', vi.fn(async () => ({})));
+    const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+    const auth = useLtAuth();
+    auth.setUser(JANE);
+
+    await goOffline();
+
+    await expect(auth.validateSession()).resolves.toBe(true);
+    expect(auth.user.value).toMatchObject(JANE);
+  });
+});
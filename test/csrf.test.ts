@@ -0,0 +1,115 @@
+/**
+ * CSRF token (double submit) of `ltAuthFetch`, `fetchWithAuth` and `ltAiRequest`.
+ *
+ *  - mutating requests carry the token from the cookie; GET and a header set by the caller stay untouched
+ *  - with `auth.csrf.endpoint` the token is fetched once and shared
+ *  - a 403 with a CSRF error code refreshes the token and sends the request once more
+ *  - disabled CSRF sends nothing
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, status });
+}
+
+function sentToken(call: number): null | string {
+  return (fetchMock.mock.calls[call]![1].headers as Headers).get('X-CSRF-Token');
+}
+
+function enableCsrf(csrf: Record<string, unknown> = {}): void {
+  setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { csrf: { enabled: true, ...csrf } } } } });
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  fetchMock.mockReset().mockImplementation(async () => jsonResponse({}));
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(async () => {
+  const { resetLtCsrfState } = await import('../src/runtime/lib/auth-state');
+  resetLtCsrfState();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+});
+
+describe('CSRF token', () => {
+  it('sends the cookie token on mutating requests only', async () => {
+    enableCsrf();
+    document.cookie = 'csrf-token=abc%3D; path=/';
+    const { ltAuthFetch } = await import('../src/runtime/lib/auth-state');
+    const { ltAiRequest } = await import('../src/runtime/lib/ai');
+
+    await ltAuthFetch('https://api.example.com/projects', { method: 'POST' });
+    await ltAuthFetch('https://api.example.com/projects');
+    await ltAuthFetch('https://api.example.com/projects', { headers: { 'X-CSRF-Token': 'own' }, method: 'DELETE' });
+    await ltAiRequest('POST', '/prompt', { text: 'Hi' });
+
+    expect(sentToken(0)).toBe('abc=');
+    expect(sentToken(1)).toBeNull();
+    expect(sentToken(2)).toBe('own');
+    expect(sentToken(3)).toBe('abc=');
+  });
+
+  it('fetches the token from the endpoint once and refreshes it on a CSRF error', async () => {
+    enableCsrf({ endpoint: '/csrf-token' });
+    const tokens = ['t1', 't2'];
+    let rejectNext = false;
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url.endsWith('/csrf-token')) {
+        return jsonResponse({ csrfToken: tokens.shift() });
+      }
+      if (rejectNext) {
+        rejectNext = false;
+        return jsonResponse({ code: 'EBADCSRFTOKEN', message: 'invalid csrf token' }, 403);
+      }
+      return jsonResponse({ token: (init.headers as Headers).get('X-CSRF-Token') });
+    });
+    const { ltAuthFetch } = await import('../src/runtime/lib/auth-state');
+
+    await Promise.all([ltAuthFetch('https://api.example.com/a', { method: 'POST' }), ltAuthFetch('https://api.example.com/b', { method: 'PUT' })]);
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/csrf-token'))).toHaveLength(1);
+    expect(fetchMock.mock.calls[0]![1]).toMatchObject({ credentials: 'include', method: 'GET' });
+
+    rejectNext = true;
+    const response = await ltAuthFetch('https://api.example.com/c', { method: 'PATCH' });
+
+    await expect(response.json()).resolves.toEqual({ token: 't2' });
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/csrf-token'))).toHaveLength(2);
+  });
+
+  it('is sent by fetchWithAuth and not at all while disabled', async () => {
+    setStubRuntimeConfig({ public: { ltExtensions: { auth: { jwtRefresh: { enabled: false }, sync: { enabled: false } } } } });
+    document.cookie = 'xsrf=abc; path=/';
+    const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+    const { fetchWithAuth } = useLtAuth();
+    fetchMock.mockClear();
+
+    await fetchWithAuth('https://api.example.com/projects', { method: 'POST' });
+    expect(sentToken(0)).toBeNull();
+
+    enableCsrf({ cookieName: 'xsrf', header: 'X-XSRF-Token' });
+    await fetchWithAuth('https://api.example.com/projects', { method: 'POST' });
+    expect((fetchMock.mock.calls[1]![1].headers as Headers).get('X-XSRF-Token')).toBe('abc');
+  });
+});
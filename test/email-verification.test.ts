@@ -0,0 +1,153 @@
+/**
+ * Email verification (`useLtEmailVerification` + `lt-email-verification` middleware).
+ *
+ *  - the link callback verifies `?token=` and reports `?error=`
+ *  - resend starts the configured cooldown, or the server's `Retry-After` on 429
+ *  - `checkStatus` / polling pick up `emailVerified` from the session
+ *  - the middleware sends unverified users to the verify page
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computed, ref } from 'vue';
+
+import type { LtAuthPageMeta, LtUser } from '../src/runtime/types';
+
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const fetchWithAuth = vi.fn();
+const user = ref<LtUser | null>(null);
+const setUser = vi.fn((next: LtUser) => {
+  user.value = next;
+});
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({
+    authMode: computed(() => 'cookie'),
+    fetchWithAuth,
+    isAuthenticated: computed(() => !!user.value),
+    setUser,
+    user,
+  }),
+}));
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return { headers: new Headers(headers), json: async () => body, ok: status < 400, status } as Response;
+}
+
+async function useEmailVerification() {
+  const { useLtEmailVerification } = await import('../src/runtime/composables/auth/use-lt-email-verification');
+  return useLtEmailVerification();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  setStubRuntimeConfig({
+    public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam', emailVerification: { resendCooldownSeconds: 30, verifyPath: '/auth/verify' } } } },
+  });
+  user.value = { email: 'jane@example.com', emailVerified: false, id: 'u1' };
+  fetchWithAuth.mockReset();
+  setUser.mockClear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  resetStubReactiveStores();
+  resetStubRuntimeConfig();
+});
+
+describe('callback', () => {
+  it('verifies the token from the link and marks the cached user verified', async () => {
+    fetchWithAuth.mockResolvedValue(jsonResponse({ status: true }));
+    const { handleCallback, isVerified } = await useEmailVerification();
+
+    await expect(handleCallback({ token: 'a b' })).resolves.toBe(true);
+
+    expect(fetchWithAuth).toHaveBeenCalledWith('https://api.example.com/iam/verify-email?token=a%20b', { method: 'GET' });
+    expect(isVerified.value).toBe(true);
+  });
+
+  it('reports an invalid or expired link', async () => {
+    const { error, handleCallback } = await useEmailVerification();
+
+    await expect(handleCallback({ error: 'TOKEN_EXPIRED' })).resolves.toBe(false);
+    expect(error.value).toBe('Der Bestätigungslink ist ungültig oder abgelaufen');
+    await expect(handleCallback({})).resolves.toBeNull();
+    expect(fetchWithAuth).not.toHaveBeenCalled();
+  });
+});
+
+describe('resend', () => {
+  it('sends the email with the verify page as callback and starts the cooldown', async () => {
+    fetchWithAuth.mockResolvedValue(jsonResponse({ status: true }));
+    const { canResend, cooldownSeconds, resend } = await useEmailVerification();
+
+    await expect(resend()).resolves.toBe(true);
+
+    expect(fetchWithAuth).toHaveBeenCalledWith(
+      'https://api.example.com/iam/send-verification-email',
+      expect.objectContaining({ body: JSON.stringify({ callbackURL: `${window.location.origin}/auth/verify`, email: 'jane@example.com' }), method: 'POST' }),
+    );
+    expect(cooldownSeconds.value).toBe(30);
+    await expect(resend()).resolves.toBe(false);
+
+    vi.advanceTimersByTime(30_000);
+    expect(cooldownSeconds.value).toBe(0);
+    expect(canResend.value).toBe(true);
+  });
+
+  it('honours the server Retry-After on 429 and shares the cooldown', async () => {
+    fetchWithAuth.mockResolvedValue(jsonResponse({ message: 'Too many requests' }, 429, { 'X-Retry-After': '120' }));
+    const { cooldownSeconds, error, resend } = await useEmailVerification();
+
+    await expect(resend()).resolves.toBe(false);
+
+    expect(cooldownSeconds.value).toBe(120);
+    expect(error.value).toBe('Zu viele Anfragen, bitte warte einen Moment');
+    expect((await useEmailVerification()).cooldownSeconds.value).toBe(120);
+  });
+});
+
+describe('status', () => {
+  it('polls the session until emailVerified flips, then stops', async () => {
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse({ user: { emailVerified: false, id: 'u1' } })).mockResolvedValue(jsonResponse({ user: { emailVerified: true, id: 'u1' } }));
+    const { isPolling, isVerified, startPolling } = await useEmailVerification();
+
+    startPolling(5);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(isVerified.value).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(fetchWithAuth).toHaveBeenLastCalledWith('https://api.example.com/iam/get-session', { method: 'GET' });
+    expect(isVerified.value).toBe(true);
+    expect(isPolling.value).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(fetchWithAuth).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('lt-email-verification middleware', () => {
+  function route(fullPath: string, ltAuth?: LtAuthPageMeta) {
+    return { fullPath, meta: { ltAuth }, path: fullPath.split('?')[0] };
+  }
+
+  async function runMiddleware(to: ReturnType<typeof route>): Promise<unknown> {
+    const middleware = (await import('../src/runtime/middleware/email-verification')).default as unknown as (to: unknown) => unknown;
+    return middleware(to);
+  }
+
+  it('sends unverified users to the verify page with the target as redirect query', async () => {
+    expect(await runMiddleware(route('/app?tab=2'))).toEqual({ navigateTo: { path: '/auth/verify', query: { redirect: '/app?tab=2' } }, options: undefined });
+  });
+
+  it('leaves verified, signed-out and exempt visits alone', async () => {
+    expect(await runMiddleware(route('/auth/verify'))).toBeUndefined();
+    expect(await runMiddleware(route('/settings', { allowUnverified: true }))).toBeUndefined();
+
+    user.value = { email: 'jane@example.com', emailVerified: true, id: 'u1' };
+    expect(await runMiddleware(route('/app'))).toBeUndefined();
+
+    user.value = null;
+    expect(await runMiddleware(route('/app'))).toBeUndefined();
+  });
+});
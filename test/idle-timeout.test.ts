@@ -0,0 +1,183 @@
+/**
+ * Inactivity sign-out (`useLtIdleTimeout`).
+ *
+ *  - the countdown runs from the last activity; the warning phase is exposed
+ *  - passive activity restarts the timer, but not during the warning
+ *  - activity in another tab (storage event) restarts it here
+ *  - extend() revalidates; expiry signs out and redirects with reason=idle
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { computed, ref, resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const authenticated = ref(true);
+const clearUser = vi.fn(() => {
+  authenticated.value = false;
+});
+const signOut = vi.fn(async (_options?: unknown, _reason?: string) => {
+  clearUser();
+});
+const validateSession = vi.fn(async () => true);
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({
+    clearUser,
+    isAuthenticated: computed(() => authenticated.value),
+    signOut,
+    validateSession,
+  }),
+}));
+
+const STORAGE_KEY = 'lt-auth-state:idle';
+
+let href: string;
+
+async function useIdle() {
+  const { useLtIdleTimeout } = await import('../src/runtime/composables/auth/use-lt-idle-timeout');
+  return useLtIdleTimeout();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') });
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { idle: { enabled: true, timeoutMinutes: 5, warningSeconds: 30 }, loginPath: '/auth/login' } } } });
+  localStorage.clear();
+  authenticated.value = true;
+  clearUser.mockClear();
+  signOut.mockClear();
+  validateSession.mockReset();
+  validateSession.mockResolvedValue(true);
+  href = '';
+  vi.stubGlobal('location', {
+    hash: '',
+    get href() {
+      return href;
+    },
+    set href(value: string) {
+      href = value;
+    },
+    pathname: '/app/board',
+    search: '?tab=2',
+  });
+});
+
+afterEach(async () => {
+  const { resetLtIdleTimeoutState } = await import('../src/runtime/composables/auth/use-lt-idle-timeout');
+  resetLtIdleTimeoutState();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('countdown', () => {
+  it('counts down from the last activity and warns in the final seconds', async () => {
+    const idle = await useIdle();
+    expect(idle.remainingSeconds.value).toBe(300);
+
+    await vi.advanceTimersByTimeAsync(269_000);
+    expect(idle.remainingSeconds.value).toBe(31);
+    expect(idle.isWarning.value).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(idle.isWarning.value).toBe(true);
+  });
+
+  it('restarts on activity, but ignores passive activity during the warning', async () => {
+    const idle = await useIdle();
+
+    await vi.advanceTimersByTimeAsync(120_000);
+    window.dispatchEvent(new Event('keydown'));
+    expect(idle.remainingSeconds.value).toBe(300);
+    expect(localStorage.getItem(STORAGE_KEY)).toBe(String(Date.now()));
+
+    await vi.advanceTimersByTimeAsync(280_000);
+    window.dispatchEvent(new Event('mousemove'));
+    expect(idle.isWarning.value).toBe(true);
+    expect(idle.remainingSeconds.value).toBe(20);
+  });
+
+  it('follows the activity of other tabs', async () => {
+    const idle = await useIdle();
+    await vi.advanceTimersByTimeAsync(200_000);
+
+    window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY, newValue: String(Date.now() - 10_000) }));
+
+    expect(idle.remainingSeconds.value).toBe(290);
+  });
+
+  it('continues the shared clock after a reload', async () => {
+    localStorage.setItem(STORAGE_KEY, String(Date.now() - 240_000));
+
+    const idle = await useIdle();
+
+    expect(idle.remainingSeconds.value).toBe(60);
+  });
+});
+
+describe('extend and expiry', () => {
+  it('extend() revalidates the session and restarts the timer', async () => {
+    const idle = await useIdle();
+    await vi.advanceTimersByTimeAsync(285_000);
+    expect(idle.isWarning.value).toBe(true);
+
+    await expect(idle.extend()).resolves.toBe(true);
+
+    expect(validateSession).toHaveBeenCalledTimes(1);
+    expect(idle.isWarning.value).toBe(false);
+    expect(idle.remainingSeconds.value).toBe(300);
+  });
+
+  it('signs out and redirects with reason=idle once the time is up', async () => {
+    await useIdle();
+
+    await vi.advanceTimersByTimeAsync(301_000);
+
+    expect(signOut).toHaveBeenCalledTimes(1);
+    expect(signOut).toHaveBeenCalledWith(undefined, 'idle');
+    expect(href).toBe('/auth/login?reason=idle&redirect=%2Fapp%2Fboard%3Ftab%3D2');
+  });
+
+  it('falls back to clearUser when the sign-out request fails', async () => {
+    signOut.mockRejectedValueOnce(new Error('offline'));
+    const idle = await useIdle();
+
+    await idle.expire();
+
+    expect(clearUser).toHaveBeenCalledTimes(1);
+    expect(href).toContain('reason=idle');
+  });
+
+  it('extend() expires a session that is already gone', async () => {
+    validateSession.mockResolvedValue(false);
+    const idle = await useIdle();
+
+    await expect(idle.extend()).resolves.toBe(false);
+
+    expect(signOut).toHaveBeenCalledTimes(1);
+  });
+
+  it('never expires signed-out visitors and starts fresh on login', async () => {
+    authenticated.value = false;
+    const idle = await useIdle();
+
+    await vi.advanceTimersByTimeAsync(600_000);
+    expect(signOut).not.toHaveBeenCalled();
+
+    authenticated.value = true;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(idle.remainingSeconds.value).toBe(300);
+  });
+
+  it('does not track when disabled', async () => {
+    setStubRuntimeConfig({ public: { ltExtensions: { auth: { idle: { enabled: false } } } } });
+    const idle = await useIdle();
+
+    await vi.advanceTimersByTimeAsync(3_600_000);
+
+    expect(idle.isEnabled.value).toBe(false);
+    expect(signOut).not.toHaveBeenCalled();
+  });
+});
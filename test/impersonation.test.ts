@@ -0,0 +1,206 @@
+/**
+ * Admin impersonation (`useLtAuth().impersonate` / `stopImpersonating`).
+ *
+ *  - impersonating swaps the cached user; `lt-auth-state` only marks it (admin id and mode)
+ *  - the admin's user and JWT stay in memory, never in a cookie, and are never used for the impersonated user
+ *  - re-validating the impersonated user keeps the impersonation
+ *  - stopping restores the admin via the server, or via the stored JWT (JWT mode)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { LtAuthState } from '../src/runtime/types';
+import { clearAllCookies, readCookieValue } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const impersonateUser = vi.fn();
+const stopImpersonatingRequest = vi.fn();
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    admin: { impersonateUser, stopImpersonating: stopImpersonatingRequest },
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const ADMIN = { email: 'admin@example.com', id: 'admin-1', name: 'Admin', roles: ['admin'] };
+const CUSTOMER = { email: 'c@example.com', id: 'user-2', name: 'Customer', roles: [] };
+
+const fetchMock = vi.fn();
+
+function storedState(): LtAuthState | null {
+  const raw = readCookieValue('lt-auth-state');
+  return raw ? (JSON.parse(decodeURIComponent(raw)) as LtAuthState) : null;
+}
+
+/** GET /token answers with `token`, or fails (no usable cookies) */
+function tokenEndpoint(token: null | string): void {
+  fetchMock.mockImplementation(async () => (token ? ({ ok: true, json: async () => ({ token }) } as Response) : ({ ok: false } as Response)));
+}
+
+async function useAuth() {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  return useLtAuth();
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { sync: { enabled: false } } } } });
+  impersonateUser.mockReset();
+  stopImpersonatingRequest.mockReset();
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(async () => {
+  const { resetLtJwtRefreshState } = await import('../src/runtime/lib/auth-state');
+  resetLtJwtRefreshState();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('impersonate', () => {
+  it('acts as the user and only marks the impersonation in lt-auth-state', async () => {
+    const auth = await useAuth();
+    auth.setUser(ADMIN, 'cookie');
+    impersonateUser.mockResolvedValue({ data: { session: { token: 'imp-session' }, user: CUSTOMER } });
+    tokenEndpoint('customer-jwt');
+
+    await expect(auth.impersonate('user-2')).resolves.toBe(true);
+
+    expect(impersonateUser).toHaveBeenCalledWith({ userId: 'user-2' });
+    expect(auth.user.value?.id).toBe('user-2');
+    expect(auth.isImpersonating.value).toBe(true);
+    expect(auth.impersonatedBy.value?.id).toBe('admin-1');
+    expect(auth.isAdmin.value).toBe(false);
+    expect(auth.jwtToken.value).toBe('customer-jwt');
+    expect(storedState()?.impersonation).toEqual({ adminAuthMode: 'cookie', adminId: 'admin-1' });
+  });
+
+  it('falls back to the session token and never keeps the admin JWT (JWT mode)', async () => {
+    const auth = await useAuth();
+    auth.setUser(ADMIN, 'jwt');
+    auth.jwtToken.value = 'admin-jwt';
+    impersonateUser.mockResolvedValue({ data: { session: { token: 'imp-session' }, user: CUSTOMER } });
+    tokenEndpoint(null);
+
+    await auth.impersonate('user-2');
+
+    expect(auth.jwtToken.value).toBe('imp-session');
+    expect(auth.authMode.value).toBe('jwt');
+    expect(auth.impersonatedBy.value?.id).toBe('admin-1');
+    expect(storedState()?.impersonation).toEqual({ adminAuthMode: 'jwt', adminId: 'admin-1' });
+    expect(document.cookie).not.toContain('admin-jwt');
+  });
+
+  it('refuses when the backend refuses, when signed out, or when already impersonating', async () => {
+    const auth = await useAuth();
+    await expect(auth.impersonate('user-2')).resolves.toBe(false);
+
+    auth.setUser(ADMIN, 'cookie');
+    impersonateUser.mockResolvedValueOnce({ data: null, error: { message: 'forbidden', status: 403 } });
+    await expect(auth.impersonate('user-2')).resolves.toBe(false);
+    expect(auth.user.value?.id).toBe('admin-1');
+
+    impersonateUser.mockResolvedValue({ data: { session: {}, user: CUSTOMER } });
+    tokenEndpoint(null);
+    await auth.impersonate('user-2');
+    await expect(auth.impersonate('user-3')).resolves.toBe(false);
+    expect(impersonateUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('survives a re-validation of the impersonated user, not a different login', async () => {
+    const auth = await useAuth();
+    auth.setUser(ADMIN, 'cookie');
+    impersonateUser.mockResolvedValue({ data: { session: {}, user: CUSTOMER } });
+    tokenEndpoint(null);
+    await auth.impersonate('user-2');
+
+    auth.setUser({ ...CUSTOMER, name: 'Customer Renamed' }, 'cookie');
+    expect(auth.isImpersonating.value).toBe(true);
+
+    auth.setUser({ email: 'x@example.com', id: 'user-9' }, 'cookie');
+    expect(auth.isImpersonating.value).toBe(false);
+  });
+});
+
+describe('stopImpersonating', () => {
+  async function impersonating(adminMode: 'cookie' | 'jwt') {
+    const auth = await useAuth();
+    auth.setUser({ ...ADMIN, image: 'cached-only.png' }, adminMode);
+    if (adminMode === 'jwt') {
+      auth.jwtToken.value = 'admin-jwt';
+    }
+    impersonateUser.mockResolvedValue({ data: { session: { token: 'imp-session' }, user: CUSTOMER } });
+    tokenEndpoint(null);
+    await auth.impersonate('user-2');
+    return auth;
+  }
+
+  it('restores the admin session from the server and merges the cached admin user', async () => {
+    const auth = await impersonating('cookie');
+    stopImpersonatingRequest.mockResolvedValue({ data: { session: {}, user: { email: ADMIN.email, id: ADMIN.id, roles: ['admin'] } } });
+    tokenEndpoint('admin-jwt-2');
+
+    await expect(auth.stopImpersonating()).resolves.toBe(true);
+    await Promise.resolve();
+
+    expect(auth.user.value).toMatchObject({ id: 'admin-1', image: 'cached-only.png' });
+    expect(auth.isImpersonating.value).toBe(false);
+    expect(auth.isAdmin.value).toBe(true);
+    expect(storedState()?.impersonation).toBeUndefined();
+  });
+
+  it('restores the stored admin JWT when the server cannot (JWT mode)', async () => {
+    const auth = await impersonating('jwt');
+    stopImpersonatingRequest.mockResolvedValue({ data: null, error: { message: 'no admin session', status: 400 } });
+
+    await expect(auth.stopImpersonating()).resolves.toBe(true);
+
+    expect(auth.jwtToken.value).toBe('admin-jwt');
+    expect(auth.authMode.value).toBe('jwt');
+    expect(auth.user.value?.id).toBe('admin-1');
+  });
+
+  it('keeps the marker but not the admin token across a reload', async () => {
+    await impersonating('jwt');
+    // A reload starts with empty memory; only the cookies remain
+    resetStubReactiveStores();
+    const auth = await useAuth();
+    expect(auth.isImpersonating.value).toBe(true);
+    expect(auth.impersonatedBy.value).toBeNull();
+
+    stopImpersonatingRequest.mockResolvedValue({ data: null, error: { message: 'no admin session', status: 400 } });
+    await expect(auth.stopImpersonating()).resolves.toBe(false);
+
+    expect(auth.isAuthenticated.value).toBe(false);
+  });
+
+  it('signs out when the admin session cannot be restored at all', async () => {
+    const auth = await impersonating('cookie');
+    stopImpersonatingRequest.mockRejectedValue(new Error('offline'));
+
+    await expect(auth.stopImpersonating()).resolves.toBe(false);
+
+    expect(auth.isAuthenticated.value).toBe(false);
+  });
+
+  it('is a no-op without an active impersonation', async () => {
+    const auth = await useAuth();
+    auth.setUser(ADMIN, 'cookie');
+
+    await expect(auth.stopImpersonating()).resolves.toBe(false);
+
+    expect(stopImpersonatingRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * JWT expiry tracking and the silent refresh scheduler.
+ *
+ *  - `ltDecodeJwtClaims` / `useLtAuth().tokenClaims` / `tokenExpiresAt`
+ *  - the refresh fires `leewaySeconds` before `exp` (capped at half the lifetime)
+ *  - concurrent refreshes share one request
+ *  - hidden tabs pause, visible tabs catch up; logout cancels
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig, useCookie } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const fetchMock = vi.fn();
+let visibility: DocumentVisibilityState = 'visible';
+
+function base64Url(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/** Unsigned test JWT with `iat` = now and `exp` = now + `lifetimeSeconds`. */
+function makeJwt(lifetimeSeconds: number, extra: Record<string, unknown> = {}): string {
+  const iat = Math.floor(Date.now() / 1000);
+  return `${base64Url({ alg: 'none' })}.${base64Url({ exp: iat + lifetimeSeconds, iat, sub: 'u1', ...extra })}.sig`;
+}
+
+function storeTokenCookie(token: string): void {
+  document.cookie = `lt-jwt-token=${encodeURIComponent(JSON.stringify(token))}; path=/`;
+}
+
+function tokenResponse(token: string): Response {
+  return { ok: true, json: async () => ({ token }) } as unknown as Response;
+}
+
+async function authState() {
+  return import('../src/runtime/lib/auth-state');
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') });
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam' } } } });
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  visibility = 'visible';
+  Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => visibility });
+  (await authState()).resetLtJwtRefreshState();
+});
+
+afterEach(async () => {
+  const { resetLtAuthSyncState, resetLtJwtRefreshState } = await authState();
+  resetLtJwtRefreshState();
+  resetLtAuthSyncState();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('token claims', () => {
+  it('decodes the payload and rejects anything that is not a JWT', async () => {
+    const { ltDecodeJwtClaims } = await import('../src/runtime/utils/jwt');
+
+    expect(ltDecodeJwtClaims(makeJwt(300, { name: 'Jörg' }))).toMatchObject({ name: 'Jörg', sub: 'u1' });
+    for (const value of [null, undefined, '', 'opaque-session-token', 'a.b', `a.${base64Url([1, 2])}.c`, 'a.!!!.c']) {
+      expect(ltDecodeJwtClaims(value)).toBeNull();
+    }
+  });
+
+  it('exposes tokenClaims and tokenExpiresAt on useLtAuth', async () => {
+    const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+    const auth = useLtAuth();
+    expect(auth.tokenExpiresAt.value).toBeNull();
+
+    auth.jwtToken.value = makeJwt(900);
+
+    expect(auth.tokenClaims.value?.sub).toBe('u1');
+    expect(auth.tokenExpiresAt.value?.toISOString()).toBe('2026-01-01T12:15:00.000Z');
+  });
+});
+
+describe('silent refresh', () => {
+  it('refreshes leewaySeconds before exp and re-arms for the new token', async () => {
+    const { scheduleLtJwtRefresh } = await authState();
+    const issued: string[] = [];
+    storeTokenCookie(makeJwt(900));
+    fetchMock.mockImplementation(async () => {
+      issued.push(makeJwt(900));
+      return tokenResponse(issued.at(-1)!);
+    });
+
+    scheduleLtJwtRefresh();
+    await vi.advanceTimersByTimeAsync(839_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/iam/token', expect.objectContaining({ credentials: 'include', method: 'GET' }));
+    // The refreshed token is visible to useCookie refs in this tab and scheduled again
+    expect(useCookie('lt-jwt-token').value).toBe(issued[0]);
+
+    await vi.advanceTimersByTimeAsync(840_000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps the leeway at half the token lifetime', async () => {
+    const { scheduleLtJwtRefresh } = await authState();
+    storeTokenCookie(makeJwt(60));
+    fetchMock.mockResolvedValue({ ok: false } as Response);
+
+    scheduleLtJwtRefresh();
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('collapses concurrent refreshes into one request', async () => {
+    const { refreshLtJwtToken } = await authState();
+    fetchMock.mockImplementation(async () => tokenResponse(makeJwt(900)));
+
+    const results = await Promise.all([refreshLtJwtToken(), refreshLtJwtToken(), refreshLtJwtToken()]);
+
+    expect(results).toEqual([true, true, true]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('never schedules opaque tokens and stops on logout', async () => {
+    const { clearLtAuthCookies, scheduleLtJwtRefresh } = await authState();
+    fetchMock.mockImplementation(async () => tokenResponse(makeJwt(900)));
+
+    scheduleLtJwtRefresh('opaque-session-token');
+    scheduleLtJwtRefresh(makeJwt(120));
+    clearLtAuthCookies();
+    await vi.advanceTimersByTimeAsync(600_000);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('pauses while the tab is hidden and catches up once it is visible', async () => {
+    storeTokenCookie(makeJwt(120));
+    fetchMock.mockImplementation(async () => tokenResponse(makeJwt(900)));
+    const plugin = (await import('../src/runtime/plugins/jwt-refresh.client')).default;
+    plugin();
+
+    visibility = 'hidden';
+    document.dispatchEvent(new Event('visibilitychange'));
+    await vi.advanceTimersByTimeAsync(300_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    visibility = 'visible';
+    document.dispatchEvent(new Event('visibilitychange'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when disabled in the module options', async () => {
+    const { scheduleLtJwtRefresh } = await authState();
+    setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { jwtRefresh: { enabled: false } } } } });
+
+    scheduleLtJwtRefresh(makeJwt(60));
+    await vi.advanceTimersByTimeAsync(600_000);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
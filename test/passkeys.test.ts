@@ -0,0 +1,118 @@
+/**
+ * Passkey management (`useLtPasskeys`).
+ *
+ *  - list / rename / delete hit the Better-Auth passkey endpoints via fetchWithAuth
+ *  - failures surface the backend message or a translated fallback
+ *  - device labels come from the AAGUID, else synced / device-bound
+ *  - WebAuthn feature detection
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const fetchWithAuth = vi.fn();
+const registerPasskey = vi.fn();
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({ fetchWithAuth, registerPasskey }),
+}));
+
+const ICLOUD = 'fbfc3007-154e-4ecc-8c0b-6e020557d7bd';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return { json: async () => body, ok: status < 400, status } as Response;
+}
+
+async function usePasskeys() {
+  const { useLtPasskeys } = await import('../src/runtime/composables/auth/use-lt-passkeys');
+  return useLtPasskeys();
+}
+
+beforeEach(() => {
+  setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam' } } } });
+  fetchWithAuth.mockReset();
+  registerPasskey.mockReset();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  resetStubRuntimeConfig();
+});
+
+describe('management', () => {
+  it('loads, renames and deletes passkeys', async () => {
+    const { load, passkeys, remove, rename } = await usePasskeys();
+    fetchWithAuth.mockResolvedValueOnce(
+      jsonResponse([
+        { id: 'p1', name: 'Mac' },
+        { id: 'p2', name: null },
+      ]),
+    );
+
+    await load();
+    expect(fetchWithAuth).toHaveBeenCalledWith('https://api.example.com/iam/passkey/list-user-passkeys', { method: 'GET' });
+    expect(passkeys.value.map((passkey) => passkey.id)).toEqual(['p1', 'p2']);
+
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse({ passkey: { id: 'p2', name: 'Phone' } }));
+    await expect(rename('p2', 'Phone')).resolves.toBe(true);
+    expect(fetchWithAuth).toHaveBeenLastCalledWith('https://api.example.com/iam/passkey/update-passkey', expect.objectContaining({ body: '{"id":"p2","name":"Phone"}', method: 'POST' }));
+    expect(passkeys.value[1]?.name).toBe('Phone');
+
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse({ status: true }));
+    await expect(remove('p1')).resolves.toBe(true);
+    expect(passkeys.value.map((passkey) => passkey.id)).toEqual(['p2']);
+  });
+
+  it('reports the backend message, or a translated fallback', async () => {
+    const { error, load, remove } = await usePasskeys();
+
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse({ message: 'Passkey not found' }, 404));
+    await expect(remove('p9')).resolves.toBe(false);
+    expect(error.value).toBe('Passkey not found');
+
+    fetchWithAuth.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await load();
+    expect(error.value).toBe('Passkeys konnten nicht geladen werden');
+  });
+
+  it('reloads the list after adding a passkey', async () => {
+    const { add, passkeys } = await usePasskeys();
+    registerPasskey.mockResolvedValue({ success: true });
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse([{ id: 'p3' }]));
+
+    await add('Laptop');
+
+    expect(registerPasskey).toHaveBeenCalledWith('Laptop');
+    expect(passkeys.value).toEqual([{ id: 'p3' }]);
+  });
+});
+
+describe('device metadata', () => {
+  it('labels known AAGUIDs and falls back to synced / device-bound', async () => {
+    const { getDeviceLabel } = await usePasskeys();
+
+    expect(getDeviceLabel({ aaguid: ICLOUD.toUpperCase(), id: 'p1' })).toBe('iCloud Keychain');
+    expect(getDeviceLabel({ aaguid: '00000000-0000-0000-0000-000000000000', backedUp: true, id: 'p2' })).toBe('Synchronisierter Passkey');
+    expect(getDeviceLabel({ deviceType: 'singleDevice', id: 'p3' })).toBe('Gerätegebundener Passkey');
+  });
+
+  it('detects WebAuthn and a platform authenticator', async () => {
+    vi.stubGlobal('PublicKeyCredential', Object.assign(function PublicKeyCredential() {}, { isUserVerifyingPlatformAuthenticatorAvailable: async () => true }));
+
+    const { isPlatformAuthenticatorAvailable, isSupported } = await usePasskeys();
+    await Promise.resolve();
+
+    expect(isSupported.value).toBe(true);
+    expect(isPlatformAuthenticatorAvailable.value).toBe(true);
+  });
+
+  it('reports no support without WebAuthn', async () => {
+    vi.stubGlobal('PublicKeyCredential', undefined);
+
+    const { isPlatformAuthenticatorAvailable, isSupported } = await usePasskeys();
+
+    expect(isSupported.value).toBe(false);
+    expect(isPlatformAuthenticatorAvailable.value).toBe(false);
+  });
+});
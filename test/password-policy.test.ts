@@ -0,0 +1,127 @@
+/**
+ * Password policy (`useLtPasswordPolicy`) and reset flow (`useLtPasswordReset`).
+ *
+ *  - rules come from the `/features` flags, defaults to min length 8
+ *  - breached passwords fail, also with trailing digits / symbols
+ *  - localized rule messages and strength labels
+ *  - reset: request → callback token → policy check → hashed reset → optional sign-in
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { computed, ref } from 'vue';
+
+import { resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const features = ref<Record<string, boolean | number | string[]>>({});
+const signInEmail = vi.fn();
+const requestPasswordReset = vi.fn();
+const resetPassword = vi.fn();
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({ features: computed(() => features.value), signIn: { email: signInEmail } }),
+}));
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({ requestPasswordReset, resetPassword }),
+}));
+
+async function usePolicy() {
+  const { useLtPasswordPolicy } = await import('../src/runtime/composables/auth/use-lt-password-policy');
+  return useLtPasswordPolicy();
+}
+
+async function useReset() {
+  const { useLtPasswordReset } = await import('../src/runtime/composables/auth/use-lt-password-reset');
+  return useLtPasswordReset();
+}
+
+beforeEach(() => {
+  features.value = {};
+  resetStubRuntimeConfig();
+  signInEmail.mockReset().mockResolvedValue({});
+  requestPasswordReset.mockReset();
+  resetPassword.mockReset();
+});
+
+describe('useLtPasswordPolicy', () => {
+  it('only requires the default minimum length without backend rules', async () => {
+    const { evaluate, policy } = await usePolicy();
+
+    expect(policy.value).toEqual({ checkBreached: false, minLength: 8, requireDigit: false, requireLowercase: false, requireSpecialChar: false, requireUppercase: false });
+    expect(evaluate('short').messages).toEqual(['Mindestens 8 Zeichen']);
+    expect(evaluate('longenough').valid).toBe(true);
+  });
+
+  it('applies the rules from /features', async () => {
+    features.value = { passwordCheckBreached: true, passwordMinLength: 10, passwordRequireDigit: true, passwordRequireSpecialChar: true, passwordRequireUppercase: true };
+    const { evaluate, validate } = await usePolicy();
+
+    const check = evaluate('abcdefghij');
+    expect(check.valid).toBe(false);
+    expect(check.rules.map((rule) => rule.id)).toEqual(['minLength', 'uppercase', 'digit', 'specialChar', 'breached']);
+    expect(check.messages).toEqual(['Mindestens ein Großbuchstabe', 'Mindestens eine Ziffer', 'Mindestens ein Sonderzeichen']);
+    expect(validate('Ab1!')).toBe('Mindestens 10 Zeichen');
+    expect(validate('Äpfel-Birne 42')).toBe(true);
+  });
+
+  it('rejects breached passwords, also with a decorated ending', async () => {
+    features.value = { passwordCheckBreached: true };
+    const { evaluate } = await usePolicy();
+
+    const check = evaluate('Password123!');
+    expect(check.valid).toBe(false);
+    expect(check.messages).toEqual(['Dieses Passwort ist zu bekannt']);
+    expect(check.score).toBe(0);
+  });
+
+  it('rates strength from length and character variety', async () => {
+    const { evaluate } = await usePolicy();
+
+    expect(evaluate('abcdefgh')).toMatchObject({ score: 1, strength: 'weak', strengthLabel: 'Schwach' });
+    expect(evaluate('abcdefghijkl')).toMatchObject({ strength: 'fair', strengthLabel: 'Mittel' });
+    expect(evaluate('Abcdefghij1!')).toMatchObject({ score: 4, strength: 'strong', strengthLabel: 'Stark' });
+  });
+});
+
+describe('useLtPasswordReset', () => {
+  it('requests the email with the reset page as redirect', async () => {
+    setStubRuntimeConfig({ public: { ltExtensions: { auth: { resetPasswordPath: '/reset' } } } });
+    requestPasswordReset.mockResolvedValue({ data: { status: true } });
+    const { requestReset, step } = await useReset();
+
+    await expect(requestReset('jane@example.com')).resolves.toBe(true);
+
+    expect(requestPasswordReset).toHaveBeenCalledWith({ email: 'jane@example.com', redirectTo: `${window.location.origin}/reset` });
+    expect(step.value).toBe('sent');
+  });
+
+  it('resets with the token from the link and signs in', async () => {
+    resetPassword.mockResolvedValue({ data: { status: true } });
+    const { handleCallback, resetPassword: reset, step } = await useReset();
+
+    expect(handleCallback({ token: 'tok' })).toBe(true);
+    expect(step.value).toBe('reset');
+    await expect(reset('new-secret-42', { email: 'jane@example.com' })).resolves.toBe(true);
+
+    expect(resetPassword).toHaveBeenCalledWith({ newPassword: 'new-secret-42', token: 'tok' });
+    expect(signInEmail).toHaveBeenCalledWith({ email: 'jane@example.com', password: 'new-secret-42' });
+    expect(step.value).toBe('done');
+  });
+
+  it('checks the policy before sending and reports invalid links', async () => {
+    resetPassword.mockResolvedValue({ data: null, error: { code: 'INVALID_TOKEN', message: 'invalid token' } });
+    const { error, handleCallback, resetPassword: reset } = await useReset();
+
+    expect(handleCallback({ error: 'INVALID_TOKEN' })).toBe(false);
+    expect(error.value).toBe('Der Link zum Zurücksetzen ist ungültig oder abgelaufen');
+
+    handleCallback({ token: 'tok' });
+    await expect(reset('short')).resolves.toBe(false);
+    expect(error.value).toBe('Mindestens 8 Zeichen');
+    expect(resetPassword).not.toHaveBeenCalled();
+
+    await expect(reset('long-enough')).resolves.toBe(false);
+    expect(error.value).toBe('Der Link zum Zurücksetzen ist ungültig oder abgelaufen');
+    expect(signInEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Passwordless sign-in (`signIn.magicLink`, `signIn.emailOtp`, `verifyEmailOtp`).
+ *
+ *  - the magic link points at the callback page (with the post-login target)
+ *  - `handleSignInCallback` verifies a magic link `?token=` and stores the user
+ *  - email OTP sign-in uses the same token/user extraction as `signIn.email`
+ *  - disabled plugins explain the module option
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies, readAuthStateUser } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const magicLinkSignIn = vi.fn();
+const magicLinkVerify = vi.fn();
+const emailOtpSignIn = vi.fn();
+const sendVerificationOtp = vi.fn();
+const verifyEmail = vi.fn();
+let pluginsEnabled = true;
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    emailOtp: pluginsEnabled ? { sendVerificationOtp, verifyEmail } : undefined,
+    getSession: async () => ({ data: null }),
+    magicLink: pluginsEnabled ? { verify: magicLinkVerify } : undefined,
+    passkey: {},
+    signIn: { email: async () => ({}), emailOtp: pluginsEnabled ? emailOtpSignIn : undefined, magicLink: pluginsEnabled ? magicLinkSignIn : undefined },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: pluginsEnabled ? {} : undefined,
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const JANE = { email: 'jane@example.com', id: 'u1' };
+
+async function useAuth() {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  return useLtAuth();
+}
+
+beforeEach(() => {
+  pluginsEnabled = true;
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { callbackPath: '/auth/callback', sync: { enabled: false } } } } });
+  for (const fn of [magicLinkSignIn, magicLinkVerify, emailOtpSignIn, sendVerificationOtp, verifyEmail]) {
+    fn.mockReset();
+  }
+  vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false }) as Response));
+});
+
+afterEach(async () => {
+  const { resetLtJwtRefreshState } = await import('../src/runtime/lib/auth-state');
+  resetLtJwtRefreshState();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('magic link', () => {
+  it('sends a link that opens the callback page', async () => {
+    magicLinkSignIn.mockResolvedValue({ data: { status: true } });
+    const { signIn } = await useAuth();
+
+    await signIn.magicLink({ email: 'jane@example.com', redirect: '/app' });
+
+    const callbackURL = `${window.location.origin}/auth/callback?redirect=%2Fapp`;
+    expect(magicLinkSignIn).toHaveBeenCalledWith({ callbackURL, email: 'jane@example.com', errorCallbackURL: callbackURL, name: undefined, newUserCallbackURL: callbackURL });
+  });
+
+  it('verifies a ?token= on the callback page and stores the user', async () => {
+    magicLinkVerify.mockResolvedValue({ data: { session: {}, token: 'jwt-1', user: JANE } });
+    const { handleSignInCallback, jwtToken } = await useAuth();
+
+    await expect(handleSignInCallback({ redirect: '/app', token: 'link-token' })).resolves.toEqual({ error: null, redirect: '/app', success: true, user: JANE });
+
+    expect(magicLinkVerify).toHaveBeenCalledWith({ query: { token: 'link-token' } });
+    expect(jwtToken.value).toBe('jwt-1');
+    expect(readAuthStateUser()).toMatchObject(JANE);
+  });
+
+  it('reports an expired link', async () => {
+    magicLinkVerify.mockResolvedValue({ data: null, error: { code: 'EXPIRED_TOKEN', message: 'expired' } });
+    const { handleSignInCallback } = await useAuth();
+
+    await expect(handleSignInCallback({ token: 'old' })).resolves.toMatchObject({ error: 'EXPIRED_TOKEN', success: false, user: null });
+    expect(readAuthStateUser()).toBeNull();
+  });
+});
+
+describe('email OTP', () => {
+  it('sends a code and signs in with it', async () => {
+    sendVerificationOtp.mockResolvedValue({ data: { success: true } });
+    emailOtpSignIn.mockResolvedValue({ data: { token: 'jwt-2', user: JANE } });
+    const { jwtToken, sendEmailOtp, signIn } = await useAuth();
+
+    await expect(sendEmailOtp('jane@example.com')).resolves.toBe(true);
+    expect(sendVerificationOtp).toHaveBeenCalledWith({ email: 'jane@example.com', type: 'sign-in' });
+
+    await signIn.emailOtp({ email: 'jane@example.com', otp: '123456' });
+    expect(jwtToken.value).toBe('jwt-2');
+    expect(readAuthStateUser()).toMatchObject(JANE);
+  });
+
+  it('marks the cached user verified after verifyEmailOtp', async () => {
+    verifyEmail.mockResolvedValue({ data: { status: true } });
+    const auth = await useAuth();
+    auth.setUser({ ...JANE, emailVerified: false });
+
+    await expect(auth.verifyEmailOtp({ email: 'jane@example.com', otp: '654321' })).resolves.toBe(true);
+
+    expect(readAuthStateUser()).toMatchObject({ emailVerified: true });
+  });
+
+  it('explains a disabled plugin', async () => {
+    pluginsEnabled = false;
+    const { sendEmailOtp, signIn, twoFactor } = await useAuth();
+
+    await expect(sendEmailOtp('jane@example.com')).rejects.toThrow('enableEmailOtp');
+    await expect(signIn.magicLink({ email: 'jane@example.com' })).rejects.toThrow('enableMagicLink');
+    await expect((twoFactor as { verifyTotp: (params: { code: string }) => Promise<unknown> }).verifyTotp({ code: '123456' })).rejects.toThrow('enableTwoFactor');
+  });
+});
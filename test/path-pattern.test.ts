@@ -0,0 +1,44 @@
+/**
+ * Path patterns (`ltMatchesPathPattern`) for the interceptor's public paths and ignored URLs.
+ *
+ *  - plain paths are prefixes (not limited to segment boundaries, like `publicPaths` always were)
+ *  - globs: `*` within a segment, `**` across segments, a trailing `/**` includes the path itself
+ *  - `^` patterns are regular expressions; invalid ones match nothing
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { ltMatchesPathPattern } from '../src/runtime/utils/path-pattern';
+
+describe('ltMatchesPathPattern', () => {
+  it('matches plain paths as prefixes', () => {
+    expect(ltMatchesPathPattern('/auth/login', ['/auth/login'])).toBe(true);
+    expect(ltMatchesPathPattern('/auth/login/2fa', ['/auth/login'])).toBe(true);
+    expect(ltMatchesPathPattern('/public-info', ['/public'])).toBe(true);
+    expect(ltMatchesPathPattern('/api/v1/files', ['/api/v1/file'])).toBe(true);
+    expect(ltMatchesPathPattern('/docs/intro', ['/docs/'])).toBe(true);
+    expect(ltMatchesPathPattern('/doc', ['/docs'])).toBe(false);
+  });
+
+  it('matches globs', () => {
+    expect(ltMatchesPathPattern('/shop', ['/shop/**'])).toBe(true);
+    expect(ltMatchesPathPattern('/shop/cart/items', ['/shop/**'])).toBe(true);
+    expect(ltMatchesPathPattern('/shopping', ['/shop/**'])).toBe(false);
+    expect(ltMatchesPathPattern('/users/42/avatar', ['/users/*/avatar'])).toBe(true);
+    expect(ltMatchesPathPattern('/users/42/x/avatar', ['/users/*/avatar'])).toBe(false);
+    expect(ltMatchesPathPattern('/a/b.c/d', ['/**/b.c/*'])).toBe(true);
+    expect(ltMatchesPathPattern('/a/bxc/d', ['/**/b.c/*'])).toBe(false);
+  });
+
+  it('matches regular expressions and ignores invalid ones', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(ltMatchesPathPattern('/p/42', ['^/p/\\d+$'])).toBe(true);
+    expect(ltMatchesPathPattern('/p/42/edit', ['^/p/\\d+$'])).toBe(false);
+    expect(ltMatchesPathPattern('/p/42', ['^/p/(', '/p'])).toBe(true);
+    expect(ltMatchesPathPattern('/q', ['^/p/('])).toBe(false);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+  });
+});
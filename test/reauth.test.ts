@@ -0,0 +1,197 @@
+/**
+ * Step-up re-authentication (`requireRecentAuth`, `registerLtReauthPrompt`).
+ *
+ *  - a session created within `maxAgeSeconds` passes without prompt
+ *  - an older one asks the prompt; a password signs in again (hashed, with credentials)
+ *  - a 2FA account is asked for the TOTP code as second step
+ *  - a passkey is only accepted for the signed-in account, without a new sign-in
+ *  - wrong credentials are reported to the prompt; cancelling or no prompt resolves `false`
+ */
+
+import type { LtReauthPromptContext } from '../src/runtime/types';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubNuxtHooks, resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig, useNuxtApp } from './stubs/imports';
+
+const verifyTotp = vi.fn();
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: { verifyTotp },
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const JANE = { email: 'jane@example.com', id: 'u1', name: 'Jane' };
+const SECRET_SHA256 = '2bb80d537b1da3e38bd30361aa855686bde0eacd7162fef6a25fe97bf527a25b';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return { json: async () => body, ok: status < 400, status } as Response;
+}
+
+/** Backend with a session created `sessionAgeSeconds` ago and the given sign-in answers */
+function mockBackend(sessionAgeSeconds: number, ...signInAnswers: Response[]) {
+  const fetch = vi.fn(async (url: string) => {
+    if (url.endsWith('/get-session')) {
+      return jsonResponse({ session: { createdAt: new Date(Date.now() - sessionAgeSeconds * 1000).toISOString(), id: 's1' }, user: JANE });
+    }
+    if (url.endsWith('/sign-in/email')) {
+      return signInAnswers.shift() ?? jsonResponse({ message: 'Invalid email or password' }, 401);
+    }
+    return jsonResponse({});
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+/** Browser passkey, verified by the backend as `passkeyUsers` in turn (session created an hour ago) */
+function mockPasskey(...passkeyUsers: object[]) {
+  const credential = {
+    getClientExtensionResults: () => ({}),
+    id: 'cred-1',
+    rawId: new ArrayBuffer(8),
+    response: { authenticatorData: new ArrayBuffer(8), clientDataJSON: new ArrayBuffer(8), signature: new ArrayBuffer(8), userHandle: null },
+    type: 'public-key',
+  };
+  vi.stubGlobal('navigator', { credentials: { get: vi.fn(async () => credential) } });
+  vi.stubGlobal('PublicKeyCredential', function PublicKeyCredential() {});
+  const fetch = vi.fn(async (url: string) => {
+    if (url.endsWith('/get-session')) {
+      return jsonResponse({ session: { createdAt: new Date(Date.now() - 3600 * 1000).toISOString(), id: 's1' }, user: JANE });
+    }
+    if (url.endsWith('/passkey/generate-authenticate-options')) {
+      return jsonResponse({ challenge: 'AAAA', challengeId: 'ch-1', rpId: 'localhost' });
+    }
+    if (url.endsWith('/passkey/verify-authentication')) {
+      return jsonResponse({ session: { token: 'tok-1' }, user: passkeyUsers.shift() });
+    }
+    return jsonResponse({}, 404);
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+async function setup() {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  const auth = useLtAuth();
+  auth.setUser(JANE);
+  return auth;
+}
+
+async function registerPrompt(...answers: unknown[]) {
+  const prompt = vi.fn(async (_context: LtReauthPromptContext) => answers.shift() ?? null);
+  const { registerLtReauthPrompt } = await import('../src/runtime/lib/reauth');
+  registerLtReauthPrompt(prompt as never);
+  return prompt;
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({
+    public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam', jwtRefresh: { enabled: false }, sync: { enabled: false } } } },
+  });
+  verifyTotp.mockReset();
+  vi.stubGlobal('$fetch', vi.fn(async () => ({})));
+});
+
+afterEach(async () => {
+  const { registerLtReauthPrompt } = await import('../src/runtime/lib/reauth');
+  registerLtReauthPrompt(async () => null)();
+  resetStubNuxtHooks();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+});
+
+describe('requireRecentAuth', () => {
+  it('passes a recent session without asking', async () => {
+    mockBackend(60);
+    const prompt = await registerPrompt();
+    const { requireRecentAuth } = await setup();
+
+    await expect(requireRecentAuth(300)).resolves.toBe(true);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('signs in again with the password of an older session', async () => {
+    const fetch = mockBackend(3600, jsonResponse({ user: JANE }));
+    const prompt = await registerPrompt({ method: 'password', password: 'secret' });
+    const { requireRecentAuth } = await setup();
+
+    await expect(requireRecentAuth(300, { reason: 'Delete account' })).resolves.toBe(true);
+
+    expect(prompt).toHaveBeenCalledWith({ error: null, methods: ['password'], reason: 'Delete account', user: expect.objectContaining({ id: 'u1' }) });
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.example.com/iam/sign-in/email',
+      expect.objectContaining({ body: JSON.stringify({ email: JANE.email, password: SECRET_SHA256 }), credentials: 'include', method: 'POST' }),
+    );
+
+    // The confirmation counts for the next check
+    await expect(requireRecentAuth(300)).resolves.toBe(true);
+    expect(prompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks a 2FA account for the TOTP code after the password', async () => {
+    mockBackend(3600, jsonResponse({ twoFactorRedirect: true }));
+    verifyTotp.mockResolvedValue({ data: { user: { ...JANE, twoFactorEnabled: true } } });
+    const prompt = await registerPrompt({ method: 'password', password: 'secret' }, { code: '123456', method: 'totp' });
+    const auth = await setup();
+    auth.setUser({ ...JANE, twoFactorEnabled: true });
+
+    await expect(auth.requireRecentAuth()).resolves.toBe(true);
+
+    expect(prompt.mock.calls.map(([context]) => context.methods)).toEqual([['password', 'totp'], ['totp']]);
+    expect(verifyTotp).toHaveBeenCalledWith({ code: '123456' }, undefined);
+  });
+
+  it('reports failed attempts and resolves false on cancel or without prompt', async () => {
+    mockBackend(3600);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { requireRecentAuth } = await setup();
+
+    const { registerLtReauthPrompt } = await import('../src/runtime/lib/reauth');
+    registerLtReauthPrompt(async () => null)();
+    await expect(requireRecentAuth()).resolves.toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('registerLtReauthPrompt'));
+
+    const prompt = await registerPrompt({ method: 'password', password: 'wrong' });
+    await expect(requireRecentAuth()).resolves.toBe(false);
+    expect(prompt).toHaveBeenCalledTimes(2);
+    expect(prompt).toHaveBeenLastCalledWith(expect.objectContaining({ error: 'Invalid email or password' }));
+
+    const limited = await registerPrompt(...Array.from({ length: 5 }, () => ({ method: 'password', password: 'wrong' })));
+    await expect(requireRecentAuth(300, { maxAttempts: 2 })).resolves.toBe(false);
+    expect(limited).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts a passkey of the signed-in account only, without a new sign-in', async () => {
+    setStubRuntimeConfig({
+      public: {
+        apiUrl: 'https://api.example.com',
+        ltExtensions: { auth: { basePath: '/iam', enablePasskey: true, jwtRefresh: { enabled: false }, sync: { enabled: false } } },
+      },
+    });
+    mockPasskey({ email: 'john@example.com', id: 'u2', name: 'John' }, JANE);
+    const prompt = await registerPrompt({ method: 'passkey' }, { method: 'passkey' });
+    const { requireRecentAuth, user } = await setup();
+    const logins: unknown[] = [];
+    (useNuxtApp().hook as (name: string, handler: (payload: unknown) => void) => void)('lt:auth:login', (payload) => logins.push(payload));
+
+    await expect(requireRecentAuth()).resolves.toBe(true);
+
+    // The passkey of another account is refused before it touches the session
+    expect(prompt).toHaveBeenNthCalledWith(1, expect.objectContaining({ error: null, methods: ['password', 'passkey'] }));
+    expect(prompt).toHaveBeenNthCalledWith(2, expect.objectContaining({ error: 'Bitte mit dem angemeldeten Konto bestätigen' }));
+    expect(user.value).toEqual(JANE);
+    expect(logins).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * The server utils load inside Nitro, where `#imports` offers the server
+ * auto-imports only — no `useCookie`, `ref`, `useNuxtApp` & co. This file
+ * replaces the app stub with such a Nitro-shaped `#imports`, so a client-only
+ * import anywhere in the module graph of `server/utils/lt-auth.ts` fails here.
+ */
+
+import { H3Event } from 'h3';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('#imports', () => ({
+  useRuntimeConfig: () => ({
+    apiUrl: 'http://api-internal:3000',
+    public: { cookiePrefix: 'crm', ltExtensions: { auth: { basePath: '/iam' } } },
+  }),
+}));
+
+const fetchMock = vi.fn();
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('server auth utils without the app #imports', () => {
+  it('load and forward the JWT of the prefixed cookies', async () => {
+    fetchMock.mockResolvedValue({ json: async () => ({ user: { id: 'u1' } }), ok: true });
+    vi.stubGlobal('fetch', fetchMock);
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+    const state = encodeURIComponent(JSON.stringify({ authMode: 'jwt', user: { id: 'u1' } }));
+    const event = new H3Event({ headers: { cookie: `crm-auth-state=${state}; crm-jwt-token=jwt-1` }, method: 'GET', url: '/api/reports' } as never, {} as never);
+
+    await expect(getLtSession(event)).resolves.toMatchObject({ user: { id: 'u1' } });
+    expect(((fetchMock.mock.calls[0]![1] as RequestInit).headers as Headers).get('Authorization')).toBe('Bearer jwt-1');
+  });
+});
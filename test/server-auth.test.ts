@@ -0,0 +1,145 @@
+/**
+ * Server-side auth utilities (`getLtSession` / `requireLtUser` / `requireLtRole`).
+ *
+ * Pins the contract project Nitro routes rely on:
+ *  - the incoming credentials (Cookie header, Bearer header, or the JWT cookie in
+ *    JWT mode) are forwarded to the backend `get-session` endpoint
+ *  - one lookup per request, no matter how many helpers a handler calls
+ *  - 401 without a session, 403 without a matching role (both user shapes)
+ *  - an unreachable backend is a 503, never a false 401
+ */
+
+import { H3Event } from 'h3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const fetchMock = vi.fn();
+
+function makeEvent(headers: Record<string, string> = {}): H3Event {
+  return new H3Event({ headers, method: 'GET', url: '/api/reports' } as never, {} as never);
+}
+
+function sessionResponse(body: unknown, ok = true): Response {
+  return { ok, json: async () => body } as unknown as Response;
+}
+
+function forwardedHeaders(): Headers {
+  return (fetchMock.mock.calls[0]?.[1] as RequestInit).headers as Headers;
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  setStubRuntimeConfig({
+    apiUrl: 'http://api-internal:3000',
+    public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam' } } },
+  });
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  resetStubRuntimeConfig();
+});
+
+describe('getLtSession', () => {
+  it('forwards the Cookie header to the internal get-session endpoint', async () => {
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse({ session: { id: 's1' }, user: { id: 'u1', email: 'a@example.com' } }));
+
+    const session = await getLtSession(makeEvent({ cookie: 'iam.session_token=abc' }));
+
+    expect(fetchMock).toHaveBeenCalledWith('http://api-internal:3000/iam/get-session', expect.objectContaining({ method: 'GET' }));
+    expect(forwardedHeaders().get('Cookie')).toBe('iam.session_token=abc');
+    expect(forwardedHeaders().has('Authorization')).toBe(false);
+    expect(session?.user.id).toBe('u1');
+  });
+
+  it('forwards an incoming Bearer header verbatim', async () => {
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse({ session: { id: 's1' }, user: { id: 'u1', email: 'a@example.com' } }));
+
+    await getLtSession(makeEvent({ authorization: 'Bearer jwt-1' }));
+
+    expect(forwardedHeaders().get('Authorization')).toBe('Bearer jwt-1');
+  });
+
+  it('derives the Bearer header from the JWT cookie when the auth state is in JWT mode', async () => {
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse({ session: { id: 's1' }, user: { id: 'u1', email: 'a@example.com' } }));
+    const state = encodeURIComponent(JSON.stringify({ authMode: 'jwt', user: { id: 'u1' } }));
+    const token = encodeURIComponent(JSON.stringify('jwt-from-cookie'));
+
+    await getLtSession(makeEvent({ cookie: `lt-auth-state=${state}; lt-jwt-token=${token}` }));
+
+    expect(forwardedHeaders().get('Authorization')).toBe('Bearer jwt-from-cookie');
+  });
+
+  it('does not promote the JWT cookie in cookie mode', async () => {
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse(null));
+    const state = encodeURIComponent(JSON.stringify({ authMode: 'cookie', user: { id: 'u1' } }));
+
+    await getLtSession(makeEvent({ cookie: `lt-auth-state=${state}; lt-jwt-token=stale` }));
+
+    expect(forwardedHeaders().has('Authorization')).toBe(false);
+  });
+
+  it('skips the backend entirely when the request carries no credentials', async () => {
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+
+    expect(await getLtSession(makeEvent())).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('caches the lookup per request', async () => {
+    const { getLtSession, requireLtRole, requireLtUser } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse({ session: { id: 's1' }, user: { id: 'u1', email: 'a@example.com', roles: ['admin'] } }));
+    const event = makeEvent({ cookie: 'iam.session_token=abc' });
+
+    await Promise.all([getLtSession(event), requireLtUser(event), requireLtRole(event, 'admin')]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws a 503 instead of a false 401 when the backend is unreachable', async () => {
+    const { getLtSession } = await import('../src/runtime/server/utils/lt-auth');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(getLtSession(makeEvent({ cookie: 'iam.session_token=abc' }))).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
+
+describe('requireLtUser / requireLtRole', () => {
+  it('throws 401 when the backend reports no session', async () => {
+    const { requireLtUser } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse(null));
+
+    await expect(requireLtUser(makeEvent({ cookie: 'iam.session_token=dead' }))).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('throws 401 when the backend rejects the session', async () => {
+    const { requireLtRole } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse({ message: 'Unauthorized' }, false));
+
+    await expect(requireLtRole(makeEvent({ cookie: 'iam.session_token=dead' }), 'admin')).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('accepts the nest-server `roles` shape and the Better-Auth `role` shape', async () => {
+    const { requireLtRole } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValueOnce(sessionResponse({ session: { id: 's1' }, user: { id: 'u1', email: 'a@example.com', roles: ['editor'] } }));
+    fetchMock.mockResolvedValueOnce(sessionResponse({ session: { id: 's2' }, user: { id: 'u2', email: 'b@example.com', role: 'editor' } }));
+
+    await expect(requireLtRole(makeEvent({ cookie: 'a=1' }), 'admin', 'editor')).resolves.toMatchObject({ id: 'u1' });
+    await expect(requireLtRole(makeEvent({ cookie: 'a=2' }), 'editor')).resolves.toMatchObject({ id: 'u2' });
+  });
+
+  it('throws 403 when the user holds none of the roles (no substring fail-open)', async () => {
+    const { requireLtRole } = await import('../src/runtime/server/utils/lt-auth');
+    fetchMock.mockResolvedValue(sessionResponse({ session: { id: 's1' }, user: { id: 'u1', email: 'a@example.com', roles: 'superadmin' } }));
+
+    await expect(requireLtRole(makeEvent({ cookie: 'iam.session_token=abc' }), 'admin')).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Active session management (`useLtSessions`).
+ *
+ *  - `load` lists the sessions, flags the current one (via get-session) and parses the user agent
+ *  - `revoke` sends the session token; revoking the current session calls `clearUser`
+ *  - `revokeOthers` keeps the current session, `revokeAll` signs out locally
+ *  - failures surface the backend message or a translated fallback
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const clearUser = vi.fn();
+const fetchWithAuth = vi.fn();
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({ clearUser, fetchWithAuth }),
+}));
+
+const MAC_CHROME = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const IPHONE_SAFARI = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const ANDROID_TABLET_FIREFOX = 'Mozilla/5.0 (Android 14; Tablet; rv:127.0) Gecko/127.0 Firefox/127.0';
+
+const SESSIONS = [
+  { expiresAt: '2026-12-01T00:00:00.000Z', id: 's1', token: 't1', updatedAt: '2026-10-01T00:00:00.000Z', userAgent: IPHONE_SAFARI, userId: 'u1' },
+  { expiresAt: '2026-12-01T00:00:00.000Z', id: 's2', token: 't2', updatedAt: '2026-09-01T00:00:00.000Z', userAgent: MAC_CHROME, userId: 'u1' },
+  { expiresAt: '2026-12-01T00:00:00.000Z', id: 's3', token: 't3', updatedAt: '2026-10-10T00:00:00.000Z', userAgent: ANDROID_TABLET_FIREFOX, userId: 'u1' },
+];
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return { json: async () => body, ok: status < 400, status } as Response;
+}
+
+/** Answer list-sessions and get-session (current session `s2`), the rest with `{ status: true }` */
+function mockBackend(): void {
+  fetchWithAuth.mockImplementation(async (url: string) => {
+    if (url.endsWith('/list-sessions')) return jsonResponse(SESSIONS);
+    if (url.endsWith('/get-session')) return jsonResponse({ session: SESSIONS[1], user: { id: 'u1' } });
+    return jsonResponse({ status: true });
+  });
+}
+
+async function useSessions() {
+  const { useLtSessions } = await import('../src/runtime/composables/auth/use-lt-sessions');
+  return useLtSessions();
+}
+
+beforeEach(() => {
+  setStubRuntimeConfig({ public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { basePath: '/iam' } } } });
+  clearUser.mockReset();
+  fetchWithAuth.mockReset();
+  mockBackend();
+});
+
+afterEach(() => {
+  resetStubRuntimeConfig();
+});
+
+describe('load', () => {
+  it('lists the sessions with the current one first and parsed user agents', async () => {
+    const { currentSession, getDeviceLabel, load, sessions } = await useSessions();
+
+    await load();
+
+    expect(fetchWithAuth).toHaveBeenCalledWith('https://api.example.com/iam/list-sessions', { method: 'GET' });
+    expect(sessions.value.map((session) => session.id)).toEqual(['s2', 's3', 's1']);
+    expect(currentSession.value?.id).toBe('s2');
+    expect(sessions.value.map(({ browser, device, os }) => ({ browser, device, os }))).toEqual([
+      { browser: 'Chrome', device: 'desktop', os: 'macOS' },
+      { browser: 'Firefox', device: 'tablet', os: 'Android' },
+      { browser: 'Safari', device: 'mobile', os: 'iOS' },
+    ]);
+    expect(getDeviceLabel(sessions.value[0]!)).toBe('Chrome auf macOS');
+    expect(getDeviceLabel({ ...sessions.value[0]!, browser: null, os: null })).toBe('Unbekanntes Gerät');
+  });
+
+  it('reports the backend message, or a translated fallback', async () => {
+    const { error, load, sessions } = await useSessions();
+
+    fetchWithAuth.mockResolvedValue(jsonResponse({ message: 'Unauthorized' }, 401));
+    await load();
+    expect(error.value).toBe('Unauthorized');
+    expect(sessions.value).toEqual([]);
+
+    fetchWithAuth.mockRejectedValue(new TypeError('Failed to fetch'));
+    await load();
+    expect(error.value).toBe('Sitzungen konnten nicht geladen werden');
+  });
+});
+
+describe('revoke', () => {
+  it('revokes another session by its token and keeps the user signed in', async () => {
+    const { load, revoke, sessions } = await useSessions();
+    await load();
+
+    await expect(revoke('s1')).resolves.toBe(true);
+
+    expect(fetchWithAuth).toHaveBeenLastCalledWith('https://api.example.com/iam/revoke-session', expect.objectContaining({ body: '{"token":"t1"}', method: 'POST' }));
+    expect(sessions.value.map((session) => session.id)).toEqual(['s2', 's3']);
+    expect(clearUser).not.toHaveBeenCalled();
+  });
+
+  it('clears the user when the current session is revoked', async () => {
+    const { load, revoke } = await useSessions();
+    await load();
+
+    await expect(revoke('s2')).resolves.toBe(true);
+
+    expect(clearUser).toHaveBeenCalledWith('sign-out');
+  });
+
+  it('revokes the other sessions or all of them', async () => {
+    const { load, revokeAll, revokeOthers, sessions } = await useSessions();
+    await load();
+
+    await expect(revokeOthers()).resolves.toBe(true);
+    expect(fetchWithAuth).toHaveBeenLastCalledWith('https://api.example.com/iam/revoke-other-sessions', expect.objectContaining({ method: 'POST' }));
+    expect(sessions.value.map((session) => session.id)).toEqual(['s2']);
+    expect(clearUser).not.toHaveBeenCalled();
+
+    await expect(revokeAll()).resolves.toBe(true);
+    expect(fetchWithAuth).toHaveBeenLastCalledWith('https://api.example.com/iam/revoke-sessions', expect.objectContaining({ method: 'POST' }));
+    expect(sessions.value).toEqual([]);
+    expect(clearUser).toHaveBeenCalledWith('sign-out');
+  });
+
+  it('keeps the user when revoking fails', async () => {
+    const { error, load, revoke, revokeAll } = await useSessions();
+    await load();
+
+    await expect(revoke('s9')).resolves.toBe(false);
+    expect(error.value).toBe('Sitzung konnte nicht beendet werden');
+
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse({ message: 'Forbidden' }, 403));
+    await expect(revokeAll()).resolves.toBe(false);
+    expect(error.value).toBe('Forbidden');
+    expect(clearUser).not.toHaveBeenCalled();
+  });
+});
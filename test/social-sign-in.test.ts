@@ -0,0 +1,121 @@
+/**
+ * Social / OAuth sign-in (`useLtAuth().signIn.social` + `handleSignInCallback`).
+ *
+ *  - signIn.social sends the callback page (with the post-login target) to Better-Auth
+ *  - only configured providers are accepted
+ *  - the callback stores the session user and switches to JWT mode
+ *  - provider errors and a missing session are reported, nothing is stored
+ *  - account helpers unwrap `{ data, error }`
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies, readAuthStateUser } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const social = vi.fn();
+const getSession = vi.fn();
+const listAccounts = vi.fn();
+const unlinkAccount = vi.fn();
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    getSession,
+    linkSocial: vi.fn(),
+    listAccounts,
+    passkey: {},
+    signIn: { email: async () => ({}), social },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    unlinkAccount,
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const fetchMock = vi.fn();
+
+async function useAuth() {
+  const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+  return useLtAuth();
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { callbackPath: '/auth/callback', homePath: '/app', socialProviders: ['github', 'google'], sync: { enabled: false } } } } });
+  for (const fn of [social, getSession, listAccounts, unlinkAccount, fetchMock]) {
+    fn.mockReset();
+  }
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(async () => {
+  const { resetLtJwtRefreshState } = await import('../src/runtime/lib/auth-state');
+  resetLtJwtRefreshState();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('signIn.social', () => {
+  it('passes the callback page with the post-login target', async () => {
+    social.mockResolvedValue({ data: { redirect: true, url: 'https://github.com/login/oauth' } });
+    const { signIn, socialProviders } = await useAuth();
+
+    await signIn.social('github', { redirect: '/app/board', scopes: ['repo'] });
+
+    const callbackURL = `${window.location.origin}/auth/callback?redirect=%2Fapp%2Fboard`;
+    expect(social).toHaveBeenCalledWith({ callbackURL, errorCallbackURL: callbackURL, provider: 'github', scopes: ['repo'] });
+    expect(socialProviders).toEqual(['github', 'google']);
+  });
+
+  it('rejects providers that are not configured', async () => {
+    const { signIn } = await useAuth();
+
+    await expect(signIn.social('facebook')).rejects.toThrow('socialProviders');
+    expect(social).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleSignInCallback', () => {
+  it('stores the session user and switches to JWT mode', async () => {
+    getSession.mockResolvedValue({ data: { session: { id: 's1' }, user: { email: 'jane@example.com', id: 'u1' } } });
+    fetchMock.mockResolvedValue({ json: async () => ({ token: 'jwt-1' }), ok: true } as Response);
+    const { handleSignInCallback, jwtToken } = await useAuth();
+
+    const result = await handleSignInCallback({ redirect: '/app/board' });
+
+    expect(result).toEqual({ error: null, redirect: '/app/board', success: true, user: expect.objectContaining({ id: 'u1' }) });
+    expect(readAuthStateUser()).toMatchObject({ id: 'u1' });
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringContaining('/token'), expect.objectContaining({ credentials: 'include' }));
+    expect(jwtToken.value).toBe('jwt-1');
+  });
+
+  it('reports provider errors and missing sessions without storing a user', async () => {
+    const { handleSignInCallback } = await useAuth();
+
+    await expect(handleSignInCallback({ error: 'access_denied', redirect: 'https://evil.example' })).resolves.toEqual({ error: 'access_denied', redirect: '/app', success: false, user: null });
+    expect(getSession).not.toHaveBeenCalled();
+
+    getSession.mockResolvedValue({ data: null });
+    await expect(handleSignInCallback({})).resolves.toMatchObject({ error: 'session_not_found', success: false });
+    expect(readAuthStateUser()).toBeNull();
+  });
+});
+
+describe('linked accounts', () => {
+  it('lists and unlinks accounts, throwing backend errors', async () => {
+    listAccounts.mockResolvedValue({ data: [{ accountId: '42', id: 'a1', providerId: 'github' }] });
+    unlinkAccount.mockResolvedValueOnce({ data: { status: true } }).mockResolvedValueOnce({ data: null, error: { message: "You can't unlink your last account" } });
+    const auth = await useAuth();
+
+    await expect(auth.listAccounts()).resolves.toEqual([{ accountId: '42', id: 'a1', providerId: 'github' }]);
+    await expect(auth.unlinkAccount('github', '42')).resolves.toBe(true);
+    expect(unlinkAccount).toHaveBeenCalledWith({ accountId: '42', providerId: 'github' });
+    await expect(auth.unlinkAccount('credential')).rejects.toThrow('last account');
+  });
+});
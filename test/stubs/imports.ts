@@ -13,7 +13,7 @@
  * stubs sufficient for unit testing.
  */
 
-import { computed, getCurrentScope, onScopeDispose, reactive, readonly, ref, shallowReadonly, unref, watch, type Ref } from 'vue';
+import { computed, getCurrentScope, onScopeDispose, reactive, readonly, ref, shallowReadonly, shallowRef, unref, watch, watchEffect, type Ref } from 'vue';
 
 interface StubRuntimeConfig {
   app?: Record<string, unknown>;
@@ -70,6 +70,32 @@ export function defineNuxtPlugin<T extends (...args: any[]) => any>(setup: T): T
   return setup;
 }
 
+/**
+ * Minimal `defineNuxtRouteMiddleware` stub — a pass-through like
+ * {@link defineNuxtPlugin}, so a test can call a middleware with a fake route.
+ */
+export function defineNuxtRouteMiddleware<T extends (...args: any[]) => any>(middleware: T): T {
+  return middleware;
+}
+
+/**
+ * Minimal `navigateTo` stub. Returns a tagged object instead of navigating, so a
+ * middleware test can assert the redirect target from the return value.
+ */
+export function navigateTo(to: unknown, options?: Record<string, unknown>): { navigateTo: unknown; options?: Record<string, unknown> } {
+  return { navigateTo: to, options };
+}
+
+/** Minimal `abortNavigation` stub. Returns a tagged object carrying the error. */
+export function abortNavigation(error?: unknown): { abortNavigation: unknown } {
+  return { abortNavigation: error ?? true };
+}
+
+/** Minimal `createError` stub — an `Error` carrying the H3-style fields. */
+export function createError(input: { statusCode?: number; statusMessage?: string; message?: string }): Error & { statusCode?: number; statusMessage?: string } {
+  return Object.assign(new Error(input.message || input.statusMessage || ''), input);
+}
+
 // Mutable store for the SSR request-headers stub so tests can simulate the
 // server-side raw `Cookie` header read (use-lt-auth.ts `resolvedAuthState`).
 let requestHeaders: Record<string, string> = {};
@@ -116,6 +142,27 @@ export function useCookie<T = unknown>(name: string, _options?: Record<string, u
   return cookie as Ref<T | null>;
 }
 
+/**
+ * Minimal `refreshCookie` stub — re-reads `document.cookie` into the cached
+ * `useCookie` ref, like Nuxt does for every ref of that name in the tab.
+ */
+export function refreshCookie(name: string): void {
+  const prefix = `${name}=`;
+  const raw = document.cookie
+    .split('; ')
+    .find((entry) => entry.startsWith(prefix))
+    ?.slice(prefix.length);
+  let value: unknown = null;
+  if (raw) {
+    try {
+      value = JSON.parse(decodeURIComponent(raw));
+    } catch {
+      value = decodeURIComponent(raw);
+    }
+  }
+  useCookie(name).value = value;
+}
+
 /**
  * Minimal `useState` stub — caches a ref by key with the supplied initialiser.
  */
@@ -128,12 +175,30 @@ export function useState<T = unknown>(key: string, init?: () => T): Ref<T> {
   return state as Ref<T>;
 }
 
+const stubHooks = new Map<string, Array<(...args: any[]) => unknown>>();
+
 /**
- * Minimal `useNuxtApp` stub — returns an empty object so optional `$i18n`
- * lookups fall through to the German fallback path in `useTranslation()`.
+ * Minimal `useNuxtApp` stub — no `$i18n`, so optional lookups fall through to
+ * the German fallback path in `useTranslation()`. `hook` / `callHook` keep a
+ * small hook registry (reset via {@link resetStubNuxtHooks}).
  */
 export function useNuxtApp(): Record<string, unknown> {
-  return {};
+  return {
+    callHook: async (name: string, ...args: unknown[]) => {
+      for (const handler of stubHooks.get(name) ?? []) {
+        await handler(...args);
+      }
+    },
+    hook: (name: string, handler: (...args: any[]) => unknown) => {
+      stubHooks.set(name, [...(stubHooks.get(name) ?? []), handler]);
+      return () => stubHooks.set(name, (stubHooks.get(name) ?? []).filter((entry) => entry !== handler));
+    },
+  };
+}
+
+/** Drop every handler registered via the `useNuxtApp().hook` stub. */
+export function resetStubNuxtHooks(): void {
+  stubHooks.clear();
 }
 
-export { computed, getCurrentScope, onScopeDispose, reactive, readonly, ref, shallowReadonly, unref, watch };
+export { computed, getCurrentScope, onScopeDispose, reactive, readonly, ref, shallowReadonly, shallowRef, unref, watch, watchEffect };
@@ -0,0 +1,177 @@
+/**
+ * System setup wizard (`useSystemSetup`, `lt-system-setup` middleware).
+ *
+ *  - the 'account' step comes first, followed by the steps of the status response
+ *  - `next()` checks required fields and, for `validate` steps, the backend
+ *  - the last step submits the values with the setup token and signs the admin in
+ *  - a setup token in the link is kept and removed from the URL (not redirected during SSR)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+import { resetTestRenderScope, setTestRenderScope } from './stubs/render-scope';
+
+const signInEmail = vi.fn();
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: signInEmail },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+const ADMIN = { email: 'admin@example.com', id: 'u1', name: 'Admin' };
+const SECRET_SHA256 = '2bb80d537b1da3e38bd30361aa855686bde0eacd7162fef6a25fe97bf527a25b';
+
+const STATUS = {
+  needsSetup: true,
+  steps: [
+    { fields: [{ name: 'organization', required: true, type: 'text' }], id: 'organization' },
+    {
+      fields: [
+        { name: 'host', required: true, type: 'text' },
+        { default: 587, name: 'port', type: 'number' },
+      ],
+      id: 'smtp',
+      validate: true,
+    },
+  ],
+  tokenRequired: true,
+};
+
+async function useSetup() {
+  const { useSystemSetup } = await import('../src/runtime/composables/auth/use-system-setup');
+  return useSystemSetup();
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({
+    public: { apiUrl: 'https://api.example.com', ltExtensions: { auth: { jwtRefresh: { enabled: false }, sync: { enabled: false } } } },
+  });
+  signInEmail.mockReset().mockResolvedValue({ data: { user: ADMIN } });
+  // Cookie-mode sign-in fetches a JWT in the background
+  vi.stubGlobal('fetch', vi.fn(async () => ({ json: async () => ({}), ok: false, status: 401 })));
+});
+
+afterEach(() => {
+  resetTestRenderScope();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+});
+
+describe('useSystemSetup', () => {
+  it('walks through the steps of the backend and signs the new admin in', async () => {
+    const $fetch = vi.fn(async (url: string) => (url.endsWith('/status') ? STATUS : {}));
+    vi.stubGlobal('$fetch', $fetch);
+    const setup = await useSetup();
+    setup.setToken('one-time');
+
+    await expect(setup.checkSetupStatus()).resolves.toBe(true);
+    expect(setup.steps.value.map((step) => step.id)).toEqual(['account', 'organization', 'smtp']);
+    expect(setup.data.value.smtp).toEqual({ port: 587 });
+    expect(setup.tokenRequired.value).toBe(true);
+
+    await expect(setup.next()).resolves.toBe(false);
+    expect(setup.error.value).toBe('Bitte alle Pflichtfelder ausfüllen');
+
+    Object.assign(setup.data.value.account!, { email: ADMIN.email, name: ADMIN.name, password: 'secret' });
+    await expect(setup.next()).resolves.toBe(true);
+    setup.data.value.organization!.organization = 'ACME';
+    await expect(setup.next()).resolves.toBe(true);
+    expect(setup.isLastStep.value).toBe(true);
+
+    setup.data.value.smtp!.host = 'smtp.example.com';
+    await expect(setup.next()).resolves.toBe(true);
+
+    expect($fetch).toHaveBeenCalledWith(
+      'https://api.example.com/system-setup/validate',
+      expect.objectContaining({ body: { data: { host: 'smtp.example.com', port: 587 }, step: 'smtp', token: 'one-time' }, method: 'POST' }),
+    );
+    expect($fetch).toHaveBeenCalledWith(
+      'https://api.example.com/system-setup/init',
+      expect.objectContaining({
+        body: {
+          data: { organization: { organization: 'ACME' }, smtp: { host: 'smtp.example.com', port: 587 } },
+          email: ADMIN.email,
+          name: ADMIN.name,
+          password: SECRET_SHA256,
+          token: 'one-time',
+        },
+      }),
+    );
+    expect(signInEmail).toHaveBeenCalledWith({ email: ADMIN.email, password: 'secret' }, undefined);
+    expect(setup.needsSetup.value).toBe(false);
+    expect(setup.token.value).toBeNull();
+    // The password is not kept around
+    expect(setup.data.value.account).toEqual({});
+  });
+
+  it('reports the backend message of a failed step check or setup', async () => {
+    const $fetch = vi.fn(async (url: string) => {
+      if (url.endsWith('/status')) return STATUS;
+      throw Object.assign(new Error('[POST] 400'), { data: { message: 'SMTP connection refused' }, name: 'FetchError', response: { status: 400 } });
+    });
+    vi.stubGlobal('$fetch', $fetch);
+    const setup = await useSetup();
+    await setup.checkSetupStatus();
+
+    setup.data.value.smtp!.host = 'smtp.example.com';
+    await expect(setup.validateStep('smtp')).resolves.toBe(false);
+    expect(setup.error.value).toBe('SMTP connection refused');
+
+    // Without the required token the setup is not even sent
+    await expect(setup.submit()).resolves.toBe(false);
+    expect(setup.error.value).toBe('Für die Einrichtung ist ein Einrichtungs-Token nötig');
+
+    setup.setToken('one-time');
+    await expect(setup.submit()).resolves.toBe(false);
+    expect(setup.error.value).toBe('SMTP connection refused');
+    expect(signInEmail).not.toHaveBeenCalled();
+  });
+
+  it('keeps the one-page initSetup and skips the sign-in on request', async () => {
+    const $fetch = vi.fn(async () => ({}));
+    vi.stubGlobal('$fetch', $fetch);
+    const { initSetup } = await useSetup();
+
+    await expect(initSetup({ email: ADMIN.email, name: ADMIN.name, password: 'secret' }, { signIn: false })).resolves.toBe(false);
+    expect($fetch).toHaveBeenCalledWith(
+      'https://api.example.com/system-setup/init',
+      expect.objectContaining({ body: { email: ADMIN.email, name: ADMIN.name, password: SECRET_SHA256 } }),
+    );
+    expect(signInEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('lt-system-setup middleware', () => {
+  it('keeps the setup token from the link and removes it from the URL', async () => {
+    vi.stubGlobal('$fetch', vi.fn(async () => STATUS));
+    const middleware = (await import('../src/runtime/middleware/setup')).default as unknown as (to: unknown) => Promise<unknown>;
+
+    const result = await middleware({ hash: '', path: '/auth/setup', query: { lang: 'en', setupToken: 'one-time' } });
+
+    expect(result).toEqual({ navigateTo: { hash: '', path: '/auth/setup', query: { lang: 'en' } }, options: { replace: true } });
+    expect((await useSetup()).token.value).toBe('one-time');
+    await expect(middleware({ hash: '', path: '/auth/setup', query: { lang: 'en' } })).resolves.toBeUndefined();
+  });
+
+  it('keeps the setup token of a server-rendered link without redirecting', async () => {
+    vi.stubGlobal('$fetch', vi.fn(async () => STATUS));
+    const middleware = (await import('../src/runtime/middleware/setup')).default as unknown as (to: unknown) => Promise<unknown>;
+    setTestRenderScope('server');
+
+    // A redirect would start a new request without the token state
+    await expect(middleware({ hash: '', path: '/auth/setup', query: { setupToken: 'one-time' } })).resolves.toBeUndefined();
+    expect((await useSetup()).token.value).toBe('one-time');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Multi-tenancy (`useLtTenant` + the tenant header).
+ *
+ *  - `ltAuthFetch`, `ltAiRequest` and `useLtFile` send the active tenant while `auth.tenant.enabled` is set
+ *  - a header set by the caller wins, disabled tenancy sends nothing
+ *  - `load` lists the organizations and activates the first one for a missing / stale tenant
+ *  - `switchTenant` only accepts listed organizations
+ *  - the tenant cookie follows the cookie prefix and is cleared on logout
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies, readCookieValue } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+const fetchMock = vi.fn();
+const fetchWithAuth = vi.fn();
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({ fetchWithAuth }),
+}));
+
+const ORGANIZATIONS = [
+  { id: 'org-1', name: 'Acme', slug: 'acme' },
+  { id: 'org-2', name: 'Globex', slug: 'globex' },
+];
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return { json: async () => body, ok: status < 400, status } as Response;
+}
+
+function sentHeaders(call = 0): Headers {
+  return fetchMock.mock.calls[call]![1].headers as Headers;
+}
+
+async function useTenant() {
+  const { useLtTenant } = await import('../src/runtime/composables/auth/use-lt-tenant');
+  return useLtTenant();
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { tenant: { enabled: true, header: 'X-Tenant-Id' } } } } });
+  fetchMock.mockReset().mockResolvedValue(jsonResponse({}));
+  fetchWithAuth.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  clearAllCookies();
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+});
+
+describe('tenant header', () => {
+  it('is sent by ltAuthFetch and ltAiRequest for the active tenant', async () => {
+    const { ltAuthFetch, setLtTenantId } = await import('../src/runtime/lib/auth-state');
+    const { ltAiRequest } = await import('../src/runtime/lib/ai');
+    setLtTenantId('org-2');
+
+    await ltAuthFetch('/api/projects');
+    await ltAiRequest('GET', '/usage');
+
+    expect(sentHeaders(0).get('X-Tenant-Id')).toBe('org-2');
+    expect(fetchMock.mock.calls[1]![0]).toContain('/ai/usage');
+    expect(sentHeaders(1).get('X-Tenant-Id')).toBe('org-2');
+  });
+
+  it('keeps a header set by the caller and sends nothing while disabled', async () => {
+    const { getLtTenantHeaders, ltAuthFetch, setLtTenantId } = await import('../src/runtime/lib/auth-state');
+    setLtTenantId('org-2');
+
+    await ltAuthFetch('/api/projects', { headers: { 'X-Tenant-Id': 'org-9' } });
+    expect(sentHeaders(0).get('X-Tenant-Id')).toBe('org-9');
+
+    setStubRuntimeConfig({ public: { ltExtensions: { auth: { tenant: { enabled: false } } } } });
+    await ltAuthFetch('/api/projects');
+    expect(sentHeaders(1).has('X-Tenant-Id')).toBe(false);
+    expect(getLtTenantHeaders()).toEqual({});
+  });
+
+  it('is sent by useLtFile().getFileInfo', async () => {
+    const { setLtTenantId } = await import('../src/runtime/lib/auth-state');
+    const { useLtFile } = await import('../src/runtime/composables/use-lt-file');
+    const $fetch = vi.fn(async () => ({ id: '0123456789abcdef01234567' }));
+    vi.stubGlobal('$fetch', $fetch);
+    setLtTenantId('org-1');
+
+    await useLtFile().getFileInfo('0123456789abcdef01234567');
+
+    expect($fetch).toHaveBeenCalledWith('/files/info/0123456789abcdef01234567', expect.objectContaining({ headers: { 'X-Tenant-Id': 'org-1' } }));
+  });
+
+  it('uses the cookie prefix for the tenant cookie and drops it on logout', async () => {
+    setStubRuntimeConfig({ public: { cookiePrefix: 'acme', ltExtensions: { auth: { tenant: { enabled: true } } } } });
+    const { clearLtAuthCookies, getLtTenantHeaders, setLtTenantId } = await import('../src/runtime/lib/auth-state');
+
+    setLtTenantId('org-1');
+    expect(readCookieValue('acme-tenant-id')).toBe(encodeURIComponent('"org-1"'));
+    expect(getLtTenantHeaders()).toEqual({ 'X-Tenant-Id': 'org-1' });
+
+    clearLtAuthCookies();
+    expect(getLtTenantHeaders()).toEqual({});
+  });
+});
+
+describe('useLtTenant', () => {
+  it('lists the organizations and activates the first one', async () => {
+    fetchWithAuth.mockResolvedValue(jsonResponse(ORGANIZATIONS));
+    const { activeTenant, activeTenantId, load, organizations } = await useTenant();
+
+    await load();
+
+    expect(fetchWithAuth).toHaveBeenCalledWith(expect.stringMatching(/\/iam\/organization\/list$/), { method: 'GET' });
+    expect(organizations.value).toEqual(ORGANIZATIONS);
+    expect(activeTenantId.value).toBe('org-1');
+    expect(activeTenant.value).toMatchObject({ name: 'Acme' });
+  });
+
+  it('replaces a stale tenant and keeps a listed one', async () => {
+    const { setLtTenantId } = await import('../src/runtime/lib/auth-state');
+    fetchWithAuth.mockResolvedValue(jsonResponse(ORGANIZATIONS));
+    const { activeTenantId, load } = await useTenant();
+
+    setLtTenantId('org-2');
+    await load();
+    expect(activeTenantId.value).toBe('org-2');
+
+    setLtTenantId('org-removed');
+    await load();
+    expect(activeTenantId.value).toBe('org-1');
+  });
+
+  it('switches only to listed organizations and reports load errors', async () => {
+    fetchWithAuth.mockResolvedValueOnce(jsonResponse(ORGANIZATIONS)).mockResolvedValueOnce(jsonResponse({}, 500));
+    const { activeTenantId, clear, error, load, switchTenant } = await useTenant();
+    await load();
+
+    expect(switchTenant('org-2')).toBe(true);
+    expect(activeTenantId.value).toBe('org-2');
+    expect(switchTenant('org-9')).toBe(false);
+    expect(error.value).toBe('Sie sind kein Mitglied dieser Organisation');
+    expect(activeTenantId.value).toBe('org-2');
+
+    await load();
+    expect(error.value).toBe('Organisationen konnten nicht geladen werden');
+
+    clear();
+    expect(activeTenantId.value).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Pluggable JWT storage (`ltExtensions.auth.tokenStorage`, `registerLtTokenStorage`).
+ *
+ *  - 'cookie' (default) keeps the `lt-jwt-token` cookie
+ *  - 'sessionStorage' / 'memory' never write the cookie and are cleared on logout
+ *  - `useLtAuth().jwtToken` follows non-cookie storages reactively
+ *  - custom adapters are used once registered; unknown names fall back to memory
+ *  - a 401 in JWT mode without a stored token fetches a new one
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCookies, readCookieValue } from './stubs/cookies';
+import { resetStubReactiveStores, resetStubRuntimeConfig, setStubRuntimeConfig } from './stubs/imports';
+
+vi.mock('../src/runtime/composables/use-lt-auth-client', () => ({
+  useLtAuthClient: () => ({
+    changePassword: () => {},
+    passkey: {},
+    signIn: { email: async () => ({}) },
+    signOut: async () => ({}),
+    signUp: { email: async () => ({}) },
+    twoFactor: {},
+    useSession: () => ({ value: { data: null, isPending: false } }),
+  }),
+}));
+
+function useTokenStorage(tokenStorage: string): void {
+  setStubRuntimeConfig({ public: { ltExtensions: { auth: { jwtRefresh: { enabled: false }, sync: { enabled: false }, tokenStorage } } } });
+}
+
+async function authState() {
+  return import('../src/runtime/lib/auth-state');
+}
+
+beforeEach(() => {
+  resetStubRuntimeConfig();
+  resetStubReactiveStores();
+  clearAllCookies();
+  sessionStorage.clear();
+});
+
+afterEach(async () => {
+  const { resetLtJwtRefreshState, resetLtTokenStorageState, resetLtWarnOnceState } = await authState();
+  resetLtJwtRefreshState();
+  resetLtTokenStorageState();
+  resetLtWarnOnceState();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  clearAllCookies();
+  sessionStorage.clear();
+});
+
+describe('built-in adapters', () => {
+  it('keeps the cookie by default', async () => {
+    const { getLtJwtToken, setLtJwtToken } = await authState();
+
+    setLtJwtToken('jwt-cookie');
+
+    expect(readCookieValue('lt-jwt-token')).toBe(encodeURIComponent('"jwt-cookie"'));
+    expect(getLtJwtToken()).toBe('jwt-cookie');
+  });
+
+  it('keeps sessionStorage tokens out of the cookie and clears them on logout', async () => {
+    useTokenStorage('sessionStorage');
+    const { clearLtAuthCookies, getLtJwtToken, setLtJwtToken } = await authState();
+
+    setLtJwtToken('jwt-session');
+    expect(sessionStorage.getItem('lt-jwt-token')).toBe('jwt-session');
+    expect(document.cookie).not.toContain('jwt-session');
+    expect(getLtJwtToken()).toBe('jwt-session');
+
+    clearLtAuthCookies();
+    expect(getLtJwtToken()).toBeNull();
+  });
+
+  it('exposes a memory token through useLtAuth().jwtToken', async () => {
+    useTokenStorage('memory');
+    const { setLtJwtToken } = await authState();
+    const { useLtAuth } = await import('../src/runtime/composables/auth/use-lt-auth');
+    const { jwtToken } = useLtAuth();
+
+    setLtJwtToken('jwt-memory');
+    expect(jwtToken.value).toBe('jwt-memory');
+    expect(document.cookie).not.toContain('jwt-memory');
+
+    jwtToken.value = null;
+    expect(sessionStorage.length).toBe(0);
+    expect((await authState()).getLtJwtToken()).toBeNull();
+  });
+});
+
+describe('custom adapters', () => {
+  it('uses a registered adapter and keeps unknown names in memory', async () => {
+    useTokenStorage('native');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { getLtJwtToken, registerLtTokenStorage, setLtJwtToken } = await authState();
+
+    setLtJwtToken('jwt-early');
+    expect(getLtJwtToken()).toBe('jwt-early');
+    expect(document.cookie).not.toContain('jwt-early');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('registerLtTokenStorage'));
+
+    const store = new Map<string, string>();
+    registerLtTokenStorage('native', { get: () => store.get('jwt') ?? null, set: (token) => (token ? store.set('jwt', token) : store.delete('jwt')) });
+    setLtJwtToken('jwt-native');
+
+    expect(store.get('jwt')).toBe('jwt-native');
+    expect(getLtJwtToken()).toBe('jwt-native');
+  });
+});
+
+describe('ltAuthFetch', () => {
+  it('fetches a token on 401 in JWT mode when none is stored', async () => {
+    useTokenStorage('memory');
+    document.cookie = `lt-auth-state=${encodeURIComponent(JSON.stringify({ authMode: 'jwt', user: { id: 'u1' } }))}; path=/`;
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 401 } as Response)
+      .mockResolvedValueOnce({ json: async () => ({ token: 'jwt-fresh' }), ok: true, status: 200 } as Response)
+      .mockResolvedValueOnce({ ok: true, status: 200 } as Response);
+    vi.stubGlobal('fetch', fetchMock);
+    const { ltAuthFetch } = await authState();
+
+    const response = await ltAuthFetch('/api/projects');
+
+    expect(response.status).toBe(200);
+    expect(fetchMock.mock.calls[1]![0]).toContain('/token');
+    expect((fetchMock.mock.calls[2]![1].headers as Headers).get('Authorization')).toBe('Bearer jwt-fresh');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Two-factor authentication (`useLtTwoFactor`) and the local QR encoder.
+ *
+ *  - setup steps: start → scan (QR + secret) → verifySetup → backup codes → done
+ *  - the cached user's `twoFactorEnabled` follows enable / disable
+ *  - sign-in verification with TOTP or backup code and "trust this device"
+ *  - `ltQrCodeSvg` / `ltQrCodeMatrix` produce a valid symbol without a QR service
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { computed, ref } from 'vue';
+
+import type { LtUser } from '../src/runtime/types';
+
+import { ltQrCodeMatrix, ltQrCodeSvg } from '../src/runtime/utils/qr';
+
+const TOTP_URI = 'otpauth://totp/Example:jane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Example';
+
+const twoFactor = {
+  disable: vi.fn(),
+  enable: vi.fn(),
+  generateBackupCodes: vi.fn(),
+  verifyBackupCode: vi.fn(),
+  verifyTotp: vi.fn(),
+};
+const user = ref<LtUser | null>(null);
+const setUser = vi.fn((next: LtUser) => {
+  user.value = next;
+});
+
+vi.mock('../src/runtime/composables/auth/use-lt-auth', () => ({
+  useLtAuth: () => ({
+    authMode: computed(() => 'cookie'),
+    is2FAEnabled: computed(() => user.value?.twoFactorEnabled ?? false),
+    setUser,
+    twoFactor,
+    user,
+  }),
+}));
+
+async function useTwoFactor() {
+  const { useLtTwoFactor } = await import('../src/runtime/composables/auth/use-lt-two-factor');
+  return useLtTwoFactor();
+}
+
+beforeEach(() => {
+  user.value = { email: 'jane@example.com', id: 'u1', twoFactorEnabled: false };
+  setUser.mockClear();
+  for (const fn of Object.values(twoFactor)) {
+    fn.mockReset();
+  }
+});
+
+describe('setup', () => {
+  it('walks through scan, verification and backup codes', async () => {
+    twoFactor.enable.mockResolvedValue({ data: { backupCodes: ['a1', 'b2'], totpURI: TOTP_URI } });
+    twoFactor.verifyTotp.mockResolvedValue({ data: { token: 't', user: { id: 'u1' } } });
+    const { backupCodes, confirmBackupCodes, isEnabled, qrCodeSvg, secret, start, step, verifySetup } = await useTwoFactor();
+
+    await expect(start('secret')).resolves.toBe(true);
+    expect(twoFactor.enable).toHaveBeenCalledWith({ password: 'secret' });
+    expect(step.value).toBe('scan');
+    expect(secret.value).toBe('JBSWY3DPEHPK3PXP');
+    expect(qrCodeSvg.value).toContain('<svg');
+
+    await expect(verifySetup(' 123456 ')).resolves.toBe(true);
+    expect(twoFactor.verifyTotp).toHaveBeenCalledWith({ code: '123456' });
+    expect(step.value).toBe('backup-codes');
+    expect(backupCodes.value).toEqual(['a1', 'b2']);
+    expect(isEnabled.value).toBe(true);
+    expect(setUser).toHaveBeenCalledWith(expect.objectContaining({ id: 'u1', twoFactorEnabled: true }), 'cookie');
+
+    confirmBackupCodes();
+    expect(step.value).toBe('done');
+    expect(backupCodes.value).toEqual([]);
+    expect(qrCodeSvg.value).toBeNull();
+  });
+
+  it('stays on the current step with a translated error for a wrong code', async () => {
+    twoFactor.enable.mockResolvedValue({ data: { backupCodes: [], totpURI: TOTP_URI } });
+    twoFactor.verifyTotp.mockRejectedValue(new TypeError('Failed to fetch'));
+    const { error, isEnabled, start, step, verifySetup } = await useTwoFactor();
+
+    await start('secret');
+    await expect(verifySetup('000000')).resolves.toBe(false);
+
+    expect(step.value).toBe('scan');
+    expect(error.value).toBe('Ungültiger Code');
+    expect(isEnabled.value).toBe(false);
+  });
+
+  it('falls back to the secret when the URI does not fit into a QR code', async () => {
+    const longUri = `otpauth://totp/${'Example%20Corporation'.repeat(10)}?secret=JBSWY3DPEHPK3PXP`;
+    twoFactor.enable.mockResolvedValue({ data: { backupCodes: [], totpURI: longUri } });
+    const { error, qrCodeSvg, secret, start, step } = await useTwoFactor();
+
+    await expect(start('secret')).resolves.toBe(true);
+
+    expect(step.value).toBe('scan');
+    expect(qrCodeSvg.value).toBeNull();
+    expect(secret.value).toBe('JBSWY3DPEHPK3PXP');
+    expect(error.value).toBe('QR-Code konnte nicht erstellt werden – bitte den Schlüssel manuell eingeben');
+  });
+
+  it('regenerates backup codes and disables 2FA', async () => {
+    user.value = { email: 'jane@example.com', id: 'u1', twoFactorEnabled: true };
+    twoFactor.generateBackupCodes.mockResolvedValue({ data: { backupCodes: ['c3'], status: true } });
+    twoFactor.disable.mockResolvedValueOnce({ data: null, error: { message: 'Invalid password', status: 400 } }).mockResolvedValueOnce({ data: { status: true } });
+    const { backupCodes, disable, error, isEnabled, regenerateBackupCodes, step } = await useTwoFactor();
+
+    await expect(regenerateBackupCodes('secret')).resolves.toBe(true);
+    expect(step.value).toBe('backup-codes');
+    expect(backupCodes.value).toEqual(['c3']);
+
+    await expect(disable('wrong')).resolves.toBe(false);
+    expect(error.value).toBe('Invalid password');
+    expect(isEnabled.value).toBe(true);
+
+    await expect(disable('secret')).resolves.toBe(true);
+    expect(isEnabled.value).toBe(false);
+    expect(step.value).toBe('idle');
+  });
+});
+
+describe('sign-in verification', () => {
+  it('verifies a TOTP or a backup code and passes "trust this device"', async () => {
+    twoFactor.verifyTotp.mockResolvedValue({ data: { token: 't', user: { id: 'u1' } } });
+    twoFactor.verifyBackupCode.mockResolvedValue({ data: { token: 't', user: { id: 'u1' } } });
+    const { verify } = await useTwoFactor();
+
+    await expect(verify('123456', { trustDevice: true })).resolves.toBe(true);
+    expect(twoFactor.verifyTotp).toHaveBeenCalledWith({ code: '123456', trustDevice: true });
+
+    await expect(verify('abcd-efgh', { backupCode: true })).resolves.toBe(true);
+    expect(twoFactor.verifyBackupCode).toHaveBeenCalledWith({ code: 'abcd-efgh', trustDevice: false });
+  });
+});
+
+describe('ltQrCodeSvg', () => {
+  it('encodes an otpauth URI with finder patterns and quiet zone', () => {
+    const matrix = ltQrCodeMatrix(TOTP_URI);
+    const size = matrix.length;
+
+    // Version 1..10: 21..57 modules, 4 modules per version step
+    expect((size - 17) % 4).toBe(0);
+    for (const [row, col] of [
+      [0, 0],
+      [0, size - 7],
+      [size - 7, 0],
+    ] as const) {
+      expect(matrix[row]!.slice(col, col + 7)).toEqual([true, true, true, true, true, true, true]);
+      expect(matrix[row + 1]!.slice(col, col + 7)).toEqual([true, false, false, false, false, false, true]);
+    }
+
+    expect(ltQrCodeSvg(TOTP_URI)).toContain(`viewBox="0 0 ${size + 8} ${size + 8}"`);
+    expect(ltQrCodeSvg(TOTP_URI, { margin: 0 })).toContain(`viewBox="0 0 ${size} ${size}"`);
+  });
+
+  it('rejects data beyond the supported size', () => {
+    expect(() => ltQrCodeMatrix('x'.repeat(500))).toThrow();
+  });
+});